@@ -11,6 +11,23 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// The command-line tool (src/cli) is a separate Node bundle
+if (process.argv[2] === "cli") {
+	await esbuild.build({
+		banner: {
+			js: "#!/usr/bin/env node",
+		},
+		entryPoints: ["src/cli/index.ts"],
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		logLevel: "info",
+		outfile: "dist/canvas-sync.js",
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -1,11 +1,17 @@
-import { requestUrl } from 'obsidian';
 import { CanvasApiClient } from './api-client';
+import { HttpError, findHeader, isRateLimited } from './transport';
+import type { SendRequest } from './transport';
 import type {
 	CanvasModule,
 	CanvasPage,
 	CanvasAssignment,
 	CanvasDiscussion,
-	CanvasModuleItem
+	CanvasQuiz,
+	CanvasQuizQuestion,
+	CanvasRubric,
+	CanvasRubricAssociation,
+	CanvasModuleItem,
+	CanvasFile
 } from './types';
 import type {
 	CreateModuleParams,
@@ -16,6 +22,10 @@ import type {
 	UpdateAssignmentParams,
 	CreateDiscussionParams,
 	UpdateDiscussionParams,
+	CreateQuizParams,
+	UpdateQuizParams,
+	QuizQuestionParams,
+	CreateRubricParams,
 	CreateModuleItemParams,
 	UpdateModuleItemParams
 } from '../upload/types';
@@ -28,19 +38,19 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 	private _baseUrl: string;
 	private _token: string;
 
-	constructor(baseUrl: string, token: string, courseId: string) {
-		super(baseUrl, token);
+	constructor(baseUrl: string, token: string, courseId: string, send?: SendRequest) {
+		super(baseUrl, token, send);
 		this._baseUrl = baseUrl.replace(/\/$/, '');
 		this._token = token;
 		this.courseId = courseId;
 	}
 
 	/**
-	 * Make a generic POST/PUT request to Canvas
+	 * Make a generic POST/PUT/DELETE request to Canvas
 	 */
 	private async writeRequest<T>(
 		endpoint: string,
-		method: 'POST' | 'PUT',
+		method: 'POST' | 'PUT' | 'DELETE',
 		params: Record<string, any>
 	): Promise<T> {
 		const url = `${this._baseUrl}${endpoint}`;
@@ -50,7 +60,7 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 		this.buildFormData(formData, params);
 
 		try {
-			const response = await requestUrl({
+			const response = await this.transport.request({
 				url,
 				method,
 				headers: {
@@ -63,12 +73,17 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 
 			if (response.status === 200 || response.status === 201) {
 				return response.json as T;
+			} else if (response.status === 204) {
+				// No Content (e.g. deleting a quiz question)
+				return undefined as unknown as T;
 			} else {
 				throw new Error(`HTTP ${response.status}: ${response.text}`);
 			}
 		} catch (error: any) {
 			// Handle different error types with user-friendly messages
-			if (error.status === 401) {
+			if (error instanceof HttpError && isRateLimited(error)) {
+				throw new Error('Canvas rate limit exceeded. Wait a minute and try again.');
+			} else if (error.status === 401) {
 				throw new Error('Invalid Canvas token. Please check your settings.');
 			} else if (error.status === 403) {
 				throw new Error('Access denied. You may not have permission to modify this course.');
@@ -97,9 +112,13 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 			const formKey = prefix ? `${prefix}[${key}]` : key;
 
 			if (Array.isArray(value)) {
-				// Array values: append with [] suffix
-				value.forEach(item => {
-					formData.append(`${formKey}[]`, String(item));
+				// Array values: append with [] suffix, objects with their index
+				value.forEach((item, index) => {
+					if (item !== null && typeof item === 'object') {
+						this.buildFormData(formData, item, `${formKey}[${index}]`);
+					} else {
+						formData.append(`${formKey}[]`, String(item));
+					}
 				});
 			} else if (typeof value === 'object') {
 				// Nested objects: recurse
@@ -131,6 +150,14 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 		);
 	}
 
+	async deleteModule(moduleId: number): Promise<CanvasModule> {
+		return await this.writeRequest<CanvasModule>(
+			`/api/v1/courses/${this.courseId}/modules/${moduleId}`,
+			'DELETE',
+			{}
+		);
+	}
+
 	/**
 	 * PAGE OPERATIONS
 	 */
@@ -151,6 +178,14 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 		);
 	}
 
+	async deletePage(pageUrl: string): Promise<CanvasPage> {
+		return await this.writeRequest<CanvasPage>(
+			`/api/v1/courses/${this.courseId}/pages/${pageUrl}`,
+			'DELETE',
+			{}
+		);
+	}
+
 	/**
 	 * ASSIGNMENT OPERATIONS
 	 */
@@ -171,6 +206,14 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 		);
 	}
 
+	async deleteAssignment(assignmentId: number): Promise<CanvasAssignment> {
+		return await this.writeRequest<CanvasAssignment>(
+			`/api/v1/courses/${this.courseId}/assignments/${assignmentId}`,
+			'DELETE',
+			{}
+		);
+	}
+
 	/**
 	 * DISCUSSION OPERATIONS
 	 */
@@ -191,6 +234,167 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 		);
 	}
 
+	async deleteDiscussion(topicId: number): Promise<CanvasDiscussion> {
+		return await this.writeRequest<CanvasDiscussion>(
+			`/api/v1/courses/${this.courseId}/discussion_topics/${topicId}`,
+			'DELETE',
+			{}
+		);
+	}
+
+	/**
+	 * QUIZ OPERATIONS (Classic Quizzes)
+	 */
+
+	async createQuiz(params: CreateQuizParams): Promise<CanvasQuiz> {
+		return await this.writeRequest<CanvasQuiz>(
+			`/api/v1/courses/${this.courseId}/quizzes`,
+			'POST',
+			{ quiz: params }
+		);
+	}
+
+	async updateQuiz(quizId: number, params: UpdateQuizParams): Promise<CanvasQuiz> {
+		return await this.writeRequest<CanvasQuiz>(
+			`/api/v1/courses/${this.courseId}/quizzes/${quizId}`,
+			'PUT',
+			{ quiz: params }
+		);
+	}
+
+	async deleteQuiz(quizId: number): Promise<CanvasQuiz> {
+		return await this.writeRequest<CanvasQuiz>(
+			`/api/v1/courses/${this.courseId}/quizzes/${quizId}`,
+			'DELETE',
+			{}
+		);
+	}
+
+	async createQuizQuestion(quizId: number, params: QuizQuestionParams): Promise<CanvasQuizQuestion> {
+		return await this.writeRequest<CanvasQuizQuestion>(
+			`/api/v1/courses/${this.courseId}/quizzes/${quizId}/questions`,
+			'POST',
+			{ question: params }
+		);
+	}
+
+	async updateQuizQuestion(quizId: number, questionId: number, params: QuizQuestionParams): Promise<CanvasQuizQuestion> {
+		return await this.writeRequest<CanvasQuizQuestion>(
+			`/api/v1/courses/${this.courseId}/quizzes/${quizId}/questions/${questionId}`,
+			'PUT',
+			{ question: params }
+		);
+	}
+
+	async deleteQuizQuestion(quizId: number, questionId: number): Promise<void> {
+		await this.writeRequest<unknown>(
+			`/api/v1/courses/${this.courseId}/quizzes/${quizId}/questions/${questionId}`,
+			'DELETE',
+			{}
+		);
+	}
+
+	/**
+	 * RUBRIC OPERATIONS
+	 */
+
+	/**
+	 * Create a rubric and associate it with an assignment
+	 * The new association replaces any rubric the assignment already had.
+	 */
+	async createRubric(params: CreateRubricParams): Promise<{ rubric: CanvasRubric; rubric_association: CanvasRubricAssociation }> {
+		return await this.writeRequest<{ rubric: CanvasRubric; rubric_association: CanvasRubricAssociation }>(
+			`/api/v1/courses/${this.courseId}/rubrics`,
+			'POST',
+			params
+		);
+	}
+
+	/**
+	 * FILE OPERATIONS
+	 */
+
+	/**
+	 * Upload a file into a course folder, given by ID or by path (created if missing)
+	 * Canvas uploads take three steps: request an upload slot, POST the bytes to the
+	 * URL it returns, then confirm. A file with the same name in the folder is replaced.
+	 */
+	async uploadFile(folder: number | string, name: string, data: ArrayBuffer, contentType: string): Promise<CanvasFile> {
+		// 1. Request an upload slot
+		const params = { name, size: data.byteLength, content_type: contentType, on_duplicate: 'overwrite' };
+		const slot = await this.writeRequest<{ upload_url: string; upload_params: Record<string, string> }>(
+			typeof folder === 'number' ? `/api/v1/folders/${folder}/files` : `/api/v1/courses/${this.courseId}/files`,
+			'POST',
+			typeof folder === 'number' ? params : { ...params, parent_folder_path: folder }
+		);
+
+		// 2. POST the bytes (the upload URL is pre-authorized - no token)
+		const boundary = `----CanvasLmsHelper${Date.now().toString(16)}`;
+		const response = await this.transport.request({
+			url: slot.upload_url,
+			method: 'POST',
+			contentType: `multipart/form-data; boundary=${boundary}`,
+			body: this.buildMultipartBody(boundary, slot.upload_params, name, contentType, data)
+		}).catch(error => {
+			throw error instanceof HttpError ? new Error(`File upload failed for "${name}": HTTP ${error.status}`) : error;
+		});
+
+		// 3. Confirm: either the file comes straight back, or we follow the location Canvas gives us
+		let body: any;
+		try {
+			body = response.json;
+		} catch {
+			body = undefined;
+		}
+		if (body?.id) {
+			return body as CanvasFile;
+		}
+
+		const location = body?.location ?? findHeader(response.headers, 'location');
+		if (!location) {
+			throw new Error(`File upload for "${name}" was not confirmed by Canvas`);
+		}
+
+		const confirmed = await this.transport.request({
+			url: location,
+			method: 'GET',
+			headers: {
+				'Authorization': `Bearer ${this._token}`,
+				'Accept': 'application/json'
+			}
+		});
+		return confirmed.json as CanvasFile;
+	}
+
+	/**
+	 * Encode the upload parameters followed by the file as multipart/form-data
+	 * Canvas requires the file to be the last part.
+	 */
+	private buildMultipartBody(
+		boundary: string,
+		fields: Record<string, string>,
+		name: string,
+		contentType: string,
+		data: ArrayBuffer
+	): ArrayBuffer {
+		const encoder = new TextEncoder();
+		let head = '';
+		for (const [key, value] of Object.entries(fields)) {
+			head += `--${boundary}\r\nContent-Disposition: form-data; name="${key}"\r\n\r\n${value}\r\n`;
+		}
+		head += `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${name.replace(/"/g, '%22')}"\r\n` +
+			`Content-Type: ${contentType}\r\n\r\n`;
+
+		const parts = [encoder.encode(head), new Uint8Array(data), encoder.encode(`\r\n--${boundary}--\r\n`)];
+		const body = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+		let offset = 0;
+		for (const part of parts) {
+			body.set(part, offset);
+			offset += part.length;
+		}
+		return body.buffer;
+	}
+
 	/**
 	 * MODULE ITEM OPERATIONS
 	 */
@@ -214,4 +418,12 @@ export class CanvasApiClientWrite extends CanvasApiClient {
 			{ module_item: params }
 		);
 	}
+
+	async deleteModuleItem(moduleId: number, itemId: number): Promise<CanvasModuleItem> {
+		return await this.writeRequest<CanvasModuleItem>(
+			`/api/v1/courses/${this.courseId}/modules/${moduleId}/items/${itemId}`,
+			'DELETE',
+			{}
+		);
+	}
 }
@@ -1,4 +1,3 @@
-import { requestUrl } from 'obsidian';
 import type {
 	CanvasCourse,
 	CanvasModule,
@@ -6,18 +5,30 @@ import type {
 	CanvasPage,
 	CanvasAssignment,
 	CanvasDiscussion,
+	CanvasQuiz,
+	CanvasQuizQuestion,
 	CanvasFile,
 	CanvasFolder
 } from './types';
+import { CanvasTransport, HttpError, isRateLimited, getDefaultSend } from './transport';
+import type { HttpResponse, SendRequest } from './transport';
 
+/**
+ * Read-only Canvas API client
+ * Requests go out through the given SendRequest: sendWithFetch in Node, or a fake or
+ * recording in tests. Without one, the default transport is used (Obsidian's requestUrl
+ * in the plugin, see transport-obsidian.ts).
+ */
 export class CanvasApiClient {
 	private baseUrl: string;
 	private token: string;
+	protected transport: CanvasTransport;
 
-	constructor(baseUrl: string, token: string) {
+	constructor(baseUrl: string, token: string, send: SendRequest = getDefaultSend()) {
 		// Remove trailing slash from base URL
 		this.baseUrl = baseUrl.replace(/\/$/, '');
 		this.token = token;
+		this.transport = new CanvasTransport(send);
 	}
 
 	/**
@@ -27,7 +38,7 @@ export class CanvasApiClient {
 		const url = `${this.baseUrl}${endpoint}`;
 
 		try {
-			const response = await requestUrl({
+			const response = await this.transport.request({
 				url,
 				method: 'GET',
 				headers: {
@@ -43,7 +54,9 @@ export class CanvasApiClient {
 			}
 		} catch (error) {
 			// Handle different error types with user-friendly messages
-			if (error.status === 401) {
+			if (error instanceof HttpError && isRateLimited(error)) {
+				throw new Error('Canvas rate limit exceeded. Wait a minute and try again.');
+			} else if (error.status === 401) {
 				throw new Error('Invalid Canvas token. Please check your settings.');
 			} else if (error.status === 403) {
 				throw new Error('Access denied. You may not have permission to view this course.');
@@ -67,7 +80,7 @@ export class CanvasApiClient {
 
 		while (url) {
 			try {
-				const response = await requestUrl({
+				const response: HttpResponse = await this.transport.request({
 					url,
 					method: 'GET',
 					headers: {
@@ -87,7 +100,9 @@ export class CanvasApiClient {
 				}
 			} catch (error) {
 				// Handle different error types with user-friendly messages
-				if (error.status === 401) {
+				if (error instanceof HttpError && isRateLimited(error)) {
+					throw new Error('Canvas rate limit exceeded. Wait a minute and try again.');
+				} else if (error.status === 401) {
 					throw new Error('Invalid Canvas token. Please check your settings.');
 				} else if (error.status === 403) {
 					throw new Error('Access denied. You may not have permission to view this course.');
@@ -130,6 +145,13 @@ export class CanvasApiClient {
 		return await this.request<CanvasCourse>(`/api/v1/courses/${courseId}`);
 	}
 
+	/**
+	 * Get the courses the user teaches, with their terms (handles pagination)
+	 */
+	async getCourses(): Promise<CanvasCourse[]> {
+		return await this.requestPaginated<CanvasCourse>('/api/v1/courses?enrollment_type=teacher&include[]=term');
+	}
+
 	/**
 	 * Get all modules in a course (handles pagination)
 	 */
@@ -137,6 +159,16 @@ export class CanvasApiClient {
 		return await this.requestPaginated<CanvasModule>(`/api/v1/courses/${courseId}/modules`);
 	}
 
+	/**
+	 * Get all modules with their items inline, including content details (handles pagination)
+	 * Canvas leaves out the items of very large modules; fetch those with getModuleItems.
+	 */
+	async getModulesWithItems(courseId: string): Promise<CanvasModule[]> {
+		return await this.requestPaginated<CanvasModule>(
+			`/api/v1/courses/${courseId}/modules?include[]=items&include[]=content_details`
+		);
+	}
+
 	/**
 	 * Get all items in a module (handles pagination)
 	 */
@@ -155,6 +187,16 @@ export class CanvasApiClient {
 		);
 	}
 
+	/**
+	 * Get all pages in a course, with their bodies unless told otherwise (handles pagination)
+	 * Older Canvas versions ignore include[]=body; their pages come back without one.
+	 */
+	async getPages(courseId: string, withBodies = true): Promise<CanvasPage[]> {
+		return await this.requestPaginated<CanvasPage>(
+			`/api/v1/courses/${courseId}/pages${withBodies ? '?include[]=body' : ''}`
+		);
+	}
+
 	/**
 	 * Get a specific assignment
 	 */
@@ -164,6 +206,13 @@ export class CanvasApiClient {
 		);
 	}
 
+	/**
+	 * Get all assignments in a course (handles pagination)
+	 */
+	async getAssignments(courseId: string): Promise<CanvasAssignment[]> {
+		return await this.requestPaginated<CanvasAssignment>(`/api/v1/courses/${courseId}/assignments`);
+	}
+
 	/**
 	 * Get a specific discussion topic
 	 */
@@ -173,6 +222,38 @@ export class CanvasApiClient {
 		);
 	}
 
+	/**
+	 * Get all discussion topics in a course, without announcements (handles pagination)
+	 */
+	async getDiscussions(courseId: string): Promise<CanvasDiscussion[]> {
+		return await this.requestPaginated<CanvasDiscussion>(`/api/v1/courses/${courseId}/discussion_topics`);
+	}
+
+	/**
+	 * Get a specific quiz (Classic Quizzes)
+	 */
+	async getQuiz(courseId: string, quizId: string): Promise<CanvasQuiz> {
+		return await this.request<CanvasQuiz>(
+			`/api/v1/courses/${courseId}/quizzes/${quizId}`
+		);
+	}
+
+	/**
+	 * Get all quizzes in a course (handles pagination)
+	 */
+	async getQuizzes(courseId: string): Promise<CanvasQuiz[]> {
+		return await this.requestPaginated<CanvasQuiz>(`/api/v1/courses/${courseId}/quizzes`);
+	}
+
+	/**
+	 * Get all questions in a quiz (handles pagination)
+	 */
+	async getQuizQuestions(courseId: string, quizId: string): Promise<CanvasQuizQuestion[]> {
+		return await this.requestPaginated<CanvasQuizQuestion>(
+			`/api/v1/courses/${courseId}/quizzes/${quizId}/questions`
+		);
+	}
+
 	/**
 	 * Get a specific file
 	 */
@@ -180,6 +261,15 @@ export class CanvasApiClient {
 		return await this.request<CanvasFile>(`/api/v1/files/${fileId}`);
 	}
 
+	/**
+	 * Download the contents of a file
+	 * The file URL carries its own verifier, so no token is sent (it may redirect to storage).
+	 */
+	async downloadFile(file: CanvasFile): Promise<ArrayBuffer> {
+		const response = await this.transport.request({ url: file.url, method: 'GET' });
+		return response.arrayBuffer;
+	}
+
 	/**
 	 * Get all folders in a course (includes all subfolders as a flat list)
 	 */
@@ -187,6 +277,13 @@ export class CanvasApiClient {
 		return await this.requestPaginated<CanvasFolder>(`/api/v1/courses/${courseId}/folders`);
 	}
 
+	/**
+	 * Get all files in a course, whatever folder they are in (handles pagination)
+	 */
+	async getCourseFiles(courseId: string): Promise<CanvasFile[]> {
+		return await this.requestPaginated<CanvasFile>(`/api/v1/courses/${courseId}/files`);
+	}
+
 	/**
 	 * Get all files in a folder
 	 */
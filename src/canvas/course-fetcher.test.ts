@@ -0,0 +1,74 @@
+import { fetchCourseContent, fetchPageBodies } from './course-fetcher';
+import type { CanvasApiClient } from './api-client';
+
+/**
+ * Fake client: answers the list endpoints from fixed data and records per-item requests
+ */
+function fakeClient(overrides: Partial<Record<keyof CanvasApiClient, (...args: any[]) => Promise<any>>> = {}) {
+	const calls: string[] = [];
+	const client = {
+		getModulesWithItems: async () => [
+			{ id: 1, name: 'Week 1', position: 1, items: [{ id: 11, title: 'Intro', type: 'Page', page_url: 'intro' }] },
+			{ id: 2, name: 'Week 2', position: 2 }
+		],
+		getModuleItems: async (_courseId: string, moduleId: string) => {
+			calls.push(`items ${moduleId}`);
+			return [{ id: 21, title: 'Essay', type: 'Assignment', content_id: 5 }];
+		},
+		getPages: async () => [{ url: 'intro', title: 'Intro', body: '<p>Hi</p>' }, { url: 'notes', title: 'Notes' }],
+		getPage: async (_courseId: string, url: string) => {
+			calls.push(`page ${url}`);
+			return { url, title: url, body: `<p>${url}</p>` };
+		},
+		getAssignments: async () => [{ id: 5, name: 'Essay', points_possible: 10, due_at: null }],
+		getDiscussions: async () => [{ id: 7, title: 'Graded', assignment_id: 5 }, { id: 8, title: 'Open' }],
+		getQuizzes: async () => [],
+		...overrides
+	};
+	return { client: client as unknown as CanvasApiClient, calls };
+}
+
+describe('fetchCourseContent', () => {
+	it('joins the bulk lists and fetches only the module items left out', async () => {
+		const { client, calls } = fakeClient();
+
+		const content = await fetchCourseContent(client, '1', 4);
+
+		expect(calls).toEqual(['items 2']);
+		expect(content.modules.map(module => module.items?.map(item => item.id))).toEqual([[11], [21]]);
+		expect(content.discussions[0].assignment).toEqual({ points_possible: 10, due_at: null });
+		expect(content.discussions[1].assignment).toBeUndefined();
+	});
+
+	it('leaves a failed content list empty but fails when modules cannot load', async () => {
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+		const failing = async () => { throw new Error('HTTP 500'); };
+
+		const content = await fetchCourseContent(fakeClient({ getQuizzes: failing }).client, '1', 4);
+		expect(content.quizzes).toEqual([]);
+		expect(content.pages).toHaveLength(2);
+
+		await expect(fetchCourseContent(fakeClient({ getModulesWithItems: failing }).client, '1', 4))
+			.rejects.toThrow('HTTP 500');
+		warn.mockRestore();
+	});
+
+	it('fails when a required content list cannot load', async () => {
+		const failing = async () => { throw new Error('HTTP 500'); };
+		const { client } = fakeClient({ getAssignments: failing });
+
+		await expect(fetchCourseContent(client, '1', 4, { required: ['assignments'] })).rejects.toThrow('HTTP 500');
+	});
+});
+
+describe('fetchPageBodies', () => {
+	it('fetches only the bodies the list left out', async () => {
+		const { client, calls } = fakeClient();
+		const pages = await client.getPages('1');
+
+		await fetchPageBodies(client, '1', pages, 4);
+
+		expect(calls).toEqual(['page notes']);
+		expect(pages.map(page => page.body)).toEqual(['<p>Hi</p>', '<p>notes</p>']);
+	});
+});
@@ -0,0 +1,230 @@
+/**
+ * Fetch a whole course with bulk list endpoints
+ *
+ * One paginated request per content type (modules with their items, pages with their
+ * bodies, assignments, discussions, quizzes, files), joined locally. Only content the
+ * lists leave out is fetched item by item: page bodies on Canvas versions that don't
+ * include them, the items of very large modules, and quiz questions.
+ */
+
+import { mapConcurrent } from '../utils/concurrency';
+import type { ProgressCounter } from '../utils/progress';
+import type { CanvasApiClient } from './api-client';
+import type {
+	CanvasCourse,
+	CanvasModule,
+	CanvasPage,
+	CanvasAssignment,
+	CanvasDiscussion,
+	CanvasQuiz,
+	CanvasQuizQuestion,
+	CanvasFile,
+	CanvasFolder
+} from './types';
+
+export interface CourseContent {
+	modules: CanvasModule[];          // Each with its items
+	pages: CanvasPage[];              // Bodies may be missing, see fetchPageBodies
+	assignments: CanvasAssignment[];
+	discussions: CanvasDiscussion[];  // Graded ones with their assignment
+	quizzes: CanvasQuiz[];
+}
+
+export type ContentList = 'pages' | 'assignments' | 'discussions' | 'quizzes';
+
+export interface FetchOptions {
+	progress?: ProgressCounter; // Counts each request as a step
+	pageBodies?: boolean;       // Include page bodies in the page list (default true)
+	required?: ContentList[];   // Lists that must load: these throw instead of coming back empty
+}
+
+export interface CourseData {
+	course: CanvasCourse;
+	modules: CanvasModule[];
+	itemsData: Map<string, any>; // Content keyed the way CanvasCourseFormatter expects
+}
+
+/**
+ * Fetch everything a course file is made from: the course, its modules and all content
+ * Progress counts each request as a step, including the per-item ones.
+ */
+export async function fetchCourse(
+	client: CanvasApiClient,
+	courseId: string,
+	limit: number,
+	progress?: ProgressCounter
+): Promise<CourseData> {
+	// Fetch course info
+	const course = await client.getCourse(courseId);
+
+	// Fetch modules with their items, and all content
+	const content = await fetchCourseContent(client, courseId, limit, { progress });
+	const modules = content.modules;
+
+	// Fetch what the lists leave out: missing page bodies, and the questions of quizzes in modules
+	const quizIds = new Set<number>();
+	for (const module of modules) {
+		for (const item of module.items || []) {
+			if (item.type === 'Quiz' && item.content_id) quizIds.add(item.content_id);
+		}
+	}
+	progress?.add(content.pages.filter(page => page.body === undefined).length + quizIds.size);
+	await fetchPageBodies(client, courseId, content.pages, limit, () => progress?.tick());
+	const quizQuestions = await fetchQuizQuestions(client, courseId, Array.from(quizIds), limit, () => progress?.tick());
+
+	// Fetch ALL course files (including those not in modules)
+	progress?.add(1);
+	const { files, folders } = await fetchCourseFiles(client, courseId);
+	progress?.tick();
+
+	const itemsData = new Map<string, any>();
+	for (const module of modules) {
+		itemsData.set(`module_${module.id}`, module.items || []);
+	}
+	for (const page of content.pages) {
+		itemsData.set(`page_${page.url}`, page);
+	}
+	for (const assignment of content.assignments) {
+		itemsData.set(`assignment_${assignment.id}`, assignment);
+	}
+	for (const discussion of content.discussions) {
+		itemsData.set(`discussion_${discussion.id}`, discussion);
+	}
+	for (const quiz of content.quizzes) {
+		itemsData.set(`quiz_${quiz.id}`, quiz);
+	}
+	for (const [quizId, questions] of quizQuestions) {
+		itemsData.set(`quiz_questions_${quizId}`, questions);
+	}
+	for (const file of files) {
+		itemsData.set(`file_${file.id}`, file);
+	}
+
+	// Full lists, for the sections of content and files outside modules
+	itemsData.set('course_pages', content.pages);
+	itemsData.set('course_assignments', content.assignments);
+	itemsData.set('course_discussions', content.discussions);
+	itemsData.set('course_files', files);
+	itemsData.set('course_folders', folders);
+
+	return { course, modules, itemsData };
+}
+
+/**
+ * Fetch the modules and content of a course
+ * Modules must load, as must the required lists; any other content list that fails is
+ * logged and left empty. Uploads require the lists of content they compare against, since
+ * an empty list would make every item in it look new.
+ */
+export async function fetchCourseContent(
+	client: CanvasApiClient,
+	courseId: string,
+	limit: number,
+	{ progress, pageBodies = true, required = [] }: FetchOptions = {}
+): Promise<CourseContent> {
+	progress?.add(5);
+	const modules = await client.getModulesWithItems(courseId);
+	progress?.tick();
+
+	// Very large modules come without their items
+	const incomplete = modules.filter(module => !module.items);
+	progress?.add(incomplete.length);
+	await mapConcurrent(incomplete, limit, async module => {
+		module.items = await client.getModuleItems(courseId, module.id.toString());
+		progress?.tick();
+	});
+
+	const list = async <T>(label: ContentList, fetch: () => Promise<T[]>) => {
+		const items = required.includes(label) ? await fetch() : await optional(label, fetch);
+		progress?.tick();
+		return items;
+	};
+	const pages = await list('pages', () => client.getPages(courseId, pageBodies));
+	const assignments = await list('assignments', () => client.getAssignments(courseId));
+	const discussions = await list('discussions', () => client.getDiscussions(courseId));
+	const quizzes = await list('quizzes', () => client.getQuizzes(courseId));
+
+	// The discussion list doesn't carry the assignment of graded discussions
+	const assignmentsById = new Map(assignments.map(assignment => [assignment.id, assignment]));
+	for (const discussion of discussions) {
+		const assignment = discussion.assignment_id ? assignmentsById.get(discussion.assignment_id) : undefined;
+		if (assignment && !discussion.assignment) {
+			discussion.assignment = { points_possible: assignment.points_possible ?? 0, due_at: assignment.due_at };
+		}
+	}
+
+	return { modules, pages, assignments, discussions, quizzes };
+}
+
+/**
+ * Fetch the bodies the page list left out (in place), calling onFetched after each page
+ */
+export async function fetchPageBodies(
+	client: CanvasApiClient,
+	courseId: string,
+	pages: CanvasPage[],
+	limit: number,
+	onFetched?: () => void
+): Promise<void> {
+	await mapConcurrent(pages.filter(page => page.body === undefined), limit, async page => {
+		try {
+			page.body = (await client.getPage(courseId, page.url)).body;
+		} catch (error) {
+			console.warn(`Failed to fetch page "${page.title}":`, error);
+		}
+		onFetched?.();
+	});
+}
+
+/**
+ * Fetch the questions of each quiz, by quiz ID, calling onFetched after each quiz
+ */
+export async function fetchQuizQuestions(
+	client: CanvasApiClient,
+	courseId: string,
+	quizIds: number[],
+	limit: number,
+	onFetched?: () => void
+): Promise<Map<number, CanvasQuizQuestion[]>> {
+	const questions = new Map<number, CanvasQuizQuestion[]>();
+	await mapConcurrent(quizIds, limit, async quizId => {
+		try {
+			questions.set(quizId, await client.getQuizQuestions(courseId, quizId.toString()));
+		} catch (error) {
+			console.warn(`Failed to fetch questions for quiz ${quizId}:`, error);
+		}
+		onFetched?.();
+	});
+	return questions;
+}
+
+/**
+ * Fetch all files and folders of a course (empty lists if that fails, unless required)
+ */
+export async function fetchCourseFiles(
+	client: CanvasApiClient,
+	courseId: string,
+	required = false
+): Promise<{ files: CanvasFile[]; folders: CanvasFolder[] }> {
+	try {
+		const folders = await client.getCourseFolders(courseId);
+		const files = await client.getCourseFiles(courseId);
+		return { files, folders };
+	} catch (error) {
+		if (required) throw error;
+		console.warn('Failed to fetch course files:', error);
+		return { files: [], folders: [] };
+	}
+}
+
+/**
+ * Fetch a content list, logging a failure instead of aborting the whole course
+ */
+async function optional<T>(label: string, fetch: () => Promise<T[]>): Promise<T[]> {
+	try {
+		return await fetch();
+	} catch (error) {
+		console.warn(`Failed to fetch ${label}:`, error);
+		return [];
+	}
+}
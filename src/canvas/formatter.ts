@@ -4,9 +4,46 @@ import type {
 	CanvasPage,
 	CanvasAssignment,
 	CanvasDiscussion,
+	CanvasQuiz,
+	CanvasQuizQuestion,
 	CanvasFile
 } from './types';
 import { htmlToMarkdownNested } from '../utils/html-to-markdown';
+import { formatCanvasDate } from '../utils/date-utils';
+import { questionFromCanvas, formatQuizQuestion } from './quiz-questions';
+import { rubricFromCanvas, formatRubric } from './rubrics';
+import { formatFrontmatterField } from '../utils/frontmatter-utils';
+import { safeFileName } from '../utils/file-names';
+import type { CourseNote, SectionKind } from '../upload/types';
+
+/**
+ * Written under the heading of a section for content outside modules ("Unmoduled Content",
+ * "Course Files"), so uploads don't take it for a module whatever the module is called
+ */
+export function sectionMarker(kind: SectionKind): string {
+	return `<!-- canvas_section: ${kind} -->`;
+}
+
+/**
+ * Item types that get a note of their own in the folder layout (the rest stay in the index note)
+ */
+const NOTE_TYPES = ['page', 'assignment', 'discussion', 'quiz'];
+
+/**
+ * An item as the formatter lays it out, before it is written as a block of a course file or as an item note
+ */
+interface ItemParts {
+	type: string;
+	title: string;
+	ids: Array<[string, string | number]>; // Canvas ID comments, in order
+	metadata: Array<[string, any]>;        // "key: value" settings, in order
+	separated: boolean;                    // Whether a --- line comes between the metadata and the body
+	body: string;                          // Markdown after the metadata
+}
+
+function itemParts(type: string, title: string, parts: Partial<ItemParts> = {}): ItemParts {
+	return { type, title, ids: [], metadata: [], separated: false, body: '', ...parts };
+}
 
 export class CanvasCourseFormatter {
 	/**
@@ -29,20 +66,89 @@ export class CanvasCourseFormatter {
 			markdown += this.formatModule(module, itemsData);
 		}
 
-		// Add Course Files section for files not in modules
+		// Add sections for content and files not in modules
+		markdown += this.formatUnmoduledContent(modules, itemsData);
 		markdown += this.formatCourseFiles(modules, itemsData);
 
 		return markdown;
 	}
 
+	/**
+	 * Format complete course data in the folder layout
+	 *
+	 * The index note lists the modules like a course file, with a link to a note for each
+	 * page, assignment, discussion and quiz; headers, links and files stay in the index.
+	 * The notes go into a folder per module. Note paths are relative to the course folder,
+	 * which also holds the index note.
+	 */
+	formatCourseFolder(
+		courseId: string,
+		canvasUrl: string,
+		modules: CanvasModule[],
+		itemsData: Map<string, any>
+	): { index: string; notes: CourseNote[] } {
+		const notes: CourseNote[] = [];
+		const taken = new Set<string>();
+		let index = this.formatFrontmatter(courseId, canvasUrl, true) + '\n';
+
+		for (const module of modules) {
+			const folder = uniqueName(safeFileName(module.name) || 'Module', '', taken);
+			index += `\n# ${module.name}\n`;
+			index += `<!-- canvas_module_id: ${module.id} -->\n`;
+			index += this.formatIndexItems(itemsData.get(`module_${module.id}`) || [], folder, itemsData, notes, taken);
+		}
+
+		const unmoduled = this.unmoduledItems(modules, itemsData);
+		if (unmoduled.length > 0) {
+			index += `\n\n---\n\n# Unmoduled Content\n${sectionMarker('content')}\n\n`;
+			index += '<!-- Pages, assignments and discussions not added to any module -->\n';
+			index += this.formatIndexItems(unmoduled, uniqueName('Unmoduled Content', '', taken), itemsData, notes, taken);
+		}
+		index += this.formatCourseFiles(modules, itemsData);
+
+		return { index, notes };
+	}
+
 	/**
 	 * Format YAML frontmatter
 	 */
-	private formatFrontmatter(courseId: string, canvasUrl: string): string {
+	private formatFrontmatter(courseId: string, canvasUrl: string, folderLayout = false): string {
 		return `---
 canvas_course_id: ${courseId}
 canvas_url: ${canvasUrl}/courses/${courseId}
----`;
+${folderLayout ? 'canvas_layout: folder\n' : ''}---`;
+	}
+
+	/**
+	 * Index note lines for a module's items: a link per item note, blocks for the rest
+	 */
+	private formatIndexItems(
+		items: CanvasModuleItem[],
+		folder: string,
+		itemsData: Map<string, any>,
+		notes: CourseNote[],
+		taken: Set<string>
+	): string {
+		let markdown = '';
+		let afterBlock = false;
+
+		for (const item of items) {
+			const parts = this.itemParts(item, itemsData);
+			if (!parts) continue;
+
+			if (!NOTE_TYPES.includes(parts.type)) {
+				markdown += this.formatBlock(parts);
+				afterBlock = true;
+				continue;
+			}
+
+			const name = uniqueName(safeFileName(parts.title) || parts.type, `${folder}/`, taken);
+			notes.push({ path: `${folder}/${name}.md`, content: this.formatNote(parts, name) });
+			markdown += `${afterBlock ? '\n' : ''}- [[${folder}/${name}|${parts.title.replace(/[[\]|]/g, '')}]]\n`;
+			afterBlock = false;
+		}
+
+		return markdown;
 	}
 
 	/**
@@ -66,191 +172,373 @@ canvas_url: ${canvasUrl}/courses/${courseId}
 	/**
 	 * Format a module item based on its type
 	 */
-	private formatModuleItem(item: CanvasModuleItem, itemsData: Map<string, any>): string {
+	formatModuleItem(item: CanvasModuleItem, itemsData: Map<string, any>): string {
+		const parts = this.itemParts(item, itemsData);
+		return parts ? this.formatBlock(parts) : '';
+	}
+
+	/**
+	 * Format a module item as an item note of the folder layout, named noteName
+	 * Its Canvas IDs and metadata go into the frontmatter, the rest into the body.
+	 */
+	formatItemNote(item: CanvasModuleItem, itemsData: Map<string, any>, noteName: string): string {
+		const parts = this.itemParts(item, itemsData);
+		return parts ? this.formatNote(parts, noteName) : '';
+	}
+
+	/**
+	 * Lay out a module item based on its type
+	 */
+	private itemParts(item: CanvasModuleItem, itemsData: Map<string, any>): ItemParts | null {
 		switch (item.type) {
 			case 'SubHeader':
-				return this.formatHeader(item);
+				return this.headerParts(item);
 			case 'Page':
-				return this.formatPage(item, itemsData);
+				return this.pageParts(item, itemsData);
 			case 'ExternalUrl':
-				return this.formatLink(item);
+				return this.linkParts(item);
 			case 'File':
-				return this.formatFile(item, itemsData);
+				return this.fileParts(item, itemsData);
 			case 'Assignment':
-				return this.formatAssignment(item, itemsData);
+				return this.assignmentParts(item, itemsData);
 			case 'Discussion':
-				return this.formatDiscussion(item, itemsData);
+				return this.discussionParts(item, itemsData);
+			case 'Quiz':
+				return this.quizParts(item, itemsData);
 			default:
 				console.warn(`Unknown module item type: ${item.type}`);
-				return '';
+				return null;
 		}
 	}
 
 	/**
-	 * Format a header (SubHeader in Canvas)
+	 * Write an item as a block of a course file: heading, ID comments, metadata, then the body
 	 */
-	private formatHeader(item: CanvasModuleItem): string {
-		return `\n## [header] ${item.title}\n` +
-		       `<!-- canvas_module_item_id: ${item.id} -->\n`;
+	private formatBlock(parts: ItemParts): string {
+		let markdown = `\n## [${parts.type}] ${parts.title}\n`;
+
+		for (const [key, value] of parts.ids) {
+			markdown += `<!-- ${key}: ${value} -->\n`;
+		}
+
+		// Page content starts right after the IDs, so page metadata needs a ```canvas block
+		if (parts.type === 'page' && parts.metadata.length > 0) {
+			markdown += ['```canvas', ...parts.metadata.flatMap(([key, value]) => formatFrontmatterField(key, value)), '```', ''].join('\n');
+		} else {
+			for (const [key, value] of parts.metadata) {
+				markdown += `${key}: ${Array.isArray(value) ? value.join(', ') : value}\n`;
+			}
+		}
+		if (parts.separated) {
+			markdown += '\n---\n';
+		}
+
+		return markdown + parts.body;
 	}
 
 	/**
-	 * Format a page
+	 * Write an item as an item note: type, IDs and metadata as frontmatter, then the body
+	 * The title is only written when the note's name can't carry it.
 	 */
-	private formatPage(item: CanvasModuleItem, itemsData: Map<string, any>): string {
-		const page = itemsData.get(`page_${item.page_url}`) as CanvasPage | undefined;
+	private formatNote(parts: ItemParts, noteName: string): string {
+		const fields: Array<[string, any]> = [['canvas_type', parts.type]];
+		if (noteName !== parts.title) {
+			fields.push(['title', parts.title]);
+		}
+		fields.push(...parts.ids, ...parts.metadata);
+
+		return [
+			'---',
+			...fields.flatMap(([key, value]) => formatFrontmatterField(key, value)),
+			'---',
+			parts.body.replace(/^\n+/, '')
+		].join('\n');
+	}
 
-		let markdown = `\n## [page] ${item.title}\n`;
+	/**
+	 * Lay out a header (SubHeader in Canvas)
+	 */
+	private headerParts(item: CanvasModuleItem): ItemParts {
+		return itemParts('header', item.title, {
+			ids: [['canvas_module_item_id', item.id]]
+		});
+	}
 
+	/**
+	 * Lay out a page
+	 */
+	private pageParts(item: CanvasModuleItem, itemsData: Map<string, any>): ItemParts {
+		const page = itemsData.get(`page_${item.page_url}`) as CanvasPage | undefined;
+
+		const parts = itemParts('page', item.title);
 		if (page) {
-			markdown += `<!-- canvas_page_id: ${page.url} -->\n`;
+			parts.ids.push(['canvas_page_id', page.url]);
+		}
+		if (item.id) {
+			parts.ids.push(['canvas_module_item_id', item.id]);
+		}
+		if (page?.front_page) {
+			parts.metadata.push(['front_page', true]);
 		}
-		markdown += `<!-- canvas_module_item_id: ${item.id} -->\n`;
 
 		if (page?.body) {
 			const bodyMarkdown = htmlToMarkdownNested(page.body);
 			if (bodyMarkdown) {
-				markdown += bodyMarkdown + '\n';
+				parts.body = bodyMarkdown + '\n';
 			}
 		}
 
-		return markdown;
+		return parts;
 	}
 
 	/**
-	 * Format an external link
+	 * Lay out an external link
 	 */
-	private formatLink(item: CanvasModuleItem): string {
-		return `\n## [link] ${item.title}\n` +
-		       `<!-- canvas_module_item_id: ${item.id} -->\n` +
-		       `url: ${item.external_url || ''}\n`;
+	private linkParts(item: CanvasModuleItem): ItemParts {
+		return itemParts('link', item.title, {
+			ids: [['canvas_module_item_id', item.id]],
+			metadata: [['url', item.external_url || '']]
+		});
 	}
 
 	/**
-	 * Format a file
+	 * Lay out a file
 	 */
-	private formatFile(item: CanvasModuleItem, itemsData: Map<string, any>): string {
+	private fileParts(item: CanvasModuleItem, itemsData: Map<string, any>): ItemParts {
 		const file = itemsData.get(`file_${item.content_id}`) as CanvasFile | undefined;
 
-		let markdown = `\n## [file] ${item.title}\n`;
-
+		const parts = itemParts('file', item.title);
 		if (file) {
-			markdown += `<!-- canvas_file_id: ${file.id} -->\n`;
+			parts.ids.push(['canvas_file_id', file.id]);
 		}
-		markdown += `<!-- canvas_module_item_id: ${item.id} -->\n`;
+		parts.ids.push(['canvas_module_item_id', item.id]);
 
 		if (file?.filename) {
-			markdown += `filename: ${file.filename}\n`;
+			parts.metadata.push(['filename', file.filename]);
+		}
+		if (file) {
+			parts.body = this.formatLocalFile(file.id, itemsData);
 		}
 
-		return markdown;
+		return parts;
 	}
 
 	/**
-	 * Format an assignment
+	 * Lay out an assignment
 	 */
-	private formatAssignment(item: CanvasModuleItem, itemsData: Map<string, any>): string {
+	private assignmentParts(item: CanvasModuleItem, itemsData: Map<string, any>): ItemParts {
 		const assignment = itemsData.get(`assignment_${item.content_id}`) as CanvasAssignment | undefined;
 
-		let markdown = `\n## [assignment] ${item.title}\n`;
-
+		const parts = itemParts('assignment', item.title);
 		if (assignment) {
-			markdown += `<!-- canvas_assignment_id: ${assignment.id} -->\n`;
+			parts.ids.push(['canvas_assignment_id', assignment.id]);
+		}
+		if (item.id) {
+			parts.ids.push(['canvas_module_item_id', item.id]);
 		}
-		markdown += `<!-- canvas_module_item_id: ${item.id} -->\n`;
 
 		if (assignment) {
 			// Add metadata
 			if (assignment.points_possible !== null && assignment.points_possible !== undefined) {
-				markdown += `points: ${assignment.points_possible}\n`;
+				parts.metadata.push(['points', assignment.points_possible]);
 			}
 
 			if (assignment.due_at) {
-				const dueDate = this.formatDate(assignment.due_at);
-				markdown += `due: ${dueDate}\n`;
+				parts.metadata.push(['due', formatCanvasDate(assignment.due_at)]);
 			}
 
 			if (assignment.grading_type) {
-				markdown += `grade_display: ${assignment.grading_type}\n`;
+				parts.metadata.push(['grade_display', assignment.grading_type]);
 			}
 
 			if (assignment.submission_types && assignment.submission_types.length > 0) {
-				markdown += `submission_types: ${assignment.submission_types.join(', ')}\n`;
+				parts.metadata.push(['submission_types', assignment.submission_types]);
 			}
 
 			// Add description if present
 			if (assignment.description) {
-				markdown += '\n---\n';
+				parts.separated = true;
 				const descriptionMarkdown = htmlToMarkdownNested(assignment.description);
 				if (descriptionMarkdown) {
-					markdown += descriptionMarkdown + '\n';
+					parts.body += descriptionMarkdown + '\n';
 				}
 			}
+
+			// Rubric table after the description
+			const rubric = rubricFromCanvas(assignment);
+			if (rubric) {
+				parts.body += formatRubric(rubric);
+			}
 		}
 
-		return markdown;
+		return parts;
 	}
 
 	/**
-	 * Format a discussion
+	 * Lay out a discussion
 	 */
-	private formatDiscussion(item: CanvasModuleItem, itemsData: Map<string, any>): string {
+	private discussionParts(item: CanvasModuleItem, itemsData: Map<string, any>): ItemParts {
 		const discussion = itemsData.get(`discussion_${item.content_id}`) as CanvasDiscussion | undefined;
 
-		let markdown = `\n## [discussion] ${item.title}\n`;
-
+		const parts = itemParts('discussion', item.title);
 		if (discussion) {
-			markdown += `<!-- canvas_discussion_id: ${discussion.id} -->\n`;
+			parts.ids.push(['canvas_discussion_id', discussion.id]);
+		}
+		if (item.id) {
+			parts.ids.push(['canvas_module_item_id', item.id]);
 		}
-		markdown += `<!-- canvas_module_item_id: ${item.id} -->\n`;
 
 		if (discussion) {
 			// Add metadata
-			markdown += `require_initial_post: ${discussion.require_initial_post}\n`;
-			markdown += `threaded: ${discussion.discussion_type === 'threaded'}\n`;
+			parts.metadata.push(['require_initial_post', discussion.require_initial_post]);
+			parts.metadata.push(['threaded', discussion.discussion_type === 'threaded']);
 
 			// Check if graded
 			const isGraded = discussion.assignment !== undefined;
-			markdown += `graded: ${isGraded}\n`;
+			parts.metadata.push(['graded', isGraded]);
 
 			if (isGraded && discussion.assignment) {
-				markdown += `points: ${discussion.assignment.points_possible}\n`;
+				parts.metadata.push(['points', discussion.assignment.points_possible]);
 
 				if (discussion.assignment.due_at) {
-					const dueDate = this.formatDate(discussion.assignment.due_at);
-					markdown += `due: ${dueDate}\n`;
+					parts.metadata.push(['due', formatCanvasDate(discussion.assignment.due_at)]);
 				}
 			}
 
 			// Add message if present
 			if (discussion.message) {
-				markdown += '\n---\n';
+				parts.separated = true;
 				const messageMarkdown = htmlToMarkdownNested(discussion.message);
 				if (messageMarkdown) {
-					markdown += messageMarkdown + '\n';
+					parts.body = messageMarkdown + '\n';
 				}
 			}
 		}
 
+		return parts;
+	}
+
+	/**
+	 * Lay out a quiz (Classic Quizzes): settings, description, then its questions
+	 */
+	private quizParts(item: CanvasModuleItem, itemsData: Map<string, any>): ItemParts {
+		const quiz = itemsData.get(`quiz_${item.content_id}`) as CanvasQuiz | undefined;
+
+		const parts = itemParts('quiz', item.title);
+		if (quiz) {
+			parts.ids.push(['canvas_quiz_id', quiz.id]);
+		}
+		parts.ids.push(['canvas_module_item_id', item.id]);
+
+		if (quiz) {
+			// Add settings
+			parts.metadata.push(['quiz_type', quiz.quiz_type]);
+
+			if (quiz.points_possible !== null && quiz.points_possible !== undefined) {
+				parts.metadata.push(['points', quiz.points_possible]);
+			}
+
+			parts.metadata.push(['time_limit', quiz.time_limit ?? null]);
+			parts.metadata.push(['allowed_attempts', quiz.allowed_attempts]);
+			parts.metadata.push(['shuffle_answers', quiz.shuffle_answers]);
+
+			if (quiz.due_at) {
+				parts.metadata.push(['due', formatCanvasDate(quiz.due_at)]);
+			}
+			if (quiz.unlock_at) {
+				parts.metadata.push(['unlock', formatCanvasDate(quiz.unlock_at)]);
+			}
+			if (quiz.lock_at) {
+				parts.metadata.push(['lock', formatCanvasDate(quiz.lock_at)]);
+			}
+
+			// Description (always separated, so questions never read as settings)
+			parts.separated = true;
+			const descriptionMarkdown = quiz.description ? htmlToMarkdownNested(quiz.description) : '';
+			if (descriptionMarkdown) {
+				parts.body += descriptionMarkdown + '\n';
+			}
+
+			// Questions
+			const questions = itemsData.get(`quiz_questions_${quiz.id}`) as CanvasQuizQuestion[] | undefined;
+			for (const question of [...(questions || [])].sort((a, b) => a.position - b.position)) {
+				parts.body += formatQuizQuestion(questionFromCanvas(question));
+			}
+		}
+
+		return parts;
+	}
+
+	/**
+	 * Format pages, assignments and discussions not in any module
+	 * Each is written like a module item without a canvas_module_item_id.
+	 */
+	private formatUnmoduledContent(modules: CanvasModule[], itemsData: Map<string, any>): string {
+		const unmoduled = this.unmoduledItems(modules, itemsData);
+		if (unmoduled.length === 0) {
+			return '';
+		}
+
+		let markdown = `\n\n---\n\n# Unmoduled Content\n${sectionMarker('content')}\n\n`;
+		markdown += '<!-- Pages, assignments and discussions not added to any module -->\n';
+		for (const item of unmoduled) {
+			markdown += this.formatModuleItem(item, itemsData);
+		}
+
 		return markdown;
 	}
 
 	/**
-	 * Format ISO date to "2026-01-20 02:00pm" format
+	 * Stand-in module items for the pages, assignments and discussions not in any module
+	 * Content whose details could not be fetched is left out, so an upload doesn't create it again.
 	 */
-	private formatDate(isoDate: string): string {
-		const date = new Date(isoDate);
+	private unmoduledItems(modules: CanvasModule[], itemsData: Map<string, any>): CanvasModuleItem[] {
+		const pages = itemsData.get('course_pages') as CanvasPage[] | undefined;
+		const assignments = itemsData.get('course_assignments') as CanvasAssignment[] | undefined;
+		const discussions = itemsData.get('course_discussions') as CanvasDiscussion[] | undefined;
+
+		// Collect what is already in modules
+		const modulePages = new Set<string>();
+		const moduleContentIds = new Set<string>();
+		for (const module of modules) {
+			const items = itemsData.get(`module_${module.id}`) as CanvasModuleItem[] | undefined;
+			for (const item of items || []) {
+				if (item.page_url) modulePages.add(item.page_url);
+				if (item.content_id) moduleContentIds.add(`${item.type}_${item.content_id}`);
+			}
+		}
 
-		const year = date.getFullYear();
-		const month = String(date.getMonth() + 1).padStart(2, '0');
-		const day = String(date.getDate()).padStart(2, '0');
+		const unmoduled: CanvasModuleItem[] = [];
+		for (const page of pages || []) {
+			if (!modulePages.has(page.url) && itemsData.has(`page_${page.url}`)) {
+				unmoduled.push(this.unmoduledItem('Page', page.title, { page_url: page.url }));
+			}
+		}
+		for (const assignment of assignments || []) {
+			// Quizzes and graded discussions have an assignment too, but are listed as themselves
+			const isOther = assignment.submission_types?.some(type => type === 'online_quiz' || type === 'discussion_topic');
+			if (!isOther && !moduleContentIds.has(`Assignment_${assignment.id}`) && itemsData.has(`assignment_${assignment.id}`)) {
+				unmoduled.push(this.unmoduledItem('Assignment', assignment.name, { content_id: assignment.id }));
+			}
+		}
+		for (const discussion of discussions || []) {
+			if (!moduleContentIds.has(`Discussion_${discussion.id}`) && itemsData.has(`discussion_${discussion.id}`)) {
+				unmoduled.push(this.unmoduledItem('Discussion', discussion.title, { content_id: discussion.id }));
+			}
+		}
 
-		let hours = date.getHours();
-		const minutes = String(date.getMinutes()).padStart(2, '0');
-		const ampm = hours >= 12 ? 'pm' : 'am';
-		hours = hours % 12 || 12;
+		return unmoduled;
+	}
 
-		return `${year}-${month}-${day} ${String(hours).padStart(2, '0')}:${minutes}${ampm}`;
+	/**
+	 * Stand-in module item for content outside modules
+	 */
+	private unmoduledItem(
+		type: CanvasModuleItem['type'],
+		title: string,
+		ref: Pick<CanvasModuleItem, 'page_url' | 'content_id'>
+	): CanvasModuleItem {
+		return { id: 0, module_id: 0, position: 0, indent: 0, type, title, ...ref };
 	}
 
 	/**
@@ -283,15 +571,37 @@ canvas_url: ${canvasUrl}/courses/${courseId}
 		}
 
 		// Format the Course Files section
-		let markdown = '\n\n---\n\n# Course Files\n\n';
+		let markdown = `\n\n---\n\n# Course Files\n${sectionMarker('files')}\n\n`;
 		markdown += '<!-- Files uploaded to Canvas but not added to any module -->\n\n';
 
 		for (const file of unmatchedFiles) {
 			markdown += `## [file] ${file.display_name}\n`;
 			markdown += `<!-- canvas_file_id: ${file.id} -->\n`;
-			markdown += `filename: ${file.filename}\n\n`;
+			markdown += `filename: ${file.filename}\n`;
+			markdown += this.formatLocalFile(file.id, itemsData) + '\n';
 		}
 
 		return markdown;
 	}
+
+	/**
+	 * Embed of the downloaded copy of a file, when course files were downloaded
+	 */
+	private formatLocalFile(fileId: number, itemsData: Map<string, any>): string {
+		const localFiles = itemsData.get('local_files') as Map<number, string> | undefined;
+		const path = localFiles?.get(fileId);
+		return path ? `\n![[${path}]]\n` : '';
+	}
+}
+
+/**
+ * A name not yet taken in the given folder ("Welcome", then "Welcome (2)"), marked as taken
+ */
+function uniqueName(name: string, folder: string, taken: Set<string>): string {
+	let unique = name;
+	for (let n = 2; taken.has(`${folder}${unique}`.toLowerCase()); n++) {
+		unique = `${name} (${n})`;
+	}
+	taken.add(`${folder}${unique}`.toLowerCase());
+	return unique;
 }
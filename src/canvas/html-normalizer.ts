@@ -59,16 +59,30 @@ function normalizeUnicode(text: string): string {
 
 /**
  * Strip all HTML tags from content
- * Replaces <br> tags with spaces to preserve word boundaries
+ * Replaces <br> and block-level tags with spaces to preserve word boundaries
  */
 function stripHtmlTags(html: string): string {
 	// Replace <br> tags with space first (to preserve word boundaries)
 	let result = html.replace(/<br\s*\/?>/gi, ' ');
+	// Block boundaries separate words whether or not the HTML has a newline between them
+	result = result.replace(/<\/?(p|div|h[1-6]|ul|ol|li|blockquote|pre|hr|table|thead|tbody|tr|td|th)\b[^>]*>/gi, ' ');
+	// Images have no text, so keep what they show (a Canvas file, or their src) as a word
+	result = result.replace(/<img\b[^>]*>/gi, tag => ` ${imageKey(tag)} `);
 	// Then strip all other tags
 	result = result.replace(/<[^>]+>/g, '');
 	return result;
 }
 
+/**
+ * Comparison token for an <img> tag
+ * Canvas files are identified by ID, since Canvas rewrites their URLs (host, verifier, ...)
+ */
+function imageKey(tag: string): string {
+	const src = tag.match(/\bsrc\s*=\s*["']([^"']*)["']/i)?.[1] ?? '';
+	const fileId = src.match(/\/files\/(\d+)/)?.[1];
+	return fileId ? `[image:file:${fileId}]` : `[image:${src}]`;
+}
+
 /**
  * Normalize whitespace (multiple spaces → single space)
  */
@@ -151,87 +165,3 @@ export function compareHtmlContent(content1: string, content2: string): boolean
 
 	return normalized1 === normalized2;
 }
-
-/**
- * Convert markdown to HTML for comparison purposes
- * This is a simple implementation that handles basic markdown
- * For full markdown conversion, use a proper markdown parser
- */
-export function markdownToSimpleHtml(markdown: string): string {
-	if (!markdown) return '';
-
-	let html = markdown;
-
-	// 0. Remove markdown escape backslashes FIRST (Turndown escapes special chars)
-	// This ensures \[...\](...) becomes [...](...) which can then be converted to <a> tags
-	html = html.replace(/\\([_*\[\]\\`#+()\-!])/g, '$1');
-
-	// 1. Headers (MUST BE FIRST to avoid conflicts, and in order from most # to least)
-	// Unshift by 2 levels to reverse the +2 shift applied during download
-	html = html.replace(/^######\s+(.+)$/gm, '<h4>$1</h4>');
-	html = html.replace(/^#####\s+(.+)$/gm, '<h3>$1</h3>');
-	html = html.replace(/^####\s+(.+)$/gm, '<h2>$1</h2>');
-	html = html.replace(/^###\s+(.+)$/gm, '<h1>$1</h1>');
-	html = html.replace(/^##\s+(.+)$/gm, '<h1>$1</h1>');
-	html = html.replace(/^#\s+(.+)$/gm, '<h1>$1</h1>');
-
-	// 2. Images (BEFORE links to avoid ![alt](url) being matched as link)
-	html = html.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img alt="$1" src="$2">');
-
-	// 3. Lists (BEFORE bold/italic to avoid conflicts with * markdown)
-	// Unordered lists
-	html = html.replace(/^\s*-\s+(.+)$/gm, '<li>$1</li>');
-	html = html.replace(/^\s*\*\s+(.+)$/gm, '<li>$1</li>');
-	// Numbered lists (1. 2. etc)
-	html = html.replace(/^\s*\d+\.\s+(.+)$/gm, '<li>$1</li>');
-	// Wrap consecutive list items (simplified - treats all as ul for comparison purposes)
-	html = html.replace(/(<li>.*<\/li>\s*)+/gs, '<ul>$&</ul>');
-	// Remove newlines between list items to prevent <br> tags being added later
-	html = html.replace(/(<\/li>)\n+(<li>)/g, '$1$2');
-
-	// 4. Links
-	html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-	// 5. Bold (BEFORE italic to handle ** before *)
-	html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-	html = html.replace(/__(.+?)__/g, '<strong>$1</strong>');
-
-	// 6. Italic - protect URLs in href/src attributes first
-	const attrPlaceholders: string[] = [];
-	html = html.replace(/(href|src|alt)="([^"]+)"/g, (match) => {
-		attrPlaceholders.push(match);
-		return `###ATTR${attrPlaceholders.length - 1}###`;
-	});
-
-	html = html.replace(/\*(.+?)\*/g, '<em>$1</em>');
-	html = html.replace(/_(.+?)_/g, '<em>$1</em>');
-
-	// Restore protected attributes
-	html = html.replace(/###ATTR(\d+)###/g, (_, index) => {
-		return attrPlaceholders[parseInt(index)];
-	});
-
-	// 7. Code
-	html = html.replace(/`(.+?)`/g, '<code>$1</code>');
-
-	// 8. Convert single newlines within blocks to <br> tags (BEFORE splitting into paragraphs)
-	// This handles hard line breaks within a paragraph (markdown: two trailing spaces + newline)
-	// But first, temporarily protect double newlines from being converted
-	html = html.replace(/\n\s*\n/g, '<<<PARAGRAPH_BREAK>>>');
-	html = html.replace(/\n/g, '<br>\n');
-	html = html.replace(/<<<PARAGRAPH_BREAK>>>/g, '\n\n');
-
-	// 9. Paragraph breaks - split on double newlines and wrap each block
-	const blocks = html.split(/\n\s*\n/);
-	html = blocks.map(block => {
-		const trimmed = block.trim();
-		if (!trimmed) return '';
-		// Don't wrap if already a block element
-		if (trimmed.match(/^<(h[1-6]|ul|ol|li|div|p|blockquote|img)/)) {
-			return trimmed;
-		}
-		return `<p>${trimmed}</p>`;
-	}).filter(b => b).join('');
-
-	return html;
-}
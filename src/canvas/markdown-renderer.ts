@@ -0,0 +1,63 @@
+/**
+ * Convert course markdown to HTML for Canvas
+ *
+ * Uses a CommonMark/GFM parser so lists, nested lists, tables, code blocks,
+ * blockquotes and rules survive the round trip. ```canvas-html blocks are
+ * passed through as-is.
+ */
+
+import { marked } from 'marked';
+import { CANVAS_HTML_LANG } from '../utils/html-to-markdown';
+
+// Downloaded content has its headings shifted down by 2 levels (see htmlToMarkdownNested),
+// so ### is the top heading inside an item
+const HEADING_SHIFT = 2;
+
+const renderer = new marked.Renderer();
+
+renderer.heading = (text: string, level: number): string => {
+	const canvasLevel = Math.max(1, level - HEADING_SHIFT);
+	return `<h${canvasLevel}>${text}</h${canvasLevel}>\n`;
+};
+
+// Raw Canvas HTML kept by the download goes back exactly as it came
+renderer.code = function (code: string, infostring: string | undefined, escaped: boolean): string {
+	if (infostring?.trim() === CANVAS_HTML_LANG) {
+		return code + '\n';
+	}
+	return marked.Renderer.prototype.code.call(this, code, infostring, escaped);
+};
+
+const options: marked.MarkedOptions = {
+	gfm: true,
+	breaks: false,     // CommonMark: a single newline continues the paragraph; downloads write <br> as a hard break
+	headerIds: false,  // Canvas doesn't need generated ids
+	mangle: false,     // Keep email addresses readable
+	renderer
+};
+
+/**
+ * Convert markdown to HTML, reversing the +2 heading shift applied during download
+ */
+export function markdownToHtml(markdown: string): string {
+	if (!markdown) return '';
+
+	try {
+		return marked.parse(markdown, options).trim();
+	} catch (error) {
+		console.error('Error converting Markdown to HTML:', error);
+		// Fallback: keep the text, one paragraph per block
+		return markdown
+			.split(/\n\s*\n/)
+			.filter(block => block.trim())
+			.map(block => `<p>${escapeHtml(block.trim())}</p>`)
+			.join('\n');
+	}
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
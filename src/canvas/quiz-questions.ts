@@ -0,0 +1,196 @@
+/**
+ * Convert Classic Quiz questions between Canvas and the course markdown
+ *
+ * Markdown syntax, one ### heading per question:
+ *
+ *   ### [multiple_choice] Question name
+ *   <!-- canvas_question_id: 123 -->
+ *   points: 1
+ *
+ *   Question text (markdown)
+ *
+ *   - [x] Correct answer
+ *   - [ ] Wrong answer
+ *
+ * Matching questions list pairs as "- Left => Right" and distractors as "- => Right".
+ * Essay questions have no answer list.
+ */
+
+import { htmlToMarkdownNested } from '../utils/html-to-markdown';
+import { markdownToHtml } from './markdown-renderer';
+import { normalizeHtml } from './html-normalizer';
+import type { CanvasQuizQuestion } from './types';
+import type { ParsedQuizQuestion, ParsedQuizAnswer, QuizQuestionType, QuizQuestionParams } from '../upload/types';
+
+const CANVAS_QUESTION_TYPES: Record<Exclude<QuizQuestionType, 'other'>, string> = {
+	multiple_choice: 'multiple_choice_question',
+	true_false: 'true_false_question',
+	short_answer: 'short_answer_question',
+	essay: 'essay_question',
+	matching: 'matching_question'
+};
+
+/**
+ * Matches a question heading: "### [type] Title"
+ */
+export const QUESTION_HEADING = /^###\s+\[(multiple_choice|true_false|short_answer|essay|matching|other)\]\s+(.+)$/i;
+
+/**
+ * Matches an answer line: "- [x] Text" / "- [ ] Text"
+ */
+export const CHOICE_ANSWER = /^[-*]\s+\[( |x|X)\]\s+(.*)$/;
+
+/**
+ * Matches a matching pair or distractor: "- Left => Right" / "- => Right"
+ */
+export const MATCHING_ANSWER = /^[-*]\s+(.*?)\s*=>\s*(.*)$/;
+
+/**
+ * Convert a Canvas question to the parsed model
+ */
+export function questionFromCanvas(question: CanvasQuizQuestion): ParsedQuizQuestion {
+	const type = (Object.keys(CANVAS_QUESTION_TYPES) as Array<keyof typeof CANVAS_QUESTION_TYPES>)
+		.find(key => CANVAS_QUESTION_TYPES[key] === question.question_type) ?? 'other';
+
+	const answers: ParsedQuizAnswer[] = (question.answers || []).map(answer => type === 'matching'
+		? { text: answer.left || '', match: answer.right || '', correct: true }
+		: { text: answerText(answer.text, answer.html), correct: answer.weight > 0 });
+
+	return {
+		type,
+		title: question.question_name,
+		canvasQuestionId: question.id,
+		pointsPossible: question.points_possible,
+		text: htmlToMarkdownNested(question.question_text || ''),
+		answers: type === 'essay' || type === 'other' ? [] : answers,
+		distractors: (question.matching_answer_incorrect_matches || '')
+			.split('\n')
+			.map(line => line.trim())
+			.filter(line => line)
+	};
+}
+
+/**
+ * Format a question as markdown, starting with its ### heading
+ */
+export function formatQuizQuestion(question: ParsedQuizQuestion): string {
+	let markdown = `\n### [${question.type}] ${question.title}\n`;
+
+	if (question.canvasQuestionId) {
+		markdown += `<!-- canvas_question_id: ${question.canvasQuestionId} -->\n`;
+	}
+	if (question.type === 'other') {
+		// No markdown syntax for this type - it is left alone on upload
+		markdown += '<!-- Unsupported question type: edit this question in Canvas -->\n';
+	}
+	if (question.pointsPossible !== undefined) {
+		markdown += `points: ${question.pointsPossible}\n`;
+	}
+
+	if (question.text) {
+		markdown += `\n${question.text}\n`;
+	}
+
+	const answerLines = question.answers.map(answer => question.type === 'matching'
+		? `- ${answer.text} => ${answer.match}`
+		: `- [${answer.correct ? 'x' : ' '}] ${answer.text}`);
+	for (const distractor of question.distractors) {
+		answerLines.push(`- => ${distractor}`);
+	}
+	if (answerLines.length > 0) {
+		markdown += '\n' + answerLines.join('\n') + '\n';
+	}
+
+	return markdown;
+}
+
+/**
+ * Build Quiz Questions API parameters for a parsed question
+ */
+export function questionToParams(question: ParsedQuizQuestion, position: number): QuizQuestionParams {
+	const params: QuizQuestionParams = {
+		question_name: question.title,
+		question_type: CANVAS_QUESTION_TYPES[question.type as keyof typeof CANVAS_QUESTION_TYPES],
+		question_text: markdownToHtml(question.text),
+		points_possible: question.pointsPossible,
+		position
+	};
+
+	if (question.type === 'matching') {
+		params.answers = question.answers.map(answer => ({
+			answer_match_left: answer.text,
+			answer_match_right: answer.match,
+			answer_weight: 100
+		}));
+		params.matching_answer_incorrect_matches = question.distractors.join('\n');
+	} else if (question.type !== 'essay') {
+		params.answers = question.answers.map(answer => ({
+			answer_text: answer.text,
+			answer_weight: answer.correct ? 100 : 0
+		}));
+	}
+
+	return params;
+}
+
+/**
+ * Compare a parsed question with its Canvas version, ignoring formatting differences
+ */
+export function questionsMatch(parsed: ParsedQuizQuestion, canvas: CanvasQuizQuestion): boolean {
+	const remote = questionFromCanvas(canvas);
+
+	return parsed.type === remote.type &&
+		parsed.title === remote.title &&
+		(parsed.pointsPossible ?? null) === (remote.pointsPossible ?? null) &&
+		normalizeHtml(markdownToHtml(parsed.text)) === normalizeHtml(canvas.question_text || '') &&
+		JSON.stringify(answerKey(parsed)) === JSON.stringify(answerKey(remote));
+}
+
+/**
+ * Questions to create, update and delete so Canvas matches the markdown
+ * Questions of unsupported types are never touched.
+ */
+export function planQuestionChanges(
+	parsed: ParsedQuizQuestion[],
+	canvas: CanvasQuizQuestion[]
+): { create: ParsedQuizQuestion[]; update: ParsedQuizQuestion[]; remove: CanvasQuizQuestion[] } {
+	const byId = new Map(canvas.map(question => [question.id, question]));
+	const kept = new Set<number>();
+	const create: ParsedQuizQuestion[] = [];
+	const update: ParsedQuizQuestion[] = [];
+
+	parsed.forEach((question, index) => {
+		const existing = question.canvasQuestionId ? byId.get(question.canvasQuestionId) : undefined;
+		if (existing) kept.add(existing.id);
+		if (question.type === 'other') return;
+
+		if (!existing) {
+			create.push(question);
+		} else if (!questionsMatch(question, existing) || existing.position !== index + 1) {
+			update.push(question);
+		}
+	});
+
+	const remove = canvas.filter(question => !kept.has(question.id) && questionFromCanvas(question).type !== 'other');
+
+	return { create, update, remove };
+}
+
+/**
+ * Answers reduced to what the markdown can express, for comparison
+ */
+function answerKey(question: ParsedQuizQuestion): unknown[] {
+	const answers = question.answers.map(answer => [
+		normalizeHtml(answer.text),
+		question.type === 'matching' ? normalizeHtml(answer.match || '') : answer.correct
+	]);
+	return [answers, question.distractors.map(distractor => normalizeHtml(distractor))];
+}
+
+/**
+ * Plain answer text (Canvas stores either text or html)
+ */
+function answerText(text: string | undefined, html: string | undefined): string {
+	if (text) return text.trim();
+	return html ? htmlToMarkdownNested(html).replace(/\s*\n\s*/g, ' ').trim() : '';
+}
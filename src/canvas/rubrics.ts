@@ -0,0 +1,190 @@
+/**
+ * Convert assignment rubrics between Canvas and the course markdown
+ *
+ * A rubric sits at the end of an assignment block as a table of criteria × ratings:
+ *
+ *   ### [rubric] Essay Rubric
+ *   <!-- canvas_rubric_id: 42 -->
+ *
+ *   | Criterion | Rating | Rating | Rating |
+ *   | --- | --- | --- | --- |
+ *   | Thesis<br>States a clear position | Clear (5) | Vague (3) | Missing (0) |
+ *
+ * Each rating cell ends with its points in parentheses. A <br> separates a
+ * description from its long description. Criteria are worth their highest rating.
+ */
+
+import type { CanvasAssignment } from './types';
+import type { ParsedRubric, ParsedRubricCriterion, ParsedRubricRating, CreateRubricParams } from '../upload/types';
+
+/**
+ * Matches a rubric heading: "### [rubric] Title"
+ */
+export const RUBRIC_HEADING = /^###\s+\[rubric\]\s+(.+)$/i;
+
+/**
+ * Build the parsed rubric for a Canvas assignment, or undefined if it has none
+ */
+export function rubricFromCanvas(assignment: CanvasAssignment): ParsedRubric | undefined {
+	if (!assignment.rubric || assignment.rubric.length === 0) return undefined;
+
+	return {
+		title: assignment.rubric_settings?.title || `${assignment.name} Rubric`,
+		canvasRubricId: assignment.rubric_settings?.id,
+		criteria: assignment.rubric.map(criterion => ({
+			description: criterion.description || '',
+			longDescription: criterion.long_description || undefined,
+			ratings: (criterion.ratings || []).map(rating => ({
+				description: rating.description || '',
+				longDescription: rating.long_description || undefined,
+				points: rating.points
+			}))
+		}))
+	};
+}
+
+/**
+ * Format a rubric as markdown, starting with its ### heading
+ */
+export function formatRubric(rubric: ParsedRubric): string {
+	let markdown = `\n### [rubric] ${rubric.title}\n`;
+
+	if (rubric.canvasRubricId) {
+		markdown += `<!-- canvas_rubric_id: ${rubric.canvasRubricId} -->\n`;
+	}
+
+	const columns = Math.max(1, ...rubric.criteria.map(criterion => criterion.ratings.length));
+	const rows = [
+		['Criterion', ...Array(columns).fill('Rating')],
+		Array(columns + 1).fill('---'),
+		...rubric.criteria.map(criterion => [
+			formatCell(criterion.description, criterion.longDescription),
+			...Array.from({ length: columns }, (_, index) => {
+				const rating = criterion.ratings[index];
+				return rating ? `${formatCell(rating.description, rating.longDescription)} (${rating.points})` : '';
+			})
+		])
+	];
+
+	markdown += '\n' + rows.map(row => `| ${row.join(' | ')} |`).join('\n') + '\n';
+	return markdown;
+}
+
+/**
+ * Parse the table rows of a rubric section (header and separator rows are skipped)
+ */
+export function parseRubricTable(lines: string[]): ParsedRubricCriterion[] {
+	const rows = lines
+		.map(line => line.trim())
+		.filter(line => line.startsWith('|'))
+		.map(splitRow);
+
+	return rows
+		.slice(1) // Header
+		.filter(cells => !cells.every(cell => /^:?-+:?$/.test(cell)))
+		.filter(cells => cells[0])
+		.map(([criterionCell, ...ratingCells]) => {
+			const criterion = parseCell(criterionCell);
+			return {
+				description: criterion.description,
+				longDescription: criterion.longDescription,
+				ratings: ratingCells
+					.filter(cell => cell)
+					.map(parseRating)
+			};
+		});
+}
+
+/**
+ * Points a criterion is worth (its highest rating)
+ */
+export function criterionPoints(criterion: ParsedRubricCriterion): number {
+	return Math.max(0, ...criterion.ratings.map(rating => rating.points));
+}
+
+/**
+ * Build the Rubrics API parameters that create a rubric and attach it to an assignment
+ */
+export function rubricToParams(rubric: ParsedRubric, assignmentId: number, useForGrading: boolean): CreateRubricParams {
+	return {
+		rubric: {
+			title: rubric.title,
+			criteria: rubric.criteria.map(criterion => ({
+				description: criterion.description,
+				long_description: criterion.longDescription,
+				points: criterionPoints(criterion),
+				ratings: criterion.ratings.map(rating => ({
+					description: rating.description,
+					long_description: rating.longDescription,
+					points: rating.points
+				}))
+			}))
+		},
+		rubric_association: {
+			association_id: assignmentId,
+			association_type: 'Assignment',
+			purpose: 'grading',
+			use_for_grading: useForGrading
+		}
+	};
+}
+
+/**
+ * Compare a parsed rubric with the one attached to a Canvas assignment
+ */
+export function rubricsMatch(parsed: ParsedRubric, assignment: CanvasAssignment): boolean {
+	const remote = rubricFromCanvas(assignment);
+	if (!remote) return false;
+
+	return parsed.title === remote.title &&
+		JSON.stringify(parsed.criteria.map(criterionKey)) === JSON.stringify(remote.criteria.map(criterionKey));
+}
+
+/**
+ * Criterion reduced to what the table can express, for comparison
+ */
+function criterionKey(criterion: ParsedRubricCriterion): unknown[] {
+	return [
+		criterion.description.trim(),
+		criterion.longDescription?.trim() || '',
+		criterion.ratings.map(rating => [rating.description.trim(), rating.longDescription?.trim() || '', rating.points])
+	];
+}
+
+/**
+ * Split a table row into cells, honoring escaped pipes
+ */
+function splitRow(line: string): string[] {
+	const cells = line
+		.replace(/^\|/, '')
+		.replace(/\|$/, '')
+		.split(/(?<!\\)\|/)
+		.map(cell => cell.trim().replace(/\\\|/g, '|'));
+	return cells;
+}
+
+/**
+ * Parse "Description (5)" into a rating
+ */
+function parseRating(cell: string): ParsedRubricRating {
+	const match = cell.match(/^(.*?)\s*\((-?\d+(?:\.\d+)?)\s*(?:pts?)?\)$/i);
+	const { description, longDescription } = parseCell(match ? match[1] : cell);
+	return { description, longDescription, points: match ? parseFloat(match[2]) : 0 };
+}
+
+/**
+ * Split "Description<br>Long description"
+ */
+function parseCell(cell: string): { description: string; longDescription?: string } {
+	const [description, ...rest] = cell.split(/<br\s*\/?>/i);
+	const longDescription = rest.join('\n').trim();
+	return { description: description.trim(), longDescription: longDescription || undefined };
+}
+
+/**
+ * Format a table cell: escape pipes, join the long description with <br>
+ */
+function formatCell(description: string, longDescription?: string): string {
+	const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+	return longDescription ? `${escape(description)}<br>${escape(longDescription)}` : escape(description);
+}
@@ -0,0 +1,42 @@
+/**
+ * Requests through the standard fetch API, for running the Canvas clients in Node (18+)
+ */
+
+import type { HttpRequest, HttpResponse } from './transport';
+
+/**
+ * Send a request with fetch, shaped like a requestUrl response
+ * Like requestUrl, error statuses resolve; only network failures reject.
+ */
+export async function sendWithFetch(request: HttpRequest): Promise<HttpResponse> {
+	const headers: Record<string, string> = { ...request.headers };
+	if (request.contentType) {
+		headers['Content-Type'] = request.contentType;
+	}
+
+	let response: Response;
+	try {
+		response = await fetch(request.url, { method: request.method, headers, body: request.body });
+	} catch (error) {
+		// Worded like Obsidian's network errors, which the clients turn into a friendly message
+		throw new Error(`net::ERR_FAILED ${request.method} ${request.url}: ${error.message}`);
+	}
+
+	const arrayBuffer = await response.arrayBuffer();
+	const text = new TextDecoder().decode(arrayBuffer);
+	const responseHeaders: Record<string, string> = {};
+	response.headers.forEach((value, name) => {
+		responseHeaders[name] = value;
+	});
+
+	return {
+		status: response.status,
+		headers: responseHeaders,
+		text,
+		// Parsed on access, so binary responses don't fail
+		get json() {
+			return JSON.parse(text);
+		},
+		arrayBuffer
+	};
+}
@@ -0,0 +1,18 @@
+/**
+ * Requests through Obsidian's requestUrl, which isn't subject to CORS
+ * This is how the plugin talks to Canvas: importing this module makes it the default
+ * transport of the API clients. Only the plugin entry point should import it.
+ */
+
+import { requestUrl } from 'obsidian';
+import { setDefaultSend } from './transport';
+import type { HttpRequest, HttpResponse } from './transport';
+
+/**
+ * Send a request with Obsidian's requestUrl, returning error responses instead of throwing
+ */
+export async function sendWithRequestUrl(request: HttpRequest): Promise<HttpResponse> {
+	return await requestUrl({ ...request, throw: false });
+}
+
+setDefaultSend(sendWithRequestUrl);
@@ -0,0 +1,72 @@
+import { RequestRecorder, replayRequests } from './transport-recording';
+import { CanvasApiClient } from './api-client';
+import { CanvasCourseFormatter } from './formatter';
+import { fetchCourse } from './course-fetcher';
+import { FakeCanvas, FAKE_CANVAS_URL } from '../testing/fake-canvas';
+import type { SendRequest } from './transport';
+
+const COURSE_ID = '1';
+
+function seedCourse(): FakeCanvas {
+	const canvas = new FakeCanvas(Number(COURSE_ID), 'Biology 101');
+	const week1 = canvas.addModule('Week 1');
+	canvas.addPage('Welcome', '<p>Welcome to the course.</p>', week1);
+	canvas.addAssignment('Lab Report', '<p>Write up the lab.</p>', { points_possible: 10 }, week1);
+	canvas.addFile('handout.pdf', 'handout bytes', 'application/pdf');
+	return canvas;
+}
+
+async function download(send: SendRequest): Promise<string> {
+	const client = new CanvasApiClient(FAKE_CANVAS_URL, 'token', send);
+	const { modules, itemsData } = await fetchCourse(client, COURSE_ID, 1);
+	return new CanvasCourseFormatter().formatCourse(COURSE_ID, FAKE_CANVAS_URL, modules, itemsData);
+}
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+	jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('RequestRecorder and replayRequests', () => {
+	it('replays a recorded download without the original server', async () => {
+		const recorder = new RequestRecorder(seedCourse().send);
+		const recorded = await download(recorder.send);
+
+		// Round-trip through JSON, as a fixture file would
+		const exchanges = JSON.parse(JSON.stringify(recorder.exchanges));
+		expect(await download(replayRequests(exchanges))).toBe(recorded);
+	});
+
+	it('replays binary responses byte for byte', async () => {
+		const canvas = seedCourse();
+		const recorder = new RequestRecorder(canvas.send);
+		const client = new CanvasApiClient(FAKE_CANVAS_URL, 'token', recorder.send);
+		const file = await client.getFile(String(canvas.files[0].id));
+		await client.downloadFile(file);
+
+		const download = recorder.exchanges.find(exchange => exchange.request.url === file.url)!;
+		expect(download.response.base64).toBeDefined();
+
+		const replayed = new CanvasApiClient(FAKE_CANVAS_URL, 'token', replayRequests(recorder.exchanges));
+		const data = await replayed.downloadFile(await replayed.getFile(String(file.id)));
+		expect(new TextDecoder().decode(data)).toBe('handout bytes');
+	});
+
+	it('never records request headers', async () => {
+		const recorder = new RequestRecorder(seedCourse().send);
+		await download(recorder.send);
+
+		expect(JSON.stringify(recorder.exchanges)).not.toContain('Bearer');
+	});
+
+	it('rejects requests that were not recorded', async () => {
+		const send = replayRequests([]);
+
+		await expect(send({ url: `${FAKE_CANVAS_URL}/api/v1/courses/1`, method: 'GET' }))
+			.rejects.toThrow('No recorded response for GET');
+	});
+});
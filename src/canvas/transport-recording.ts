@@ -0,0 +1,114 @@
+/**
+ * Record Canvas traffic and play it back, for test fixtures
+ *
+ * A RequestRecorder wraps another SendRequest (a live Canvas or a fake) and keeps every
+ * exchange as plain JSON. replayRequests answers the same requests from those exchanges
+ * with no network at all. Request headers are never recorded, so fixtures don't contain
+ * the API token; check recorded URLs and bodies for anything else private before sharing.
+ */
+
+import { findHeader } from './transport';
+import type { HttpMethod, HttpRequest, HttpResponse, SendRequest } from './transport';
+
+export interface RecordedExchange {
+	request: {
+		method: HttpMethod;
+		url: string;
+		body?: string;      // Form bodies; binary bodies (file uploads) are left out
+	};
+	response: {
+		status: number;
+		headers: Record<string, string>;
+		text: string;
+		base64?: string;    // Body of binary responses (file downloads)
+	};
+}
+
+/**
+ * Pass requests on to another SendRequest, recording each exchange
+ */
+export class RequestRecorder {
+	readonly exchanges: RecordedExchange[] = [];
+	private inner: SendRequest;
+
+	constructor(inner: SendRequest) {
+		this.inner = inner;
+	}
+
+	send: SendRequest = async (request) => {
+		const response = await this.inner(request);
+		this.exchanges.push({
+			request: {
+				method: request.method,
+				url: request.url,
+				...(typeof request.body === 'string' ? { body: request.body } : {})
+			},
+			response: {
+				status: response.status,
+				headers: { ...response.headers },
+				text: isBinary(response) ? '' : response.text,
+				...(isBinary(response) ? { base64: toBase64(response.arrayBuffer) } : {})
+			}
+		});
+		return response;
+	};
+}
+
+/**
+ * Answer requests from recorded exchanges
+ * Each request gets the first unused exchange with the same method, URL and form body,
+ * so repeated requests replay in the order they were recorded. Unknown requests reject.
+ */
+export function replayRequests(exchanges: RecordedExchange[]): SendRequest {
+	const unused = [...exchanges];
+
+	return async (request: HttpRequest) => {
+		const index = unused.findIndex(exchange =>
+			exchange.request.method === request.method &&
+			exchange.request.url === request.url &&
+			(typeof request.body !== 'string' || exchange.request.body === request.body));
+		if (index === -1) {
+			throw new Error(`No recorded response for ${request.method} ${request.url}`);
+		}
+
+		const { response } = unused.splice(index, 1)[0];
+		const arrayBuffer = response.base64 !== undefined
+			? fromBase64(response.base64)
+			: new TextEncoder().encode(response.text).buffer as ArrayBuffer;
+
+		return {
+			status: response.status,
+			headers: { ...response.headers },
+			text: response.text,
+			get json() {
+				return JSON.parse(response.text);
+			},
+			arrayBuffer
+		};
+	};
+}
+
+/**
+ * Whether a response body is binary rather than JSON or text
+ */
+function isBinary(response: HttpResponse): boolean {
+	const contentType = findHeader(response.headers, 'content-type') ?? '';
+	return contentType !== '' && !/json|text|xml|html|urlencoded/i.test(contentType);
+}
+
+function toBase64(data: ArrayBuffer): string {
+	let binary = '';
+	for (const byte of new Uint8Array(data)) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function fromBase64(base64: string): ArrayBuffer {
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes.buffer;
+}
@@ -0,0 +1,218 @@
+import { CanvasTransport, HttpError, isRateLimited, setDefaultSend } from './transport';
+import { CanvasApiClient } from './api-client';
+import type { HttpRequest, HttpResponse } from './transport';
+
+/**
+ * Fake transport: answers requests from a script of responses and records what was sent
+ */
+function fakeSend(...script: Array<Partial<HttpResponse> | Error>) {
+	const sent: HttpRequest[] = [];
+	const send = async (request: HttpRequest): Promise<HttpResponse> => {
+		sent.push(request);
+		const next = script.shift();
+		if (!next) throw new Error('Unexpected request');
+		if (next instanceof Error) throw next;
+		return { status: 200, headers: {}, text: '', json: null, arrayBuffer: new ArrayBuffer(0), ...next };
+	};
+	return { send, sent };
+}
+
+function setup(...script: Array<Partial<HttpResponse> | Error>) {
+	const { send, sent } = fakeSend(...script);
+	const sleeps: number[] = [];
+	const transport = new CanvasTransport(send, {
+		baseDelay: 100,
+		maxDelay: 1000,
+		lowQuota: 100,
+		throttleDelay: 500,
+		sleep: async (ms) => { sleeps.push(ms); }
+	});
+	return { transport, sent, sleeps };
+}
+
+const get: HttpRequest = { url: 'https://canvas.test/api/v1/courses/1', method: 'GET' };
+const post: HttpRequest = { url: 'https://canvas.test/api/v1/courses/1/pages', method: 'POST', body: 'wiki_page[title]=A' };
+
+const throttled: Partial<HttpResponse> = {
+	status: 403,
+	text: '403 Forbidden (Rate Limit Exceeded)',
+	headers: { 'X-Rate-Limit-Remaining': '0' }
+};
+const forbidden: Partial<HttpResponse> = {
+	status: 403,
+	text: '{"status":"unauthorized","errors":[{"message":"user not authorized to perform that action"}]}',
+	headers: { 'X-Rate-Limit-Remaining': '650' }
+};
+
+describe('isRateLimited', () => {
+	it('recognizes the throttling 403 by its message', () => {
+		expect(isRateLimited({ status: 403, text: 'Rate Limit Exceeded', headers: {} })).toBe(true);
+	});
+
+	it('recognizes the throttling 403 by an empty bucket', () => {
+		expect(isRateLimited({ status: 403, text: '', headers: { 'x-rate-limit-remaining': '0.0' } })).toBe(true);
+	});
+
+	it('does not mistake a permission 403 for throttling', () => {
+		expect(isRateLimited({ status: 403, text: forbidden.text!, headers: forbidden.headers! })).toBe(false);
+	});
+
+	it('treats 429 as throttling and other errors as not', () => {
+		expect(isRateLimited({ status: 429, text: '', headers: {} })).toBe(true);
+		expect(isRateLimited({ status: 500, text: 'Rate Limit Exceeded', headers: {} })).toBe(false);
+	});
+});
+
+describe('CanvasTransport', () => {
+	it('returns successful responses without waiting', async () => {
+		const { transport, sent, sleeps } = setup({ status: 200, json: { id: 1 } });
+
+		const response = await transport.request(get);
+
+		expect(response.json).toEqual({ id: 1 });
+		expect(sent).toEqual([get]);
+		expect(sleeps).toEqual([]);
+	});
+
+	it('retries a throttled request with exponential backoff', async () => {
+		const { transport, sent, sleeps } = setup(throttled, throttled, { status: 200, headers: { 'X-Rate-Limit-Remaining': '600' } });
+
+		const response = await transport.request(get);
+
+		expect(response.status).toBe(200);
+		expect(sent).toHaveLength(3);
+		// Backoff doubles; the empty bucket also spaces out the retries
+		expect(sleeps).toEqual([100, 500, 200, 500]);
+	});
+
+	it('retries a throttled POST, since Canvas did not carry it out', async () => {
+		const { transport, sent } = setup(throttled, { status: 201 });
+
+		await expect(transport.request(post)).resolves.toMatchObject({ status: 201 });
+		expect(sent).toEqual([post, post]);
+	});
+
+	it('does not retry a permission 403', async () => {
+		const { transport, sent } = setup(forbidden);
+
+		const error = await transport.request(get).catch(e => e);
+
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error.status).toBe(403);
+		expect(isRateLimited(error)).toBe(false);
+		expect(sent).toHaveLength(1);
+	});
+
+	it('retries transient server errors on idempotent requests', async () => {
+		const { transport, sent, sleeps } = setup({ status: 502 }, { status: 503 }, { status: 200 });
+
+		await expect(transport.request({ ...get, method: 'PUT' })).resolves.toMatchObject({ status: 200 });
+		expect(sent).toHaveLength(3);
+		expect(sleeps).toEqual([100, 200]);
+	});
+
+	it('does not retry server errors on a POST, which may have been carried out', async () => {
+		const { transport, sent } = setup({ status: 500 }, { status: 201 });
+
+		await expect(transport.request(post)).rejects.toMatchObject({ status: 500 });
+		expect(sent).toHaveLength(1);
+	});
+
+	it('does not retry client errors', async () => {
+		const { transport, sent } = setup({ status: 404 }, { status: 200 });
+
+		await expect(transport.request(get)).rejects.toMatchObject({ status: 404 });
+		expect(sent).toHaveLength(1);
+	});
+
+	it('retries network errors on GET but not on POST', async () => {
+		const getRun = setup(new Error('net::ERR_CONNECTION_RESET'), { status: 200 });
+		await expect(getRun.transport.request(get)).resolves.toMatchObject({ status: 200 });
+		expect(getRun.sent).toHaveLength(2);
+
+		const postRun = setup(new Error('net::ERR_CONNECTION_RESET'), { status: 201 });
+		await expect(postRun.transport.request(post)).rejects.toThrow('net::ERR_CONNECTION_RESET');
+		expect(postRun.sent).toHaveLength(1);
+	});
+
+	it('gives up after the maximum number of retries', async () => {
+		const { transport, sent, sleeps } = setup(...Array(6).fill({ status: 503 }));
+
+		await expect(transport.request(get)).rejects.toMatchObject({ status: 503 });
+		expect(sent).toHaveLength(5);
+		expect(sleeps).toEqual([100, 200, 400, 800]);
+	});
+
+	it('caps the backoff at the maximum delay and honors Retry-After', async () => {
+		const { transport, sleeps } = setup(
+			{ status: 429, headers: { 'Retry-After': '0.3' } },
+			{ status: 429, headers: { 'Retry-After': '60' } },
+			{ status: 200 }
+		);
+
+		await transport.request(get);
+
+		expect(sleeps).toEqual([300, 1000]);
+	});
+
+	it('waits before requests once the quota runs low, more the lower it gets', async () => {
+		const { transport, sleeps } = setup(
+			{ headers: { 'X-Rate-Limit-Remaining': '600', 'X-Request-Cost': '10' } },
+			{ headers: { 'X-Rate-Limit-Remaining': '60', 'X-Request-Cost': '10' } },
+			{ headers: { 'X-Rate-Limit-Remaining': '10', 'X-Request-Cost': '10' } },
+			{}
+		);
+
+		for (let i = 0; i < 4; i++) {
+			await transport.request(get);
+		}
+
+		// Nothing known before the first request; plenty left after it
+		expect(sleeps).toEqual([250, 500]);
+	});
+
+	it('counts requests still in flight against the remaining quota', async () => {
+		const pending: Array<(response: HttpResponse) => void> = [];
+		const sleeps: number[] = [];
+		const transport = new CanvasTransport(
+			() => new Promise(resolve => pending.push(resolve)),
+			{ lowQuota: 100, throttleDelay: 500, sleep: async (ms) => { sleeps.push(ms); } }
+		);
+		const respond = (remaining: string) => pending.shift()!({
+			status: 200, headers: { 'X-Rate-Limit-Remaining': remaining, 'X-Request-Cost': '20' }, text: '', json: null, arrayBuffer: new ArrayBuffer(0)
+		});
+
+		const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+		// Learn the quota and request cost
+		const first = transport.request(get);
+		await flush();
+		respond('150');
+		await first;
+
+		// Alone, a request would leave 130; with two others in flight only 90
+		const running = [transport.request(get), transport.request(get)];
+		await flush();
+		running.push(transport.request(get));
+		await flush();
+		respond('130');
+		respond('110');
+		respond('90');
+		await Promise.all(running);
+
+		expect(sleeps).toEqual([50]);
+	});
+});
+
+describe('default transport', () => {
+	it('is used by clients created without one, and required when there is none', async () => {
+		expect(() => new CanvasApiClient('https://canvas.test', 'token')).toThrow('No Canvas transport registered');
+
+		const { send, sent } = fakeSend({ json: { id: 1, name: 'Biology 101' } });
+		setDefaultSend(send);
+		const course = await new CanvasApiClient('https://canvas.test', 'token').getCourse('1');
+
+		expect(course.name).toBe('Biology 101');
+		expect(sent.map(request => request.url)).toEqual([expect.stringContaining('/api/v1/courses/1')]);
+	});
+});
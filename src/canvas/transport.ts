@@ -0,0 +1,229 @@
+/**
+ * Rate-limit aware request layer shared by the Canvas API clients
+ *
+ * Canvas meters API use per token with a leaky bucket: every response carries the
+ * remaining quota (X-Rate-Limit-Remaining) and what the request cost (X-Request-Cost).
+ * When the bucket runs dry Canvas answers "403 Rate Limit Exceeded". The transport
+ * slows down as the quota gets low, so that rarely happens, and retries requests that
+ * were throttled or hit a transient server error with exponential backoff.
+ *
+ * Requests themselves are made by a SendRequest function, passed in by whoever creates
+ * the API clients: transport-obsidian.ts in the plugin, transport-fetch.ts in Node, and a
+ * fake or a recording (transport-recording.ts) in tests.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface HttpRequest {
+	url: string;
+	method: HttpMethod;
+	headers?: Record<string, string>;
+	body?: string | ArrayBuffer;
+	contentType?: string;
+}
+
+export interface HttpResponse {
+	status: number;
+	headers: Record<string, string>;
+	text: string;
+	json: any;
+	arrayBuffer: ArrayBuffer;
+}
+
+/**
+ * Make one HTTP request and return the response whatever its status
+ * Rejects only when no response arrived (network errors).
+ */
+export type SendRequest = (request: HttpRequest) => Promise<HttpResponse>;
+
+// Transport for clients created without one; the plugin's is registered by transport-obsidian.ts
+let defaultSend: SendRequest | null = null;
+
+/**
+ * Make a transport the default for clients created without one
+ * Importing transport-obsidian.ts registers Obsidian's, so only the plugin bundle depends on obsidian.
+ */
+export function setDefaultSend(send: SendRequest): void {
+	defaultSend = send;
+}
+
+/**
+ * The default transport, failing when none has been registered (outside Obsidian)
+ */
+export function getDefaultSend(): SendRequest {
+	if (!defaultSend) {
+		throw new Error('No Canvas transport registered: pass a SendRequest, e.g. sendWithFetch outside Obsidian');
+	}
+	return defaultSend;
+}
+
+export interface TransportOptions {
+	maxRetries?: number;    // Retries after the first attempt
+	baseDelay?: number;     // Backoff before the first retry, in ms (doubles each time)
+	maxDelay?: number;      // Longest single wait, in ms
+	lowQuota?: number;      // Remaining quota below which requests are spaced out
+	throttleDelay?: number; // Wait at an empty bucket, in ms (scaled down as the quota recovers)
+	sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_OPTIONS: Required<TransportOptions> = {
+	maxRetries: 4,
+	baseDelay: 1000,
+	maxDelay: 30000,
+	lowQuota: 150,
+	throttleDelay: 2000,
+	sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Error for a response Canvas refused, shaped like the errors Obsidian's requestUrl throws
+ */
+export class HttpError extends Error {
+	status: number;
+	text: string;
+	headers: Record<string, string>;
+
+	constructor(response: HttpResponse) {
+		super(`HTTP ${response.status}: ${response.text}`);
+		this.name = 'HttpError';
+		this.status = response.status;
+		this.text = response.text;
+		this.headers = response.headers;
+	}
+}
+
+export class CanvasTransport {
+	private send: SendRequest;
+	private options: Required<TransportOptions>;
+
+	// Quota reported by the last response, the cost of the most expensive request seen,
+	// and the requests sent but not yet answered (they will use up quota too)
+	private remaining?: number;
+	private cost = 0;
+	private inFlight = 0;
+
+	constructor(send: SendRequest, options: TransportOptions = {}) {
+		this.send = send;
+		this.options = { ...DEFAULT_OPTIONS, ...options };
+	}
+
+	/**
+	 * Make a request, waiting for quota first and retrying where that is safe
+	 * Resolves with successful responses (2xx/3xx), rejects with an HttpError for the rest.
+	 */
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		for (let attempt = 0; ; attempt++) {
+			await this.throttle();
+
+			let response: HttpResponse;
+			this.inFlight++;
+			try {
+				response = await this.send(request);
+			} catch (error) {
+				this.inFlight--;
+
+				// No response: the request may or may not have reached Canvas
+				if (!isIdempotent(request.method) || attempt >= this.options.maxRetries) {
+					throw error;
+				}
+				await this.options.sleep(this.backoff(attempt));
+				continue;
+			}
+			this.inFlight--;
+
+			this.recordQuota(response);
+			if (response.status < 400) {
+				return response;
+			}
+
+			// A throttled request was never carried out, so even a POST can be sent again
+			const retryable = isRateLimited(response) ||
+				(isTransient(response.status) && isIdempotent(request.method));
+			if (!retryable || attempt >= this.options.maxRetries) {
+				throw new HttpError(response);
+			}
+			await this.options.sleep(this.retryDelay(response, attempt));
+		}
+	}
+
+	/**
+	 * Space requests out while the quota is low, in proportion to how low it is
+	 * Requests running in parallel count against the quota before Canvas reports it.
+	 */
+	private async throttle(): Promise<void> {
+		if (this.remaining === undefined) return;
+
+		const { lowQuota, throttleDelay } = this.options;
+		const expected = this.remaining - this.cost * (this.inFlight + 1);
+		if (expected < lowQuota) {
+			const shortfall = Math.min(1, (lowQuota - expected) / lowQuota);
+			await this.options.sleep(Math.round(throttleDelay * shortfall));
+		}
+	}
+
+	/**
+	 * Remember the quota Canvas reported
+	 */
+	private recordQuota(response: HttpResponse): void {
+		const remaining = parseFloat(findHeader(response.headers, 'x-rate-limit-remaining') ?? '');
+		if (!isNaN(remaining)) {
+			this.remaining = remaining;
+		}
+		const cost = parseFloat(findHeader(response.headers, 'x-request-cost') ?? '');
+		if (!isNaN(cost)) {
+			this.cost = Math.max(this.cost, cost);
+		}
+	}
+
+	/**
+	 * Wait before retrying a refused request: Retry-After when Canvas sends one, else backoff
+	 */
+	private retryDelay(response: HttpResponse, attempt: number): number {
+		const retryAfter = parseFloat(findHeader(response.headers, 'retry-after') ?? '');
+		if (!isNaN(retryAfter)) {
+			return Math.min(retryAfter * 1000, this.options.maxDelay);
+		}
+		return this.backoff(attempt);
+	}
+
+	/**
+	 * Exponential backoff: baseDelay, then twice that, and so on up to maxDelay
+	 */
+	private backoff(attempt: number): number {
+		return Math.min(this.options.baseDelay * Math.pow(2, attempt), this.options.maxDelay);
+	}
+}
+
+/**
+ * Whether Canvas refused a request for going over the rate limit (not for lack of permission)
+ */
+export function isRateLimited(response: Pick<HttpResponse, 'status' | 'text' | 'headers'>): boolean {
+	if (response.status === 429) return true;
+	if (response.status !== 403) return false;
+
+	// A permission 403 says "unauthorized"; a throttled one says "Rate Limit Exceeded" or reports an empty bucket
+	return /rate limit exceeded/i.test(response.text ?? '') ||
+		parseFloat(findHeader(response.headers, 'x-rate-limit-remaining') ?? '') <= 0;
+}
+
+/**
+ * Methods that can be sent twice without changing the outcome
+ */
+function isIdempotent(method: HttpMethod): boolean {
+	return method !== 'POST';
+}
+
+/**
+ * Server errors that usually go away on their own
+ */
+function isTransient(status: number): boolean {
+	return status === 500 || status === 502 || status === 503 || status === 504;
+}
+
+/**
+ * Look up a response header regardless of its casing
+ */
+export function findHeader(headers: Record<string, string>, name: string): string | undefined {
+	const key = Object.keys(headers || {}).find(header => header.toLowerCase() === name.toLowerCase());
+	return key !== undefined ? headers[key] : undefined;
+}
@@ -4,6 +4,14 @@ export interface CanvasCourse {
 	id: number;
 	name: string;
 	course_code: string;
+	term?: CanvasTerm;            // With include[]=term
+}
+
+export interface CanvasTerm {
+	id: number;
+	name: string;
+	start_at: string | null;
+	end_at: string | null;
 }
 
 export interface CanvasModule {
@@ -12,9 +20,10 @@ export interface CanvasModule {
 	position: number;
 	items_count: number;
 	items_url: string;
+	items?: CanvasModuleItem[];   // With include[]=items (left out for very large modules)
 }
 
-export type CanvasModuleItemType = 'SubHeader' | 'Page' | 'ExternalUrl' | 'Assignment' | 'Discussion' | 'File';
+export type CanvasModuleItemType = 'SubHeader' | 'Page' | 'ExternalUrl' | 'Assignment' | 'Discussion' | 'File' | 'Quiz';
 
 export interface CanvasModuleItem {
 	id: number;
@@ -27,8 +36,13 @@ export interface CanvasModuleItem {
 	// Type-specific fields (nullable based on type)
 	page_url?: string;           // For Page type
 	external_url?: string;        // For ExternalUrl type
-	content_id?: number;          // For Assignment, Discussion, File types
+	content_id?: number;          // For Assignment, Discussion, File, Quiz types
 	url?: string;                 // API URL for fetching details
+	content_details?: {           // With include[]=content_details
+		points_possible?: number;
+		due_at?: string | null;
+		locked_for_user?: boolean;
+	};
 }
 
 export interface CanvasPage {
@@ -38,6 +52,7 @@ export interface CanvasPage {
 	body: string;                 // HTML content
 	created_at: string;
 	updated_at: string;
+	front_page?: boolean;
 }
 
 export interface CanvasAssignment {
@@ -49,6 +64,44 @@ export interface CanvasAssignment {
 	grading_type: string;         // "pass_fail", "points", "not_graded", etc.
 	submission_types: string[];   // ["online_text_entry", "online_upload", etc.]
 	has_submitted_submissions: boolean;
+	updated_at?: string;
+	rubric?: CanvasRubricCriterion[];  // Set when a rubric is attached
+	rubric_settings?: {
+		id: number;
+		title: string;
+		points_possible: number;
+	};
+	use_rubric_for_grading?: boolean;
+}
+
+export interface CanvasRubricCriterion {
+	id: string;
+	description: string;
+	long_description?: string | null;
+	points: number;
+	ratings: CanvasRubricRating[];
+}
+
+export interface CanvasRubricRating {
+	id: string;
+	description: string;
+	long_description?: string | null;
+	points: number;
+}
+
+export interface CanvasRubric {
+	id: number;
+	title: string;
+	points_possible: number;
+}
+
+export interface CanvasRubricAssociation {
+	id: number;
+	rubric_id: number;
+	association_id: number;
+	association_type: string;
+	use_for_grading: boolean;
+	purpose: string;
 }
 
 export interface CanvasDiscussion {
@@ -58,12 +111,51 @@ export interface CanvasDiscussion {
 	discussion_type: string;      // "threaded" or "side_comment"
 	posted_at: string;
 	require_initial_post: boolean;
+	assignment_id?: number;       // Set for graded discussions
 	assignment?: {
 		points_possible: number;
 		due_at: string | null;
 	};
 }
 
+export interface CanvasQuiz {
+	id: number;
+	title: string;
+	description: string;          // HTML content
+	quiz_type: string;            // "assignment", "practice_quiz", "graded_survey", "survey"
+	time_limit: number | null;    // Minutes
+	allowed_attempts: number;     // -1 for unlimited
+	shuffle_answers: boolean;
+	points_possible: number | null;
+	due_at: string | null;
+	unlock_at: string | null;
+	lock_at: string | null;
+	published: boolean;
+	assignment_id?: number;       // Set for graded quizzes
+}
+
+export interface CanvasQuizQuestion {
+	id: number;
+	quiz_id: number;
+	position: number;
+	question_name: string;
+	question_type: string;        // "multiple_choice_question", "true_false_question", etc.
+	question_text: string;        // HTML content
+	points_possible: number;
+	answers: CanvasQuizAnswer[];
+	matching_answer_incorrect_matches?: string | null; // Newline-separated distractors (matching)
+}
+
+export interface CanvasQuizAnswer {
+	id: number;
+	text?: string;
+	html?: string;
+	weight: number;               // 100 = correct, 0 = incorrect
+	left?: string;                // Matching questions
+	right?: string;
+	match_id?: number;
+}
+
 export interface CanvasFile {
 	id: number;
 	uuid: string;
@@ -73,6 +165,7 @@ export interface CanvasFile {
 	preview_url?: string;
 	size: number;
 	'content-type': string;
+	folder_id: number;
 	created_at: string;
 	updated_at: string;
 }
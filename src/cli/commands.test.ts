@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { downloadCommand, previewCommand, uploadCommand } from './commands';
+import { snapshotPath } from './local-files';
+import { FakeCanvas, FAKE_CANVAS_URL } from '../testing/fake-canvas';
+import type { CliContext } from './commands';
+import type { SendRequest } from '../canvas/transport';
+import type { PreviewItem } from '../upload/types';
+
+const COURSE_ID = '1';
+
+let canvas: FakeCanvas;
+let folder: string;
+let file: string;
+
+function seedCourse(): FakeCanvas {
+	const course = new FakeCanvas(Number(COURSE_ID), 'Biology 101');
+	const week1 = course.addModule('Week 1');
+	course.addPage('Welcome', '<p>Welcome to the course.</p>', week1);
+	course.addAssignment('Lab Report', '<p>Write up the lab.</p>', { points_possible: 10 }, week1);
+	return course;
+}
+
+/**
+ * Context that talks to the fake course and collects what the command prints
+ */
+function context(options: { send?: SendRequest; confirm?: boolean } = {}) {
+	const out: string[] = [];
+	const log: string[] = [];
+	const cli: CliContext = {
+		canvasUrl: FAKE_CANVAS_URL,
+		token: 'token',
+		send: options.send ?? canvas.send,
+		concurrency: 2,
+		out: text => out.push(text),
+		log: text => log.push(text),
+		confirm: async () => options.confirm ?? false
+	};
+	return { cli, out, log };
+}
+
+function editFile(from: string, to: string): void {
+	fs.writeFileSync(file, fs.readFileSync(file, 'utf8').replace(from, to));
+}
+
+beforeEach(() => {
+	canvas = seedCourse();
+	folder = fs.mkdtempSync(path.join(os.tmpdir(), 'canvas-sync-'));
+	file = path.join(folder, 'course', 'Biology 101.md');
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+	jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	fs.rmSync(folder, { recursive: true, force: true });
+	jest.restoreAllMocks();
+});
+
+describe('download', () => {
+	it('writes the course file and its snapshot', async () => {
+		expect(await downloadCommand(context().cli, COURSE_ID, file)).toBe(0);
+
+		expect(fs.readFileSync(file, 'utf8')).toContain('Welcome to the course.');
+		expect(Object.keys(JSON.parse(fs.readFileSync(snapshotPath(file), 'utf8')).items).length).toBeGreaterThan(0);
+	});
+});
+
+describe('download --folder', () => {
+	it('writes an index note with item notes beside it, and uploads edits to the notes', async () => {
+		expect(await downloadCommand(context().cli, COURSE_ID, file, 'folder')).toBe(0);
+
+		const welcome = path.join(path.dirname(file), 'Week 1', 'Welcome.md');
+		expect(fs.readFileSync(file, 'utf8')).toContain('- [[Week 1/Welcome|Welcome]]');
+		expect(fs.readFileSync(welcome, 'utf8')).toContain('Welcome to the course.');
+
+		fs.writeFileSync(welcome, fs.readFileSync(welcome, 'utf8').replace('Welcome to the course.', 'Welcome to Biology 101!'));
+		expect(await uploadCommand(context().cli, file, true)).toBe(0);
+		expect(canvas.findPage('welcome').body).toContain('Biology 101!');
+	});
+});
+
+describe('preview', () => {
+	it('prints the preview items as JSON', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		editFile('Welcome to the course.', 'Welcome to Biology 101!');
+
+		const { cli, out } = context();
+		expect(await previewCommand(cli, file, true)).toBe(0);
+
+		const items: PreviewItem[] = JSON.parse(out.join('\n'));
+		expect(items[0].items.map(item => `${item.title}: ${item.action}`)).toEqual(['Welcome: update', 'Lab Report: skip']);
+	});
+
+	it('prints a table', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		editFile('Welcome to the course.', 'Welcome to Biology 101!');
+
+		const { cli, out } = context();
+		await previewCommand(cli, file, false);
+
+		expect(out[0]).toMatch(/^MODULE +TYPE +TITLE +ACTION +DETAILS$/m);
+		expect(out[0]).toMatch(/^Week 1 +page +Welcome +update +body$/m);
+		expect(out[0]).toContain('Summary: 0 to create, 1 to update');
+	});
+});
+
+describe('upload', () => {
+	it('uploads with --yes and writes new IDs back into the file', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		// Week 1 is the last module in the file
+		fs.appendFileSync(file, '\n## [page] Lab Safety\n\nWear goggles.\n');
+
+		expect(await uploadCommand(context().cli, file, true)).toBe(0);
+		expect(canvas.pages.map(page => page.title)).toContain('Lab Safety');
+		expect(fs.readFileSync(file, 'utf8')).toMatch(/## \[page\] Lab Safety\n<!-- canvas_page_id: lab-safety -->/);
+
+		// Uploading again finds nothing to do
+		const { cli, log } = context();
+		expect(await uploadCommand(cli, file, true)).toBe(0);
+		expect(log).toContain('Nothing to upload.');
+	});
+
+	it('finds nothing to upload once an embedded file is in Canvas', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		fs.writeFileSync(path.join(path.dirname(file), 'slides.pdf'), 'slide bytes');
+		editFile('Welcome to the course.', 'Welcome to the course. ![[slides.pdf]]');
+
+		expect(await uploadCommand(context().cli, file, true)).toBe(0);
+		expect(canvas.files.map(courseFile => courseFile.display_name)).toContain('slides.pdf');
+
+		const { cli, out, log } = context();
+		expect(await uploadCommand(cli, file, true)).toBe(0);
+		expect(log).toContain('Nothing to upload.');
+		expect(out.join('\n')).not.toContain('Files to upload:');
+	});
+
+	it('asks before uploading without --yes', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		editFile('Welcome to the course.', 'Welcome to Biology 101!');
+
+		expect(await uploadCommand(context({ confirm: false }).cli, file, false)).toBe(1);
+		expect(canvas.findPage('welcome').body).not.toContain('Biology 101!');
+
+		expect(await uploadCommand(context({ confirm: true }).cli, file, false)).toBe(0);
+		expect(canvas.findPage('welcome').body).toContain('Biology 101!');
+	});
+
+	it('fails without uploading when Canvas cannot be read', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		editFile('Welcome to the course.', 'Welcome to Biology 101!');
+
+		const unauthorized: SendRequest = async () =>
+			({ status: 401, headers: {}, text: 'Invalid access token', json: null, arrayBuffer: new ArrayBuffer(0) });
+		const { cli, out, log } = context({ send: unauthorized, confirm: true });
+
+		expect(await previewCommand(cli, file, true)).toBe(1);
+		expect(await uploadCommand(cli, file, true)).toBe(1);
+		expect(out).toEqual([]);
+		expect(log).toContain('Could not read the course from Canvas: Invalid Canvas token. Please check your settings.');
+		expect(canvas.findPage('welcome').body).not.toContain('Biology 101!');
+	});
+
+	it('fails when an item fails to upload', async () => {
+		await downloadCommand(context().cli, COURSE_ID, file);
+		editFile('Welcome to the course.', 'Welcome to Biology 101!');
+
+		const rejectPageUpdates: SendRequest = async (request) => request.method === 'PUT' && /\/pages\//.test(request.url)
+			? { status: 400, headers: {}, text: '{"errors":[{"message":"Rejected"}]}', json: { errors: [{ message: 'Rejected' }] }, arrayBuffer: new ArrayBuffer(0) }
+			: canvas.send(request);
+		const { cli, log } = context({ send: rejectPageUpdates });
+
+		expect(await uploadCommand(cli, file, true)).toBe(1);
+		expect(log.some(line => line.startsWith('Error: [page] Welcome:'))).toBe(true);
+	});
+});
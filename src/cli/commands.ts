@@ -0,0 +1,196 @@
+/**
+ * The download, preview and upload commands, run against a course file on disk
+ *
+ * They do what the plugin's commands do, with the same parser, formatter and uploader,
+ * but keep the last-sync snapshot in a file beside the course file (see local-files.ts)
+ * and resolve attachments from the course file's folder instead of the vault.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CanvasApiClient } from '../canvas/api-client';
+import { CanvasCourseFormatter } from '../canvas/formatter';
+import { fetchCourse } from '../canvas/course-fetcher';
+import { MarkdownParser } from '../upload/parser';
+import { CourseUploader } from '../upload/uploader';
+import { patchCourseFile, patchedNotes, patchItemNote } from '../upload/upload-results';
+import { buildSnapshot } from '../upload/snapshot';
+import { localizeCanvasImages } from '../upload/image-assets';
+import { folderAttachmentResolver, folderNoteResolver, readSnapshot, writeSnapshot } from './local-files';
+import { formatPreviewTable, previewTotals, filesToUpload } from './preview-table';
+import type { SendRequest } from '../canvas/transport';
+import type { CanvasFile } from '../canvas/types';
+import type { CourseLayout, ParsedModule, UploadPreview, UploadStats } from '../upload/types';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+
+export interface CliContext {
+	canvasUrl: string;
+	token: string;
+	send: SendRequest;
+	concurrency: number;                             // Parallel requests while downloading
+	out: (text: string) => void;                     // Results: the preview, upload totals (stdout)
+	log: (text: string) => void;                     // Progress and errors (stderr)
+	confirm: (question: string) => Promise<boolean>; // Asked before uploading without --yes
+}
+
+/**
+ * Download a course into a new course file, replacing the file if it exists
+ * In the folder layout the file is the index note, with the item notes written beside it.
+ */
+export async function downloadCommand(context: CliContext, courseId: string, file: string, layout: CourseLayout = 'file'): Promise<number> {
+	const client = new CanvasApiClient(context.canvasUrl, context.token, context.send);
+	context.log(`Downloading course ${courseId} from ${context.canvasUrl}...`);
+	const { course, modules, itemsData } = await fetchCourse(client, courseId, context.concurrency);
+
+	const formatter = new CanvasCourseFormatter();
+	const formatted = layout === 'folder'
+		? formatter.formatCourseFolder(courseId, context.canvasUrl, modules, itemsData)
+		: { index: formatter.formatCourse(courseId, context.canvasUrl, modules, itemsData), notes: [] };
+
+	const courseFiles: CanvasFile[] = itemsData.get('course_files') || [];
+	const localize = (markdown: string) => localizeCanvasImages(markdown, courseFiles, folderAttachmentResolver(file));
+
+	const folder = path.dirname(path.resolve(file));
+	for (const note of formatted.notes) {
+		const notePath = path.join(folder, note.path);
+		fs.mkdirSync(path.dirname(notePath), { recursive: true });
+		fs.writeFileSync(notePath, await localize(note.content));
+	}
+
+	fs.mkdirSync(folder, { recursive: true });
+	fs.writeFileSync(file, await localize(formatted.index));
+	writeSnapshot(file, buildSnapshot(itemsData));
+
+	context.log(`Saved "${course.name}" to ${file}`);
+	return EXIT_OK;
+}
+
+/**
+ * Print what an upload of the course file would change, as a table or as JSON
+ * The JSON is the preview's PreviewItem[], as the plugin's preview modal gets it.
+ * Fails when Canvas can't be read, instead of showing everything as new.
+ */
+export async function previewCommand(context: CliContext, file: string, json: boolean): Promise<number> {
+	const { courseId, modules } = readCourseFile(file);
+	const preview = await generatePreview(context, createUploader(context, courseId, file), modules);
+	if (!preview) return EXIT_FAILED;
+
+	context.out(json ? JSON.stringify(preview.modules, null, 2) : formatPreviewTable(preview));
+	return EXIT_OK;
+}
+
+/**
+ * Upload the course file, then write new Canvas IDs back into it
+ *
+ * Conflicts (items changed locally and in Canvas since the last sync) are skipped, and
+ * nothing is deleted from Canvas; both need the plugin's preview to decide.
+ * Fails without uploading when Canvas can't be read, and when any item failed to upload.
+ */
+export async function uploadCommand(context: CliContext, file: string, yes: boolean): Promise<number> {
+	const { courseId, modules } = readCourseFile(file);
+	const uploader = createUploader(context, courseId, file);
+
+	const preview = await generatePreview(context, uploader, modules);
+	if (!preview) return EXIT_FAILED;
+	context.out(formatPreviewTable(preview));
+
+	if (!hasChanges(preview)) {
+		context.log('Nothing to upload.');
+		return EXIT_OK;
+	}
+	if (!yes && !(await context.confirm('Upload these changes to Canvas?'))) {
+		context.log('Upload cancelled.');
+		return EXIT_FAILED;
+	}
+
+	context.log('Uploading to Canvas...');
+	const stats = await uploader.upload(modules);
+	applyUploadResults(file, stats);
+
+	context.out(
+		`Upload complete: ${stats.itemsCreated} created, ` +
+		`${stats.itemsUpdated} updated, ${stats.itemsMoved} moved, ` +
+		`${stats.itemsReordered} reordered, ${stats.itemsDeleted} deleted, ` +
+		`${stats.itemsSkipped} skipped, ${stats.filesUploaded} files uploaded, ` +
+		`${stats.errors.length} errors`
+	);
+	for (const error of stats.errors) {
+		context.log(`Error: [${error.itemType}] ${error.itemTitle}: ${error.error}`);
+	}
+
+	return stats.errors.length > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+/**
+ * Read and parse a course file, which must name its Canvas course
+ * Item notes linked from a folder-layout index note are read from below its folder.
+ */
+function readCourseFile(file: string): { courseId: string; modules: ParsedModule[] } {
+	const { frontmatter, modules } = new MarkdownParser(fs.readFileSync(file, 'utf8'), folderNoteResolver(file)).parse();
+	if (!frontmatter.canvas_course_id) {
+		throw new Error(`Missing canvas_course_id in the frontmatter of ${file}`);
+	}
+	return { courseId: String(frontmatter.canvas_course_id), modules };
+}
+
+/**
+ * Uploader for a course file, with its last-sync snapshot and attachments beside it
+ */
+function createUploader(context: CliContext, courseId: string, file: string): CourseUploader {
+	const uploader = new CourseUploader(context.canvasUrl, context.token, courseId, context.send);
+	uploader.setBaseSnapshot(readSnapshot(file));
+	uploader.setAttachmentResolver(folderAttachmentResolver(file));
+	return uploader;
+}
+
+/**
+ * Compare the course file with Canvas, or log why Canvas couldn't be read and return null
+ * A plan made without the Canvas side would create every item again.
+ */
+async function generatePreview(context: CliContext, uploader: CourseUploader, modules: ParsedModule[]): Promise<UploadPreview | null> {
+	try {
+		return await uploader.generatePreview(modules);
+	} catch (error) {
+		context.log(`Could not read the course from Canvas: ${error.message}`);
+		return null;
+	}
+}
+
+/**
+ * Whether uploading would change anything in Canvas
+ */
+function hasChanges(preview: UploadPreview): boolean {
+	const totals = previewTotals(preview);
+	return totals.create + totals.update + totals.move + totals.reorder + filesToUpload(preview).length > 0;
+}
+
+/**
+ * Patch the course file and its item notes after an upload and refresh its snapshot, as the plugin does
+ */
+function applyUploadResults(file: string, stats: UploadStats): void {
+	const content = fs.readFileSync(file, 'utf8');
+	const updated = patchCourseFile(content, stats);
+	if (updated !== content) {
+		fs.writeFileSync(file, updated);
+	}
+
+	for (const notePath of patchedNotes(stats)) {
+		const noteContent = fs.readFileSync(notePath, 'utf8');
+		const patched = patchItemNote(notePath, noteContent, stats);
+		if (patched !== noteContent) {
+			fs.writeFileSync(notePath, patched);
+		}
+	}
+
+	const snapshot = readSnapshot(file) || { takenAt: new Date().toISOString(), items: {} };
+	for (const [key, entry] of Object.entries(stats.snapshotEntries)) {
+		if (entry) {
+			snapshot.items[key] = entry;
+		} else {
+			delete snapshot.items[key];
+		}
+	}
+	writeSnapshot(file, snapshot);
+}
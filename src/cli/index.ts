@@ -0,0 +1,122 @@
+/**
+ * canvas-sync: download, preview and upload course files from the command line (Node 18+)
+ *
+ * Usage:
+ *   canvas-sync download <courseId> <file> [--folder]
+ *   canvas-sync preview <file> [--json]
+ *   canvas-sync upload <file> [--yes]
+ *
+ * Canvas is reached at $CANVAS_URL with the API token in $CANVAS_TOKEN;
+ * $CANVAS_CONCURRENCY sets the parallel requests while downloading (default 4).
+ * Exits 1 when a command fails or any item fails to upload, 2 on bad usage.
+ */
+
+import * as readline from 'readline';
+import { sendWithFetch } from '../canvas/transport-fetch';
+import { downloadCommand, previewCommand, uploadCommand, EXIT_OK, EXIT_FAILED } from './commands';
+import type { CliContext } from './commands';
+
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage:
+  canvas-sync download <courseId> <file> [--folder]
+                                           Download a course into a course file (--folder: an
+                                           index note with a note per item beside it)
+  canvas-sync preview <file> [--json]      Show what an upload would change
+  canvas-sync upload <file> [--yes]        Upload a course file (--yes skips the confirmation)
+
+Environment:
+  CANVAS_URL           Canvas address, e.g. https://school.instructure.com
+  CANVAS_TOKEN         Canvas API access token
+  CANVAS_CONCURRENCY   Parallel requests while downloading (default 4)`;
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+	const flags = new Set(argv.filter(arg => arg.startsWith('--')));
+	const [command, ...args] = argv.filter(arg => !arg.startsWith('--'));
+
+	if (flags.has('--help')) {
+		console.log(USAGE);
+		return EXIT_OK;
+	}
+	if (!command) throw new UsageError('No command given');
+
+	const known: Record<string, { args: number; flags: string[] }> = {
+		download: { args: 2, flags: ['--folder'] },
+		preview: { args: 1, flags: ['--json'] },
+		upload: { args: 1, flags: ['--yes'] }
+	};
+	const spec = known[command];
+	if (!spec) throw new UsageError(`Unknown command "${command}"`);
+	if (args.length !== spec.args) throw new UsageError(`Wrong number of arguments for ${command}`);
+	for (const flag of flags) {
+		if (!spec.flags.includes(flag)) throw new UsageError(`Unknown option ${flag} for ${command}`);
+	}
+
+	const context = createContext();
+	switch (command) {
+		case 'download':
+			return await downloadCommand(context, args[0], args[1], flags.has('--folder') ? 'folder' : 'file');
+		case 'preview':
+			return await previewCommand(context, args[0], flags.has('--json'));
+		default:
+			return await uploadCommand(context, args[0], flags.has('--yes'));
+	}
+}
+
+/**
+ * Settings from the environment, output to stdout/stderr and confirmation on the terminal
+ */
+function createContext(): CliContext {
+	const canvasUrl = (process.env.CANVAS_URL || '').replace(/\/+$/, '');
+	const token = process.env.CANVAS_TOKEN || '';
+	if (!canvasUrl || !token) {
+		throw new UsageError('Set CANVAS_URL and CANVAS_TOKEN to your Canvas address and API token');
+	}
+
+	const concurrency = parseInt(process.env.CANVAS_CONCURRENCY || '4', 10);
+	if (!(concurrency >= 1)) {
+		throw new UsageError('CANVAS_CONCURRENCY must be a number of requests, 1 or more');
+	}
+
+	return {
+		canvasUrl,
+		token,
+		send: sendWithFetch,
+		concurrency,
+		out: text => console.log(text),
+		log: text => console.error(text),
+		confirm
+	};
+}
+
+/**
+ * Ask a yes/no question on the terminal; with no terminal to ask, the answer is no
+ */
+async function confirm(question: string): Promise<boolean> {
+	if (!process.stdin.isTTY) {
+		console.error('Not asking for confirmation without a terminal; pass --yes to upload.');
+		return false;
+	}
+
+	const prompt = readline.createInterface({ input: process.stdin, output: process.stderr });
+	const answer = await new Promise<string>(resolve => prompt.question(`${question} [y/N] `, resolve));
+	prompt.close();
+	return /^y(es)?$/i.test(answer.trim());
+}
+
+main(process.argv.slice(2)).then(
+	code => {
+		process.exitCode = code;
+	},
+	error => {
+		if (error instanceof UsageError) {
+			console.error(`${error.message}\n\n${USAGE}`);
+			process.exitCode = EXIT_USAGE;
+		} else {
+			console.error(`Error: ${error.message}`);
+			process.exitCode = EXIT_FAILED;
+		}
+	}
+);
@@ -0,0 +1,104 @@
+/**
+ * Course file helpers for the command line, where there is no vault to ask
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AttachmentResolver, NoteResolver } from '../upload/types';
+import type { CourseSnapshot } from '../upload/snapshot';
+
+/**
+ * Resolve links against the folder holding the course file, which stands in for the vault
+ *
+ * A link is tried as a path relative to that folder first. Otherwise, like Obsidian's
+ * shortest-path links, it matches any file below the folder whose path ends with it.
+ * Markdown files are notes, not attachments, so they never resolve.
+ */
+export function folderAttachmentResolver(courseFilePath: string): AttachmentResolver {
+	const root = path.dirname(path.resolve(courseFilePath));
+	let files: string[] | null = null;
+
+	return (link) => {
+		const direct = path.resolve(root, link);
+		let found: string | undefined = isFile(direct) ? direct : undefined;
+		if (!found) {
+			files = files ?? listFiles(root);
+			const suffix = path.sep + path.normalize(link);
+			found = files.find(file => file.endsWith(suffix));
+		}
+		if (!found || path.extname(found).toLowerCase() === '.md') return null;
+
+		const file = found;
+		return {
+			name: path.basename(file),
+			path: path.relative(root, file).split(path.sep).join('/'),
+			size: fs.statSync(file).size,
+			read: async () => {
+				const data = await fs.promises.readFile(file);
+				return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+			}
+		};
+	};
+}
+
+/**
+ * Resolve item note links of a folder-layout index note, like attachments, against its folder
+ * Notes carry their file paths, so upload results can be written back into them.
+ */
+export function folderNoteResolver(courseFilePath: string): NoteResolver {
+	const root = path.dirname(path.resolve(courseFilePath));
+	let files: string[] | null = null;
+
+	return (link) => {
+		const direct = path.resolve(root, `${link}.md`);
+		let found: string | undefined = isFile(direct) ? direct : undefined;
+		if (!found) {
+			files = files ?? listFiles(root);
+			const suffix = path.sep + path.normalize(`${link}.md`);
+			found = files.find(file => file.endsWith(suffix));
+		}
+		return found ? { path: found, content: fs.readFileSync(found, 'utf8') } : null;
+	};
+}
+
+/**
+ * Where the last-sync snapshot of a course file is kept: "<name>.canvas-sync.json" beside it
+ */
+export function snapshotPath(courseFilePath: string): string {
+	return courseFilePath.replace(/\.md$/, '') + '.canvas-sync.json';
+}
+
+export function readSnapshot(courseFilePath: string): CourseSnapshot | undefined {
+	const file = snapshotPath(courseFilePath);
+	return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined;
+}
+
+export function writeSnapshot(courseFilePath: string, snapshot: CourseSnapshot): void {
+	fs.writeFileSync(snapshotPath(courseFilePath), JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+function isFile(file: string): boolean {
+	try {
+		return fs.statSync(file).isFile();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Every file below a folder, skipping hidden folders and node_modules
+ */
+function listFiles(folder: string): string[] {
+	const files: string[] = [];
+	for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+		if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+		const full = path.join(folder, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...listFiles(full));
+		} else if (entry.isFile()) {
+			files.push(full);
+		}
+	}
+	return files.sort();
+}
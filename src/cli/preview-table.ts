@@ -0,0 +1,116 @@
+import type { UploadPreview, PreviewItemDetail, PositionChange } from '../upload/types';
+
+/**
+ * Format an upload preview as a plain-text table, one row per module and item
+ * Followed by the same totals as the preview modal, and the files and deletions found.
+ */
+export function formatPreviewTable(preview: UploadPreview): string {
+	const rows: string[][] = [['MODULE', 'TYPE', 'TITLE', 'ACTION', 'DETAILS']];
+
+	for (const module of preview.modules) {
+		rows.push([
+			module.moduleTitle,
+			module.section ? 'section' : 'module',
+			'',
+			module.modulAction ?? '',
+			[
+				module.moduleChangedFields?.length ? module.moduleChangedFields.join(', ') : '',
+				module.modulePositionChange ? positionText(module.modulePositionChange) : ''
+			].filter(Boolean).join('; ')
+		]);
+		for (const detail of module.items) {
+			rows.push([module.moduleTitle, detail.type, detail.title, detail.action, detailText(detail)]);
+		}
+	}
+
+	const lines = alignColumns(rows);
+	const totals = previewTotals(preview);
+	lines.push('');
+	lines.push(
+		`Summary: ${totals.create} to create, ${totals.update} to update, ` +
+		`${totals.conflict} in conflict, ${totals.move} to move, ` +
+		`${totals.reorder} to reorder, ${totals.skip} unchanged`
+	);
+
+	const files = filesToUpload(preview);
+	if (files.length > 0) {
+		lines.push('');
+		lines.push('Files to upload:');
+		for (const file of files) {
+			lines.push(`  ${file.attachment.path}`);
+		}
+	}
+
+	if (preview.deletions.length > 0) {
+		lines.push('');
+		lines.push('In Canvas but not in the file (not deleted from the command line):');
+		for (const deletion of preview.deletions) {
+			const where = deletion.moduleTitle ? ` in ${deletion.moduleTitle}` : '';
+			lines.push(`  [${deletion.kind}] ${deletion.title}${where}`);
+		}
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Vault files the upload would send; those Canvas already has are reused, not uploaded
+ */
+export function filesToUpload(preview: UploadPreview): UploadPreview['files'] {
+	return preview.files.filter(file => file.existingFileId === undefined);
+}
+
+/**
+ * Count the actions in a preview, the way the preview modal's summary does
+ */
+export function previewTotals(preview: UploadPreview): Record<'create' | 'update' | 'conflict' | 'move' | 'reorder' | 'skip', number> {
+	const totals = { create: 0, update: 0, conflict: 0, move: 0, reorder: 0, skip: 0 };
+
+	for (const module of preview.modules) {
+		if (module.modulAction) totals[module.modulAction]++;
+		if (module.modulePositionChange) totals.reorder++;
+
+		for (const detail of module.items) {
+			totals[detail.action]++;
+			if (detail.move) totals.move++;
+			if (detail.positionChange) totals.reorder++;
+		}
+	}
+
+	return totals;
+}
+
+function detailText(detail: PreviewItemDetail): string {
+	const parts: string[] = [];
+	if (detail.changedFields && detail.changedFields.length > 0) {
+		parts.push(detail.changedFields.join(', '));
+	}
+	if (detail.action === 'conflict') {
+		parts.push('changed locally and in Canvas - skipped');
+	}
+	if (detail.remoteChanged) {
+		parts.push('changed in Canvas since last sync - re-download to get it');
+	}
+	if (detail.move) {
+		parts.push(`move from ${detail.move.fromModule}`);
+	}
+	if (detail.positionChange) {
+		parts.push(positionText(detail.positionChange));
+	}
+	return parts.join('; ');
+}
+
+function positionText(change: PositionChange): string {
+	return `position ${change.from} -> ${change.to}`;
+}
+
+/**
+ * Pad every column but the last to its widest cell
+ */
+function alignColumns(rows: string[][]): string[] {
+	const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+	return rows.map(row => row
+		.map((cell, column) => column < row.length - 1 ? cell + ' '.repeat(widths[column] - cell.length) : cell)
+		.join('  ')
+		.replace(/\s+$/, ''));
+}
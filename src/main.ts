@@ -1,8 +1,10 @@
-import { Plugin, Notice, TFile, normalizePath, Editor, MarkdownView } from 'obsidian';
+import { Plugin, Notice, TFile, TFolder, normalizePath, Editor, MarkdownView } from 'obsidian';
 import { SettingsTab, DEFAULT_SETTINGS } from './settings';
 import { CanvasApiClient } from './canvas/api-client';
+import './canvas/transport-obsidian'; // Makes Obsidian's requestUrl the clients' default transport
 import { CanvasCourseFormatter } from './canvas/formatter';
 import { CourseInputModal } from './modals/course-input-modal';
+import { CoursePickerModal } from './modals/course-picker-modal';
 import { SimpleTextModal } from './modals/simple-text-modal';
 import { TwoFieldModal } from './modals/two-field-modal';
 import { AssignmentModal } from './modals/assignment-modal';
@@ -11,17 +13,37 @@ import { InternalLinkModal } from './modals/internal-link-modal';
 import { ContentTypeModal } from './modals/content-type-modal';
 import { UploadPreviewModal } from './modals/upload-preview-modal';
 import { FolderPickerModal } from './modals/folder-picker-modal';
-import type { CanvasModule, CanvasModuleItem, CanvasFile } from './canvas/types';
+import type { CanvasCourse, CanvasModule, CanvasModuleItem, CanvasPage, CanvasFile, CanvasFolder } from './canvas/types';
 import type { ContentType } from './templates/template-types';
 import { buildModule, buildHeader, buildPage, buildLink, buildFile, buildAssignment, buildDiscussion, buildInternalLink } from './templates/template-builders';
 import { insertAtCursor } from './utils/editor-utils';
-import { MarkdownParser } from './upload/parser';
+import { MarkdownParser, noteLinks } from './upload/parser';
 import { CourseUploader } from './upload/uploader';
-import { extractCanvasCourseId } from './utils/frontmatter-utils';
-import { ConfirmationModal } from './modals/confirmation-modal';
+import { replaceBlocks } from './upload/block-patcher';
+import { patchCourseFile, patchedNotes, patchItemNote } from './upload/upload-results';
+import { buildSnapshot } from './upload/snapshot';
+import { localizeCanvasImages } from './upload/image-assets';
+import { localizeCanvasFileLinks } from './upload/file-links';
+import type { CourseSnapshot } from './upload/snapshot';
+import type { UploadStats, UploadPreview, AttachmentResolver, BlockReplacement, ParsedPage, ParsedQuiz, ParsedModule, CourseFrontmatter, CourseLayout, CourseNote } from './upload/types';
+import { staleItems, detectChanges, replacementBlock, addedInCanvas } from './upload/incremental-download';
+import type { IncrementalChanges, AddedInCanvas } from './upload/incremental-download';
+import { extractCanvasCourseId, readFrontmatter } from './utils/frontmatter-utils';
+import { mapConcurrent } from './utils/concurrency';
+import { safeFileName } from './utils/file-names';
+import { fetchCourse, fetchCourseContent, fetchPageBodies, fetchQuizQuestions, fetchCourseFiles } from './canvas/course-fetcher';
+import type { CourseData } from './canvas/course-fetcher';
+import { ProgressCounter } from './utils/progress';
+import { ChoiceModal } from './modals/choice-modal';
+
+/**
+ * Unsynced blocks named in the re-download warning (the rest are counted)
+ */
+const MAX_LISTED_BLOCKS = 10;
 
 export default class CanvaslmsHelperPlugin extends Plugin {
 	settings: typeof DEFAULT_SETTINGS;
+	snapshots: Record<string, CourseSnapshot> = {}; // Last-sync state per course ID, for conflict detection
 
 	async onload() {
 		await this.loadSettings();
@@ -125,16 +147,17 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 	 * Download course (smart command that detects re-download vs. new download)
 	 */
 	private async downloadCourse(): Promise<void> {
-		// Check if active file is a Canvas course file
+		// Check if active file is a Canvas course file (or an item note of one)
 		const activeFile = this.app.workspace.getActiveFile();
 
 		if (activeFile) {
-			const content = await this.app.vault.read(activeFile);
+			const courseFile = this.courseFileFor(activeFile);
+			const content = await this.app.vault.read(courseFile);
 			const courseId = extractCanvasCourseId(content);
 
 			if (courseId) {
 				// Re-download flow
-				await this.redownloadCourse(courseId, activeFile);
+				await this.redownloadCourse(courseId, courseFile);
 				return;
 			}
 		}
@@ -158,36 +181,57 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 			const client = new CanvasApiClient(this.settings.canvasUrl, this.settings.canvasToken);
 			const course = await client.getCourse(courseId);
 
-			// 3. Show confirmation modal
-			const confirmed = await new Promise<boolean>((resolve) => {
-				new ConfirmationModal(
+			// 3. Ask how to re-download: with a snapshot from the last sync, only the items changed in Canvas need fetching
+			const snapshot = this.snapshots[courseId];
+			const mode = await new Promise<'update' | 'replace' | null>((resolve) => {
+				new ChoiceModal<'update' | 'replace'>(
 					this.app,
 					'Re-download course from Canvas?',
-					`Course: ${course.name} (ID: ${courseId})\n\nThis will replace the current file with fresh data from Canvas.`,
-					'Re-download',
-					() => resolve(true),
-					() => resolve(false)
+					snapshot
+						? `Course: ${course.name} (ID: ${courseId})\n\n` +
+						  'Update changed items replaces only the items changed in Canvas since the last sync and keeps your local edits.\n\n' +
+						  'Replace whole file rebuilds the file from fresh Canvas data.'
+						: `Course: ${course.name} (ID: ${courseId})\n\nThis will replace the current file with fresh data from Canvas.`,
+					snapshot
+						? [
+							{ text: 'Update changed items', value: 'update', cta: true },
+							{ text: 'Replace whole file', value: 'replace', warning: true }
+						]
+						: [{ text: 'Re-download', value: 'replace', cta: true }],
+					resolve
 				).open();
 			});
 
-			if (!confirmed) return;
+			if (!mode) return;
+			if (mode === 'update') {
+				await this.updateChangedItems(client, courseId, file, snapshot);
+				return;
+			}
 
-			// 4. Download and replace
+			// 4. Don't throw away local edits that never made it to Canvas
+			const guard = await this.guardLocalChanges(file, courseId);
+			if (!guard) return;
+			if (guard === 'upload' && !(await this.uploadCourseFile(file))) {
+				new Notice('Re-download skipped: the course file was not fully uploaded, so it was left as it is.', 8000);
+				return;
+			}
+			if (guard === 'backup') {
+				const backup = await this.backupCourse(file);
+				new Notice(`Saved a backup copy as ${backup}`);
+			}
+
+			// 5. Download and replace, keeping the layout the course already has
 			const notice = new Notice('Downloading course from Canvas...', 0);
 
 			try {
-				const courseData = await this.fetchCourseData(client, courseId);
-
-				const formatter = new CanvasCourseFormatter();
-				const markdown = formatter.formatCourse(
-					courseId,
-					this.settings.canvasUrl,
-					courseData.modules,
-					courseData.itemsData
-				);
+				const layout = courseLayout(await this.app.vault.read(file));
+				const courseData = await this.fetchCourseData(client, courseId, message => notice.setMessage(message));
+				const { markdown, notes } = await this.formatCourseFile(client, courseId, courseData, file.path, layout);
 
 				// Replace file content
 				await this.app.vault.modify(file, markdown);
+				await this.saveNotes(notes);
+				await this.saveSnapshot(courseId, buildSnapshot(courseData.itemsData));
 
 				notice.hide();
 				new Notice('Course re-downloaded successfully!');
@@ -203,6 +247,198 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Compare the course file with Canvas and ask what to do about blocks that differ
+	 * Returns 'overwrite' straight away when nothing would be lost, null when cancelled.
+	 */
+	private async guardLocalChanges(file: TFile, courseId: string): Promise<'upload' | 'backup' | 'overwrite' | null> {
+		const notice = new Notice('Checking for local changes...', 0);
+		let message: string;
+
+		try {
+			const { modules } = await this.parseCourseFile(file);
+			const preview = await this.createUploader(courseId, file.path).generatePreview(modules);
+			const changed = unsyncedBlocks(preview);
+			notice.hide();
+
+			if (changed.length === 0) return 'overwrite';
+
+			const shown = changed.slice(0, MAX_LISTED_BLOCKS);
+			message = `${changed.length} block(s) in this file differ from Canvas and would be lost:\n` +
+				shown.join('\n') +
+				(changed.length > shown.length ? `\n...and ${changed.length - shown.length} more` : '');
+		} catch (error) {
+			notice.hide();
+			console.error('Canvas comparison error:', error);
+			message = `Could not compare this file with Canvas (${error.message}), so local edits may be lost.`;
+		}
+
+		return new Promise((resolve) => {
+			new ChoiceModal<'upload' | 'backup' | 'overwrite'>(
+				this.app,
+				'Unsynced local changes',
+				message,
+				[
+					{ text: 'Upload first', value: 'upload', cta: true },
+					{ text: 'Keep a backup copy', value: 'backup' },
+					{ text: 'Overwrite anyway', value: 'overwrite', warning: true }
+				],
+				resolve
+			).open();
+		});
+	}
+
+	/**
+	 * Save a timestamped copy of a course file next to it, returning the copy's path
+	 * A folder-layout course is copied into a timestamped sibling of its folder, index and item notes.
+	 */
+	private async backupCourse(file: TFile): Promise<string> {
+		const now = new Date();
+		const pad = (value: number) => String(value).padStart(2, '0');
+		const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ` +
+			`${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+
+		const content = await this.app.vault.read(file);
+		const courseFolder = file.parent;
+		if (courseLayout(content) === 'folder' && courseFolder && !courseFolder.isRoot()) {
+			const backup = normalizePath(`${courseFolder.path} (backup ${stamp})`);
+			const notes = noteLinks(content)
+				.map(link => this.itemNoteFile(file, link))
+				.filter((note): note is TFile => note !== null);
+
+			for (const source of [file, ...notes]) {
+				const inFolder = source.path.startsWith(`${courseFolder.path}/`);
+				const path = normalizePath(`${backup}/${inFolder ? source.path.slice(courseFolder.path.length + 1) : source.name}`);
+				await this.ensureFolder(path);
+				await this.app.vault.copy(source, path);
+			}
+			return backup;
+		}
+
+		const folder = courseFolder && !courseFolder.isRoot() ? `${courseFolder.path}/` : '';
+		const path = normalizePath(`${folder}${file.basename} (backup ${stamp}).${file.extension}`);
+		await this.app.vault.copy(file, path);
+		return path;
+	}
+
+	/**
+	 * Incremental re-download: patch the blocks of items changed in Canvas since the last sync
+	 * Blocks changed both locally and in Canvas are left alone and reported, as is what was added in Canvas.
+	 */
+	private async updateChangedItems(client: CanvasApiClient, courseId: string, file: TFile, snapshot: CourseSnapshot): Promise<void> {
+		const notice = new Notice('Checking Canvas for changes...', 0);
+		const limit = this.settings.downloadConcurrency;
+
+		try {
+			const { modules } = await this.parseCourseFile(file);
+
+			// Lists carry updated_at; page bodies are only fetched for pages that may have changed
+			const content = await fetchCourseContent(client, courseId, limit, { pageBodies: false });
+			const itemsData = new Map<string, any>();
+			for (const page of content.pages) itemsData.set(`page_${page.url}`, page);
+			for (const assignment of content.assignments) itemsData.set(`assignment_${assignment.id}`, assignment);
+			for (const discussion of content.discussions) itemsData.set(`discussion_${discussion.id}`, discussion);
+			for (const quiz of content.quizzes) itemsData.set(`quiz_${quiz.id}`, quiz);
+
+			const stalePages = staleItems(modules, snapshot, itemsData)
+				.filter((item): item is ParsedPage => item.type === 'page')
+				.map(item => itemsData.get(`page_${item.canvasPageId}`) as CanvasPage);
+			await fetchPageBodies(client, courseId, stalePages, limit);
+
+			const changes = detectChanges(modules, snapshot, itemsData);
+
+			// Quiz blocks list their questions
+			const quizIds = changes.updated
+				.filter((item): item is ParsedQuiz => item.type === 'quiz')
+				.map(item => item.canvasQuizId!);
+			for (const [quizId, questions] of await fetchQuizQuestions(client, courseId, quizIds, limit)) {
+				itemsData.set(`quiz_questions_${quizId}`, questions);
+			}
+
+			// Files are linked the way a full download links them
+			const { files, folders } = await fetchCourseFiles(client, courseId);
+			for (const courseFile of files) itemsData.set(`file_${courseFile.id}`, courseFile);
+			const localFiles = this.settings.downloadFiles
+				? await this.downloadCourseFiles(client, file.path, files, folders)
+				: undefined;
+
+			const moduleItems = new Map<number, CanvasModuleItem>();
+			for (const module of content.modules) {
+				for (const item of module.items || []) moduleItems.set(item.id, item);
+			}
+
+			const replacements: BlockReplacement[] = [];
+			for (const item of changes.updated) {
+				const replacement = replacementBlock(item, itemsData, moduleItems);
+				if (!replacement) continue;
+
+				if (localFiles) {
+					replacement.markdown = localizeCanvasFileLinks(replacement.markdown, localFiles);
+				}
+				replacement.markdown = await localizeCanvasImages(replacement.markdown, files, this.attachmentResolver(file.path));
+				replacements.push(replacement);
+			}
+
+			// Re-read in case the file was edited while Canvas was being checked
+			const current = await this.app.vault.read(file);
+			const updated = replaceBlocks(current, replacements.filter(replacement => !replacement.notePath));
+			if (updated !== current) {
+				await this.app.vault.modify(file, updated);
+			}
+
+			// Item notes are replaced whole
+			for (const replacement of replacements) {
+				const note = replacement.notePath ? this.app.vault.getAbstractFileByPath(replacement.notePath) : null;
+				if (note instanceof TFile) {
+					await this.app.vault.modify(note, replacement.markdown);
+				}
+			}
+			await this.saveSnapshot(courseId, {
+				...snapshot,
+				items: { ...snapshot.items, ...changes.snapshotEntries }
+			});
+
+			notice.hide();
+			const added = addedInCanvas(modules, content);
+			const lasting = changes.conflicts.length > 0 || added.modules + added.items > 0;
+			new Notice(this.incrementalSummary(changes, added), lasting ? 0 : undefined);
+			if (changes.conflicts.length > 0) {
+				console.warn('Items changed both locally and in Canvas:', changes.conflicts.map(item => item.title));
+			}
+		} catch (error) {
+			notice.hide();
+			throw error;
+		}
+	}
+
+	/**
+	 * Describe the outcome of an incremental re-download
+	 */
+	private incrementalSummary(changes: IncrementalChanges, added: AddedInCanvas): string {
+		const lines = [changes.updated.length > 0
+			? `Updated ${changes.updated.length} item(s) changed in Canvas`
+			: 'No items changed in Canvas since the last sync'];
+
+		if (changes.conflicts.length > 0) {
+			lines.push(
+				`\n${changes.conflicts.length} item(s) changed both here and in Canvas were left as they are:`,
+				...changes.conflicts.map(item => `- [${item.type}] ${item.title}`)
+			);
+		}
+		if (changes.missing.length > 0) {
+			lines.push(`\n${changes.missing.length} item(s) are no longer in Canvas`);
+		}
+		if (added.modules + added.items > 0) {
+			const parts = [
+				added.modules > 0 ? `${added.modules} new module(s)` : '',
+				added.items > 0 ? `${added.items} new item(s)` : ''
+			].filter(part => part);
+			lines.push(`\n${parts.join(' and ')} in Canvas: do a full re-download (Replace whole file) to get them`);
+		}
+
+		return lines.join('\n');
+	}
+
 	/**
 	 * Main download course workflow (new course)
 	 */
@@ -223,25 +459,21 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 		try {
 			// 4. Fetch all data from Canvas
 			const client = new CanvasApiClient(this.settings.canvasUrl, this.settings.canvasToken);
-			const courseData = await this.fetchCourseData(client, courseId);
-
-			// 5. Format as Markdown
-			const formatter = new CanvasCourseFormatter();
-			const markdown = formatter.formatCourse(
-				courseId,
-				this.settings.canvasUrl,
-				courseData.modules,
-				courseData.itemsData
-			);
+			const courseData = await this.fetchCourseData(client, courseId, message => notice.setMessage(message));
 
 			notice.hide();
 
-			// 6. Prompt for save location
+			// 5. Prompt for save location
 			const folderPath = await this.promptForFolder();
 			if (folderPath === null) return;
 
-			// 7. Save to vault
-			await this.saveCourseFile(courseId, courseData.course.name, markdown, folderPath);
+			// 6. Format as Markdown (files and images are linked relative to the course file), then save to vault
+			const layout = this.settings.layout;
+			const filePath = this.courseFilePath(courseId, courseData.course.name, folderPath, layout);
+			const { markdown, notes } = await this.formatCourseFile(client, courseId, courseData, filePath, layout);
+			await this.saveNotes(notes);
+			await this.saveCourseFile(filePath, markdown);
+			await this.saveSnapshot(courseId, buildSnapshot(courseData.itemsData));
 
 			new Notice('Course downloaded successfully!');
 		} catch (error) {
@@ -252,17 +484,45 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 	}
 
 	/**
-	 * Prompt user for course ID via modal
+	 * Prompt user for a course: picked from their Canvas courses, or typed in when those can't be listed
 	 */
 	private async promptForCourseId(): Promise<string | null> {
+		const client = new CanvasApiClient(this.settings.canvasUrl, this.settings.canvasToken);
+		const notice = new Notice('Loading your Canvas courses...', 0);
+		let courses: CanvasCourse[] | null = null;
+		try {
+			courses = await client.getCourses();
+		} catch (error) {
+			console.warn('Failed to list courses, asking for a course ID instead:', error);
+		} finally {
+			notice.hide();
+		}
+
 		return new Promise((resolve) => {
-			const modal = new CourseInputModal(this.app, (courseId) => {
-				resolve(courseId);
-			});
-			modal.open();
+			if (courses) {
+				new CoursePickerModal(this.app, courses, this.downloadedCourses(), resolve).open();
+			} else {
+				new CourseInputModal(this.app, (courseId) => {
+					resolve(courseId);
+				}).open();
+			}
 		});
 	}
 
+	/**
+	 * Course files in the vault, by the canvas_course_id in their frontmatter
+	 */
+	private downloadedCourses(): Map<string, string> {
+		const downloaded = new Map<string, string>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const courseId = this.app.metadataCache.getFileCache(file)?.frontmatter?.canvas_course_id;
+			if (courseId !== undefined && !downloaded.has(String(courseId))) {
+				downloaded.set(String(courseId), file.path);
+			}
+		}
+		return downloaded;
+	}
+
 	/**
 	 * Prompt user for folder location via modal
 	 * Returns folder path or null if cancelled
@@ -281,116 +541,148 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 	}
 
 	/**
-	 * Fetch all course data from Canvas
+	 * Fetch all course data from Canvas, keyed the way the formatter expects
+	 * Per-item requests run in parallel, up to the "Parallel requests" setting.
 	 */
-	private async fetchCourseData(client: CanvasApiClient, courseId: string) {
-		// Fetch course info
-		const course = await client.getCourse(courseId);
-
-		// Fetch all modules
-		const modules = await client.getModules(courseId);
-
-		// Fetch all module items and their details
-		const itemsData = new Map<string, any>();
-
-		for (const module of modules) {
-			const items = await client.getModuleItems(courseId, module.id.toString());
-			itemsData.set(`module_${module.id}`, items);
-
-			// Fetch detailed content for each item
-			for (const item of items) {
-				await this.fetchItemDetails(client, courseId, item, itemsData);
-			}
-		}
-
-		// Fetch ALL course files (including those not in modules)
-		const allFiles = await this.fetchAllCourseFiles(client, courseId);
-		itemsData.set('course_files', allFiles);
-
-		return { course, modules, itemsData };
+	private async fetchCourseData(client: CanvasApiClient, courseId: string, onProgress?: (message: string) => void): Promise<CourseData> {
+		const progress = new ProgressCounter((done, total) => onProgress?.(`Downloading course from Canvas...\nFetched ${done} of ${total} requests`));
+		return await fetchCourse(client, courseId, this.settings.downloadConcurrency, progress);
 	}
 
 	/**
-	 * Fetch detailed content for a module item based on its type
+	 * Format downloaded course data as the markdown of the course file at the given path
+	 * In the folder layout that is the index note, and the item notes come with their vault paths.
+	 * With "Download course files" on, the files are saved into the vault first and linked locally.
 	 */
-	private async fetchItemDetails(
+	private async formatCourseFile(
 		client: CanvasApiClient,
 		courseId: string,
-		item: CanvasModuleItem,
-		itemsData: Map<string, any>
-	): Promise<void> {
-		try {
-			switch (item.type) {
-				case 'Page':
-					if (item.page_url) {
-						const page = await client.getPage(courseId, item.page_url);
-						itemsData.set(`page_${item.page_url}`, page);
-					}
-					break;
-				case 'Assignment':
-					if (item.content_id) {
-						const assignment = await client.getAssignment(courseId, item.content_id.toString());
-						itemsData.set(`assignment_${item.content_id}`, assignment);
-					}
-					break;
-				case 'Discussion':
-					if (item.content_id) {
-						const discussion = await client.getDiscussion(courseId, item.content_id.toString());
-						itemsData.set(`discussion_${item.content_id}`, discussion);
-					}
-					break;
-				case 'File':
-					if (item.content_id) {
-						const file = await client.getFile(item.content_id.toString());
-						itemsData.set(`file_${item.content_id}`, file);
-					}
-					break;
+		courseData: { modules: CanvasModule[]; itemsData: Map<string, any> },
+		courseFilePath: string,
+		layout: CourseLayout
+	): Promise<{ markdown: string; notes: CourseNote[] }> {
+		const { modules, itemsData } = courseData;
+		const courseFiles: CanvasFile[] = itemsData.get('course_files') || [];
+
+		let localFiles: Map<number, string> | undefined;
+		if (this.settings.downloadFiles) {
+			localFiles = await this.downloadCourseFiles(client, courseFilePath, courseFiles, itemsData.get('course_folders') || []);
+			itemsData.set('local_files', localFiles);
+		}
+
+		const formatter = new CanvasCourseFormatter();
+		const formatted = layout === 'folder'
+			? formatter.formatCourseFolder(courseId, this.settings.canvasUrl, modules, itemsData)
+			: { index: formatter.formatCourse(courseId, this.settings.canvasUrl, modules, itemsData), notes: [] };
+
+		const localize = async (markdown: string): Promise<string> => {
+			if (localFiles) {
+				markdown = localizeCanvasFileLinks(markdown, localFiles);
 			}
-		} catch (error) {
-			console.warn(`Failed to fetch details for ${item.type} "${item.title}":`, error);
-			// Continue with other items even if one fails
+			// Point Canvas-hosted images back at their vault copies
+			return localizeCanvasImages(markdown, courseFiles, this.attachmentResolver(courseFilePath));
+		};
+
+		const folder = courseFilePath.replace(/[^/]*$/, '');
+		const notes: CourseNote[] = [];
+		for (const note of formatted.notes) {
+			notes.push({ path: normalizePath(`${folder}${note.path}`), content: await localize(note.content) });
 		}
+		return { markdown: await localize(formatted.index), notes };
 	}
 
 	/**
-	 * Fetch all files in a course, regardless of whether they're in modules
+	 * Save the course files into "<course file> Files", mirroring the Canvas folder tree
+	 *
+	 * Files whose vault copy has the size and modification time of the Canvas file are
+	 * unchanged and not downloaded again. Returns the vault path of every file, by ID.
 	 */
-	private async fetchAllCourseFiles(
+	private async downloadCourseFiles(
 		client: CanvasApiClient,
-		courseId: string
-	): Promise<CanvasFile[]> {
+		courseFilePath: string,
+		files: CanvasFile[],
+		folders: CanvasFolder[]
+	): Promise<Map<number, string>> {
+		const vault = this.app.vault;
+		const root = courseFilePath.replace(/\.md$/, '') + ' Files';
+		const localPaths = new Map<number, string>();
+		let downloaded = 0;
+
+		// Canvas folder paths start with the root "course files" folder, which is the attachments folder itself
+		const folderPaths = new Map(folders.map(folder => [
+			folder.id,
+			folder.full_name.split('/').slice(1).map(safeFileName).join('/')
+		]));
+
+		const targets = files.map(file => {
+			const folderPath = normalizePath([root, folderPaths.get(file.folder_id)].filter(Boolean).join('/'));
+			return { file, folderPath, path: normalizePath(`${folderPath}/${safeFileName(file.display_name)}`) };
+		});
+
+		// Create the folders up front, so parallel downloads don't race to create them
+		for (const folderPath of new Set(targets.map(target => target.folderPath))) {
+			if (!vault.getAbstractFileByPath(folderPath)) {
+				await vault.createFolder(folderPath);
+			}
+		}
+
+		const notice = new Notice(`Downloading ${files.length} course files...`, 0);
+		const progress = new ProgressCounter((done, total) => notice.setMessage(`Downloading course files...\n${done} of ${total} done`));
+		progress.add(targets.length);
 		try {
-			const folders = await client.getCourseFolders(courseId);
-			const allFiles: CanvasFile[] = [];
+			await mapConcurrent(targets, this.settings.downloadConcurrency, async ({ file, path }) => {
+				const mtime = Date.parse(file.updated_at);
 
-			for (const folder of folders) {
 				try {
-					const files = await client.getFolderFiles(folder.id);
-					allFiles.push(...files);
+					const existing = vault.getAbstractFileByPath(path);
+					if (existing instanceof TFile && existing.stat.size === file.size && existing.stat.mtime === mtime) {
+						localPaths.set(file.id, path);
+						return;
+					}
+
+					const data = await client.downloadFile(file);
+					if (existing instanceof TFile) {
+						await vault.modifyBinary(existing, data, { mtime });
+					} else {
+						await vault.createBinary(path, data, { mtime });
+					}
+					localPaths.set(file.id, path);
+					downloaded++;
 				} catch (error) {
-					console.warn(`Failed to fetch files from folder "${folder.name}":`, error);
-					// Continue with other folders
+					console.warn(`Failed to download file "${file.display_name}":`, error);
+					// Continue with other files
+				} finally {
+					progress.tick();
 				}
-			}
-
-			return allFiles;
-		} catch (error) {
-			console.warn('Failed to fetch course files:', error);
-			return []; // Return empty array if fetch fails
+			});
+		} finally {
+			notice.hide();
 		}
+
+		new Notice(`${downloaded} course files downloaded, ${localPaths.size - downloaded} unchanged`);
+		return localPaths;
 	}
 
 	/**
-	 * Save course markdown to vault
+	 * Vault path of the markdown file for a course
+	 * In the folder layout it is the index note, in a course folder of the same name.
 	 */
-	private async saveCourseFile(courseId: string, courseName: string, markdown: string, folderPath: string): Promise<void> {
+	private courseFilePath(courseId: string, courseName: string, folderPath: string, layout: CourseLayout): string {
 		// Clean course name for filename - remove special characters
 		const safeName = courseName.replace(/[^a-zA-Z0-9-_ ]/g, '').trim();
-		const filename = `Canvas Course ${courseId} - ${safeName}.md`;
+		const name = `Canvas Course ${courseId} - ${safeName}`;
+		const filename = layout === 'folder' ? `${name}/${name}.md` : `${name}.md`;
 
 		// Combine folder path with filename
 		const fullPath = folderPath ? `${folderPath}/${filename}` : filename;
-		const normalizedPath = normalizePath(fullPath);
+		return normalizePath(fullPath);
+	}
+
+	/**
+	 * Save course markdown to vault
+	 */
+	private async saveCourseFile(normalizedPath: string, markdown: string): Promise<void> {
+		await this.ensureFolder(normalizedPath);
 
 		// Check if file exists
 		const existingFile = this.app.vault.getAbstractFileByPath(normalizedPath);
@@ -411,71 +703,162 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Save the item notes of a folder-layout course, replacing notes that exist
+	 */
+	private async saveNotes(notes: CourseNote[]): Promise<void> {
+		for (const note of notes) {
+			await this.ensureFolder(note.path);
+
+			const existing = this.app.vault.getAbstractFileByPath(note.path);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, note.content);
+			} else {
+				await this.app.vault.create(note.path, note.content);
+			}
+		}
+	}
+
+	/**
+	 * Create the folder a vault path is in, if it doesn't exist yet
+	 */
+	private async ensureFolder(path: string): Promise<void> {
+		const folder = path.replace(/\/?[^/]*$/, '');
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+	}
+
+	/**
+	 * The course file a file belongs to: the file itself, or for an item note of a
+	 * folder-layout course, the index note in the nearest folder above it
+	 */
+	private courseFileFor(file: TFile): TFile {
+		const frontmatter = (candidate: TFile) => this.app.metadataCache.getFileCache(candidate)?.frontmatter;
+		if (frontmatter(file)?.canvas_type === undefined) return file;
+
+		for (let folder: TFolder | null = file.parent; folder; folder = folder.parent) {
+			const index = folder.children.find((child): child is TFile =>
+				child instanceof TFile && frontmatter(child)?.canvas_layout === 'folder');
+			if (index) return index;
+		}
+		return file;
+	}
+
+	/**
+	 * Parse a course file; the index note of a folder-layout course is parsed with its item notes
+	 */
+	private async parseCourseFile(file: TFile): Promise<{ frontmatter: CourseFrontmatter; modules: ParsedModule[] }> {
+		const content = await this.app.vault.read(file);
+		const notes = new Map<string, CourseNote>();
+
+		if (courseLayout(content) === 'folder') {
+			for (const link of noteLinks(content)) {
+				const note = this.itemNoteFile(file, link);
+				if (note) {
+					notes.set(link, { path: note.path, content: await this.app.vault.read(note) });
+				}
+			}
+		}
+
+		return new MarkdownParser(content, link => notes.get(link) ?? null).parse();
+	}
+
+	/**
+	 * The item note a link in an index note points at: relative to the course folder, as
+	 * downloads write it, or wherever Obsidian resolves it once notes have been moved
+	 */
+	private itemNoteFile(index: TFile, link: string): TFile | null {
+		const folder = index.parent && !index.parent.isRoot() ? `${index.parent.path}/` : '';
+		const note = this.app.vault.getAbstractFileByPath(normalizePath(`${folder}${link}.md`));
+		return note instanceof TFile ? note : this.app.metadataCache.getFirstLinkpathDest(link, index.path);
+	}
+
 	/**
 	 * Main upload course workflow
 	 */
 	private async uploadCourse(): Promise<void> {
-		// 1. Get active file
-		const activeFile = this.app.workspace.getActiveFile();
-		if (!activeFile) {
+		// Get active file (an item note stands for its course)
+		const active = this.app.workspace.getActiveFile();
+		if (!active) {
 			new Notice('No active file. Please open a Canvas course file.');
 			return;
 		}
 
-		// 2. Validate settings
+		await this.uploadCourseFile(this.courseFileFor(active));
+	}
+
+	/**
+	 * Preview and upload a course file
+	 * Resolves true once everything is uploaded, false when cancelled, failed or uploaded with errors.
+	 */
+	private async uploadCourseFile(courseFile: TFile): Promise<boolean> {
+		// 1. Validate settings
 		if (!this.settings.canvasUrl || !this.settings.canvasToken) {
 			new Notice('Please configure Canvas URL and token in settings');
-			return;
+			return false;
 		}
 
-		// 3. Read file content
-		const content = await this.app.vault.read(activeFile);
-
-		// 4. Parse markdown
-		const parser = new MarkdownParser(content);
-		const { frontmatter, modules } = parser.parse();
+		// 2. Read and parse the course file (with its item notes in the folder layout)
+		let parsed: { frontmatter: CourseFrontmatter; modules: ParsedModule[] };
+		try {
+			parsed = await this.parseCourseFile(courseFile);
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			return false;
+		}
+		const { frontmatter, modules } = parsed;
 
-		// 5. Validate frontmatter
+		// 3. Validate frontmatter
 		if (!frontmatter.canvas_course_id) {
 			new Notice('Error: Missing canvas_course_id in frontmatter');
-			return;
+			return false;
 		}
 
 		if (!frontmatter.canvas_url) {
 			new Notice('Error: Missing canvas_url in frontmatter');
-			return;
+			return false;
 		}
 
-		// 6. Create uploader
-		const uploader = new CourseUploader(
-			this.settings.canvasUrl,
-			this.settings.canvasToken,
-			frontmatter.canvas_course_id
-		);
+		// 4. Create uploader
+		const uploader = this.createUploader(frontmatter.canvas_course_id, courseFile.path);
 
-		// 7. Show loading notice for preview generation
+		// 5. Show loading notice for preview generation
 		const previewNotice = new Notice('Analyzing changes...', 0);
 
+		let preview: UploadPreview;
 		try {
-			// 8. Generate preview (auto dry-run)
-			const preview = await uploader.generatePreview(modules);
+			// 6. Generate preview (auto dry-run)
+			preview = await uploader.generatePreview(modules);
 			previewNotice.hide();
+		} catch (error: any) {
+			previewNotice.hide();
+			new Notice(`Error generating preview: ${error.message}`);
+			console.error('Canvas preview error:', error);
+			return false;
+		}
 
-			// 9. Show preview modal
-			new UploadPreviewModal(this.app, preview, async () => {
-				// 10. On confirm: upload
+		// 7. Show preview modal
+		return new Promise<boolean>((resolve) => {
+			new UploadPreviewModal(this.app, preview, async (options) => {
+				// 8. On confirm: upload (with the deletions and conflict resolutions picked in the preview)
 				const uploadNotice = new Notice('Uploading to Canvas...', 0);
 
 				try {
-					const stats = await uploader.upload(modules, false);
+					const stats = await uploader.upload(modules, false, options);
+
+					// Write new Canvas IDs and kept Canvas versions back into the file
+					await this.applyUploadResults(courseFile, frontmatter.canvas_course_id, stats);
 
 					uploadNotice.hide();
 
-					// 11. Show results
+					// 9. Show results
 					if (stats.errors.length > 0) {
 						new Notice(
 							`Upload complete with errors: ${stats.itemsCreated} created, ` +
-							`${stats.itemsUpdated} updated, ${stats.itemsSkipped} skipped, ` +
+							`${stats.itemsUpdated} updated, ${stats.itemsMoved} moved, ` +
+							`${stats.itemsReordered} reordered, ${stats.itemsDeleted} deleted, ` +
+							`${stats.itemsSkipped} skipped, ${stats.filesUploaded} files uploaded, ` +
 							`${stats.errors.length} errors (see console)`,
 							10000
 						);
@@ -483,21 +866,100 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 					} else {
 						new Notice(
 							`Upload complete: ${stats.itemsCreated} created, ` +
-							`${stats.itemsUpdated} updated, ${stats.itemsSkipped} skipped`,
+							`${stats.itemsUpdated} updated, ${stats.itemsMoved} moved, ` +
+							`${stats.itemsReordered} reordered, ${stats.itemsDeleted} deleted, ` +
+							`${stats.itemsSkipped} skipped, ${stats.filesUploaded} files uploaded`,
 							5000
 						);
 					}
+					resolve(stats.errors.length === 0);
 				} catch (error: any) {
 					uploadNotice.hide();
 					new Notice(`Upload error: ${error.message}`);
 					console.error('Canvas upload error:', error);
+					resolve(false);
 				}
-			}).open();
-		} catch (error: any) {
-			previewNotice.hide();
-			new Notice(`Error generating preview: ${error.message}`);
-			console.error('Canvas preview error:', error);
+			}, () => resolve(false)).open();
+		});
+	}
+
+	/**
+	 * Uploader for the course file at the given path
+	 */
+	private createUploader(courseId: string, courseFilePath: string): CourseUploader {
+		const uploader = new CourseUploader(this.settings.canvasUrl, this.settings.canvasToken, courseId);
+
+		// Detect items changed on both sides since the last download/upload
+		uploader.setBaseSnapshot(this.snapshots[courseId]);
+
+		// Let the upload find vault files referenced from the course file
+		uploader.setAttachmentResolver(this.attachmentResolver(courseFilePath));
+
+		return uploader;
+	}
+
+	/**
+	 * Patch the course file after an upload and refresh the sync snapshot
+	 * Swaps in Canvas versions for conflicts resolved as "keep remote", then splices in new Canvas IDs
+	 * (and [file] blocks for newly uploaded vault files) so the next upload doesn't create duplicates.
+	 * Results for items read from item notes go into those notes.
+	 */
+	private async applyUploadResults(file: TFile, courseId: string, stats: UploadStats): Promise<void> {
+		if (stats.remoteBlocks.length > 0 || stats.createdIds.length > 0 || stats.addedFiles.length > 0) {
+			// Re-read in case the files were edited while the upload was running
+			const content = await this.app.vault.read(file);
+			const updated = patchCourseFile(content, stats);
+			if (updated !== content) {
+				await this.app.vault.modify(file, updated);
+			}
+
+			for (const path of patchedNotes(stats)) {
+				const note = this.app.vault.getAbstractFileByPath(path);
+				if (!(note instanceof TFile)) continue;
+
+				const noteContent = await this.app.vault.read(note);
+				const patched = patchItemNote(path, noteContent, stats);
+				if (patched !== noteContent) {
+					await this.app.vault.modify(note, patched);
+				}
+			}
+		}
+
+		const snapshot = this.snapshots[courseId] || { takenAt: new Date().toISOString(), items: {} };
+		for (const [key, entry] of Object.entries(stats.snapshotEntries)) {
+			if (entry) {
+				snapshot.items[key] = entry;
+			} else {
+				delete snapshot.items[key];
+			}
 		}
+		await this.saveSnapshot(courseId, snapshot);
+	}
+
+	/**
+	 * Resolve links the way Obsidian does, relative to the course file
+	 * Notes are not attachments, so links to markdown files resolve to nothing.
+	 */
+	private attachmentResolver(courseFilePath: string): AttachmentResolver {
+		return (link) => {
+			const file = this.app.metadataCache.getFirstLinkpathDest(link, courseFilePath);
+			if (!file || file.extension === 'md') return null;
+
+			return {
+				name: file.name,
+				path: file.path,
+				size: file.stat.size,
+				read: () => this.app.vault.readBinary(file)
+			};
+		};
+	}
+
+	/**
+	 * Store the last-sync snapshot for a course
+	 */
+	private async saveSnapshot(courseId: string, snapshot: CourseSnapshot): Promise<void> {
+		this.snapshots[courseId] = snapshot;
+		await this.saveSettings();
 	}
 
 	async onunload() {
@@ -505,11 +967,14 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Snapshots share the plugin data file with the settings
+		const { snapshots, ...settings } = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.snapshots = snapshots ?? {};
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.saveData({ ...this.settings, snapshots: this.snapshots });
 	}
 
 	/**
@@ -669,3 +1134,36 @@ export default class CanvaslmsHelperPlugin extends Plugin {
 		modal.open();
 	}
 }
+
+/**
+ * Layout of a course file, from its canvas_layout property
+ */
+function courseLayout(content: string): CourseLayout {
+	try {
+		return readFrontmatter(content)?.fields.canvas_layout === 'folder' ? 'folder' : 'file';
+	} catch {
+		// Unreadable frontmatter: parsing the course reports it
+		return 'file';
+	}
+}
+
+/**
+ * Blocks of the course file that an upload would send to Canvas, as "[type] Title" lines
+ * Items only changed in Canvas are skipped by the preview, so they don't count.
+ */
+function unsyncedBlocks(preview: UploadPreview): string[] {
+	const blocks: string[] = [];
+
+	for (const module of preview.modules) {
+		if (module.modulAction && module.modulAction !== 'skip') {
+			blocks.push(`- [module] ${module.moduleTitle}`);
+		}
+		for (const item of module.items) {
+			if (item.action !== 'skip') {
+				blocks.push(`- [${item.type}] ${item.title}`);
+			}
+		}
+	}
+
+	return blocks;
+}
@@ -0,0 +1,73 @@
+import { App, Modal } from 'obsidian';
+
+export interface Choice<T> {
+	text: string;
+	value: T;
+	cta?: boolean;     // Highlight as the recommended choice
+	warning?: boolean; // Style as a destructive choice
+}
+
+/**
+ * Ask the user to pick one of several actions
+ * onChoose receives the picked value, or null when the modal is cancelled or closed.
+ */
+export class ChoiceModal<T> extends Modal {
+	private message: string;
+	private choices: Choice<T>[];
+	private onChoose: (value: T | null) => void;
+	private chosen = false;
+
+	constructor(
+		app: App,
+		title: string,
+		message: string,
+		choices: Choice<T>[],
+		onChoose: (value: T | null) => void
+	) {
+		super(app);
+		this.titleEl.setText(title);
+		this.message = message;
+		this.choices = choices;
+		this.onChoose = onChoose;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const messageEl = contentEl.createEl('p', { text: this.message });
+		messageEl.style.whiteSpace = 'pre-wrap';
+		messageEl.style.marginBottom = '20px';
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		for (const choice of this.choices) {
+			const button = buttonContainer.createEl('button', {
+				text: choice.text,
+				cls: choice.cta ? 'mod-cta' : choice.warning ? 'mod-warning' : undefined
+			});
+			button.addEventListener('click', () => {
+				this.chosen = true;
+				this.close();
+				this.onChoose(choice.value);
+			});
+		}
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		if (!this.chosen) {
+			this.onChoose(null);
+		}
+	}
+}
@@ -0,0 +1,108 @@
+/**
+ * Fuzzy-search picker over the user's Canvas courses, grouped by term
+ */
+
+import { App, SuggestModal, prepareFuzzySearch } from 'obsidian';
+import type { CanvasCourse } from '../canvas/types';
+
+export class CoursePickerModal extends SuggestModal<CanvasCourse> {
+	private courses: CanvasCourse[];
+	private downloaded: Map<string, string>;
+	private onChoose: (courseId: string | null) => void;
+	private chosen: boolean = false;
+
+	// Suggestions that start a term group, so the term heading is shown above them
+	private groupStarts = new Set<CanvasCourse>();
+
+	/**
+	 * @param downloaded Vault path of the course file for each course ID that has one
+	 */
+	constructor(
+		app: App,
+		courses: CanvasCourse[],
+		downloaded: Map<string, string>,
+		onChoose: (courseId: string | null) => void
+	) {
+		super(app);
+		this.courses = [...courses].sort(compareCourses);
+		this.downloaded = downloaded;
+		this.onChoose = onChoose;
+
+		this.setPlaceholder('Search your courses by name or code, or enter a course ID');
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to download' },
+			{ command: 'esc', purpose: 'to cancel' }
+		]);
+	}
+
+	getSuggestions(query: string): CanvasCourse[] {
+		const search = prepareFuzzySearch(query.trim());
+		const matches = query.trim()
+			? this.courses.filter(course => search(`${course.course_code} ${course.name} ${course.id}`) !== null)
+			: this.courses;
+
+		// A course ID that isn't in the list (e.g. a course you only have admin access to)
+		const id = query.trim();
+		if (/^\d+$/.test(id) && !this.courses.some(course => String(course.id) === id)) {
+			matches.unshift({ id: parseInt(id, 10), name: `Course ${id}`, course_code: '' });
+		}
+
+		this.groupStarts.clear();
+		let term: string | undefined;
+		for (const course of matches) {
+			if (course.term?.name !== term || this.groupStarts.size === 0) {
+				this.groupStarts.add(course);
+				term = course.term?.name;
+			}
+		}
+
+		return matches;
+	}
+
+	renderSuggestion(course: CanvasCourse, el: HTMLElement): void {
+		if (this.groupStarts.has(course) && course.term) {
+			el.createDiv({ text: course.term.name, cls: 'course-picker-term' });
+		}
+
+		el.createDiv({ text: course.name });
+
+		const details = el.createDiv({ cls: 'course-picker-details' });
+		details.createSpan({ text: course.course_code ? `${course.course_code} · ${course.id}` : String(course.id) });
+
+		const path = this.downloaded.get(String(course.id));
+		if (path) {
+			details.createSpan({ text: `Downloaded: ${path}`, cls: 'course-picker-downloaded' });
+		}
+	}
+
+	onChooseSuggestion(course: CanvasCourse): void {
+		this.chosen = true;
+		this.onChoose(String(course.id));
+	}
+
+	onClose(): void {
+		super.onClose();
+
+		// onChooseSuggestion runs after close, so wait a tick before reporting a cancel
+		setTimeout(() => {
+			if (!this.chosen) {
+				this.onChoose(null);
+			}
+		}, 0);
+	}
+}
+
+/**
+ * Newest term first (courses without a term last), then by name
+ */
+function compareCourses(a: CanvasCourse, b: CanvasCourse): number {
+	const aStart = a.term?.start_at ? Date.parse(a.term.start_at) : -Infinity;
+	const bStart = b.term?.start_at ? Date.parse(b.term.start_at) : -Infinity;
+	if (aStart !== bStart) {
+		return bStart - aStart;
+	}
+
+	const termOrder = (a.term?.name ?? '').localeCompare(b.term?.name ?? '');
+	return termOrder !== 0 ? termOrder : a.name.localeCompare(b.name);
+}
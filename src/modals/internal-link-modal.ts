@@ -38,10 +38,11 @@ export class InternalLinkModal extends Modal {
 					.addOption('Page', 'Page')
 					.addOption('Assignment', 'Assignment')
 					.addOption('Discussion', 'Discussion')
+					.addOption('Quiz', 'Quiz')
 					.addOption('File', 'File')
 					.setValue('Page')
 					.onChange(value => {
-						this.data.type = value as 'Page' | 'Assignment' | 'Discussion' | 'File';
+						this.data.type = value as InternalLinkData['type'];
 					});
 			});
 
@@ -1,17 +1,34 @@
 import { App, Modal, Setting } from 'obsidian';
-import type { PreviewItem } from '../upload/types';
+import { diffLines, toSideBySide } from '../utils/line-diff';
+import type {
+	UploadPreview,
+	PreviewItem,
+	PreviewItemDetail,
+	PositionChange,
+	FieldDiff,
+	PendingDeletion,
+	UploadOptions,
+	ConflictResolution
+} from '../upload/types';
 
 /**
  * Modal to display upload preview before confirming
+ * onCancel runs when the modal is closed without confirming.
  */
 export class UploadPreviewModal extends Modal {
-	private preview: PreviewItem[];
-	private onConfirm: () => void;
-
-	constructor(app: App, preview: PreviewItem[], onConfirm: () => void) {
+	private preview: UploadPreview;
+	private onConfirm: (options: UploadOptions) => void;
+	private onCancel?: () => void;
+	private confirmed = false;
+	private selectedDeletions = new Set<PendingDeletion>();
+	private resolutions: Record<string, ConflictResolution> = {};
+	private fileFolderId?: number;
+
+	constructor(app: App, preview: UploadPreview, onConfirm: (options: UploadOptions) => void, onCancel?: () => void) {
 		super(app);
 		this.preview = preview;
 		this.onConfirm = onConfirm;
+		this.onCancel = onCancel;
 	}
 
 	onOpen(): void {
@@ -31,10 +48,20 @@ export class UploadPreviewModal extends Modal {
 		const previewContainer = contentEl.createDiv({ cls: 'upload-preview-container' });
 
 		// Render preview items
-		for (const item of this.preview) {
+		for (const item of this.preview.modules) {
 			this.renderPreviewItem(previewContainer, item);
 		}
 
+		// Render vault files to upload, with the folder they go into
+		if (this.preview.files.length > 0) {
+			this.renderFiles(previewContainer);
+		}
+
+		// Render deletion candidates (each needs an explicit opt-in)
+		if (this.preview.deletions.length > 0) {
+			this.renderDeletions(previewContainer);
+		}
+
 		// Calculate totals
 		const totals = this.calculateTotals();
 
@@ -42,9 +69,19 @@ export class UploadPreviewModal extends Modal {
 		const summary = contentEl.createDiv({ cls: 'upload-preview-summary' });
 		summary.createEl('strong', { text: 'Summary: ' });
 		summary.createEl('span', {
-			text: `${totals.create} to create, ${totals.update} to update, ${totals.skip} unchanged`,
+			text: `${totals.create} to create, ${totals.update} to update, ` +
+				`${totals.conflict} in conflict, ${totals.move} to move, ` +
+				`${totals.reorder} to reorder, ${totals.skip} unchanged`,
 			cls: 'mod-muted'
 		});
+		const deletionSummary = summary.createEl('span', { cls: 'mod-muted' });
+		const updateDeletionSummary = () => {
+			deletionSummary.setText(this.preview.deletions.length > 0
+				? `, ${this.selectedDeletions.size} of ${this.preview.deletions.length} deletions selected`
+				: '');
+		};
+		updateDeletionSummary();
+		previewContainer.addEventListener('change', updateDeletionSummary);
 
 		// Add buttons
 		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
@@ -54,8 +91,10 @@ export class UploadPreviewModal extends Modal {
 			cls: 'mod-cta'
 		});
 		uploadButton.addEventListener('click', () => {
+			const deletions = this.preview.deletions.filter(deletion => this.selectedDeletions.has(deletion));
+			this.confirmed = true;
 			this.close();
-			this.onConfirm();
+			this.onConfirm({ deletions, resolutions: this.resolutions, fileFolderId: this.fileFolderId });
 		});
 
 		const cancelButton = buttonContainer.createEl('button', {
@@ -73,7 +112,7 @@ export class UploadPreviewModal extends Modal {
 		// Module header
 		const moduleHeader = moduleDiv.createDiv({ cls: 'upload-preview-module-header' });
 
-		moduleHeader.createEl('strong', { text: `[Module] ${item.moduleTitle}` });
+		moduleHeader.createEl('strong', { text: `${item.section ? '[Section]' : '[Module]'} ${item.moduleTitle}` });
 
 		if (item.modulAction && item.modulAction !== 'skip') {
 			const actionBadge = moduleHeader.createEl('span', {
@@ -89,6 +128,10 @@ export class UploadPreviewModal extends Modal {
 			}
 		}
 
+		if (item.modulePositionChange) {
+			this.renderPositionChange(moduleHeader, item.modulePositionChange);
+		}
+
 		// Module items
 		for (const detail of item.items) {
 			this.renderItemDetail(moduleDiv, detail);
@@ -98,7 +141,7 @@ export class UploadPreviewModal extends Modal {
 	/**
 	 * Render a single item detail
 	 */
-	private renderItemDetail(container: HTMLElement, detail: any): void {
+	private renderItemDetail(container: HTMLElement, detail: PreviewItemDetail): void {
 		const itemDiv = container.createDiv({ cls: 'upload-preview-item' });
 
 		// Item line
@@ -127,6 +170,37 @@ export class UploadPreviewModal extends Modal {
 			});
 		}
 
+		// Changed on both sides - let the user pick which version wins
+		if (detail.action === 'conflict' && detail.syncKey) {
+			this.renderConflictChoice(itemLine, detail.syncKey);
+		}
+
+		// Changed in Canvas only - the upload leaves it alone
+		if (detail.remoteChanged) {
+			itemLine.createEl('span', {
+				text: ' (changed in Canvas since last sync - re-download to get it)',
+				cls: 'mod-muted'
+			});
+		}
+
+		// Move from another module
+		if (detail.move) {
+			const moveBadge = itemLine.createEl('span', {
+				cls: 'upload-preview-badge upload-preview-badge-move'
+			});
+			moveBadge.setText('MOVE');
+
+			itemLine.createEl('span', {
+				text: ` (from ${detail.move.fromModule})`,
+				cls: 'mod-muted'
+			});
+		}
+
+		// Position change within the module
+		if (detail.positionChange) {
+			this.renderPositionChange(itemLine, detail.positionChange);
+		}
+
 		// Metadata
 		if (detail.metadata && Object.keys(detail.metadata).length > 0) {
 			const metadataDiv = itemDiv.createDiv({ cls: 'upload-preview-metadata' });
@@ -138,35 +212,238 @@ export class UploadPreviewModal extends Modal {
 				});
 			}
 		}
+
+		// Canvas vs. local text of the changed fields
+		if (detail.diffs && detail.diffs.length > 0) {
+			this.renderDiffToggle(itemDiv, detail.diffs);
+		}
+	}
+
+	/**
+	 * Render a collapsed "Show diff" toggle that expands to a side-by-side diff per changed field
+	 */
+	private renderDiffToggle(container: HTMLElement, diffs: FieldDiff[]): void {
+		const toggle = container.createEl('a', { text: 'Show diff', cls: 'upload-preview-diff-toggle' });
+		const diffDiv = container.createDiv({ cls: 'upload-preview-diff' });
+		diffDiv.hide();
+
+		let rendered = false;
+		toggle.addEventListener('click', (event) => {
+			event.preventDefault();
+			if (!rendered) {
+				for (const diff of diffs) {
+					this.renderFieldDiff(diffDiv, diff);
+				}
+				rendered = true;
+			}
+			diffDiv.toggle(!diffDiv.isShown());
+			toggle.setText(diffDiv.isShown() ? 'Hide diff' : 'Show diff');
+		});
+	}
+
+	/**
+	 * Render one field as a two-column table: Canvas on the left, local markdown on the right
+	 */
+	private renderFieldDiff(container: HTMLElement, diff: FieldDiff): void {
+		container.createEl('div', { text: diff.field, cls: 'upload-preview-diff-field' });
+
+		const table = container.createEl('table', { cls: 'upload-preview-diff-table' });
+		const head = table.createEl('tr');
+		head.createEl('th', { text: 'Canvas' });
+		head.createEl('th', { text: 'Local' });
+
+		for (const row of toSideBySide(diffLines(diff.remote, diff.local))) {
+			const tr = table.createEl('tr', { cls: `upload-preview-diff-${row.type}` });
+			tr.createEl('td', { text: row.left ?? '', cls: row.left === undefined ? 'upload-preview-diff-empty' : '' });
+			tr.createEl('td', { text: row.right ?? '', cls: row.right === undefined ? 'upload-preview-diff-empty' : '' });
+		}
+	}
+
+	/**
+	 * Render the keep-local / keep-remote / skip picker for a conflicting item
+	 */
+	private renderConflictChoice(container: HTMLElement, syncKey: string): void {
+		const select = container.createEl('select', { cls: 'dropdown upload-preview-conflict-choice' });
+		const choices: Array<[ConflictResolution, string]> = [
+			['skip', 'Skip'],
+			['local', 'Keep local (overwrite Canvas)'],
+			['remote', 'Keep Canvas (replace local block)']
+		];
+
+		for (const [value, label] of choices) {
+			select.createEl('option', { value, text: label });
+		}
+
+		this.resolutions[syncKey] = 'skip';
+		select.addEventListener('change', () => {
+			this.resolutions[syncKey] = select.value as ConflictResolution;
+		});
+	}
+
+	/**
+	 * Render the vault files referenced from the markdown and a picker for their Canvas folder
+	 */
+	private renderFiles(container: HTMLElement): void {
+		const section = container.createDiv({ cls: 'upload-preview-module' });
+		const header = section.createDiv({ cls: 'upload-preview-module-header' });
+		header.createEl('strong', { text: 'Vault files' });
+
+		const folders = [...this.preview.folders].sort((a, b) => a.full_name.localeCompare(b.full_name));
+		// Images always go to obsidian-assets; only other files need a folder
+		if (folders.length > 0 && this.preview.files.some(file => !file.assetName && file.existingFileId === undefined)) {
+			const root = folders.find(folder => folder.parent_folder_id === null) ?? folders[0];
+			this.fileFolderId = root.id;
+
+			new Setting(section)
+				.setName('Upload into')
+				.setDesc('Course folder for new files. A file with the same name there is replaced.')
+				.addDropdown(dropdown => {
+					for (const folder of folders) {
+						dropdown.addOption(String(folder.id), folder.full_name);
+					}
+					dropdown.setValue(String(root.id));
+					dropdown.onChange(value => {
+						this.fileFolderId = Number(value);
+					});
+				});
+		}
+
+		for (const file of this.preview.files) {
+			const itemLine = section.createDiv({ cls: 'upload-preview-item' })
+				.createDiv({ cls: 'upload-preview-item-line' });
+			itemLine.createEl('span', { text: '  • ', cls: 'upload-preview-bullet' });
+			itemLine.createEl('span', {
+				text: `[${file.assetName ? 'image' : 'file'}] ${file.attachment.path}`,
+				cls: 'upload-preview-item-title'
+			});
+
+			const action = file.existingFileId === undefined ? 'create' : 'skip';
+			const badge = itemLine.createEl('span', { cls: `upload-preview-badge upload-preview-badge-${action}` });
+			badge.setText(action === 'create' ? 'UPLOAD' : 'SKIP');
+
+			const context = file.assetName
+				? action === 'create' ? `${formatSize(file.attachment.size)}, to obsidian-assets` : 'already in Canvas'
+				: action === 'create' ? formatSize(file.attachment.size) : 'already in Canvas with the same name and size';
+			itemLine.createEl('span', { text: ` (${context})`, cls: 'mod-muted' });
+		}
+	}
+
+	/**
+	 * Render Canvas objects that were removed from the markdown, each with its own checkbox
+	 */
+	private renderDeletions(container: HTMLElement): void {
+		const section = container.createDiv({ cls: 'upload-preview-module' });
+		const header = section.createDiv({ cls: 'upload-preview-module-header upload-preview-deletions-header' });
+		header.createEl('strong', { text: 'Not in the markdown anymore' });
+		header.createEl('div', {
+			text: 'Tick each item you want deleted from Canvas. Nothing is deleted unless selected.',
+			cls: 'mod-muted'
+		});
+
+		for (const deletion of this.preview.deletions) {
+			const itemDiv = section.createDiv({ cls: 'upload-preview-item' });
+			const itemLine = itemDiv.createEl('label', { cls: 'upload-preview-item-line' });
+
+			const checkbox = itemLine.createEl('input', { type: 'checkbox' });
+			checkbox.disabled = deletion.blockedReason !== undefined;
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selectedDeletions.add(deletion);
+				} else {
+					this.selectedDeletions.delete(deletion);
+				}
+			});
+
+			itemLine.createEl('span', {
+				text: `[${deletion.kind.replace('_', ' ')}] ${deletion.title}`,
+				cls: 'upload-preview-item-title'
+			});
+
+			const badge = itemLine.createEl('span', {
+				cls: 'upload-preview-badge upload-preview-badge-delete'
+			});
+			badge.setText('DELETE');
+
+			const context = deletion.blockedReason
+				? `blocked: ${deletion.blockedReason}`
+				: deletion.kind === 'module_item'
+					? `from ${deletion.moduleTitle}`
+					: deletion.kind !== 'module'
+						? `content, was in ${deletion.moduleTitle}`
+						: 'module and its items';
+			itemLine.createEl('span', { text: ` (${context})`, cls: 'mod-muted' });
+		}
+	}
+
+	/**
+	 * Render a reorder badge with the old and new position
+	 */
+	private renderPositionChange(container: HTMLElement, change: PositionChange): void {
+		const badge = container.createEl('span', {
+			cls: 'upload-preview-badge upload-preview-badge-reorder'
+		});
+		badge.setText('REORDER');
+
+		container.createEl('span', {
+			text: ` (position ${change.from} → ${change.to})`,
+			cls: 'mod-muted'
+		});
 	}
 
 	/**
 	 * Calculate totals for summary
 	 */
-	private calculateTotals(): { create: number; update: number; skip: number } {
+	private calculateTotals(): {
+		create: number;
+		update: number;
+		conflict: number;
+		move: number;
+		reorder: number;
+		skip: number;
+	} {
 		let create = 0;
 		let update = 0;
+		let conflict = 0;
+		let move = 0;
+		let reorder = 0;
 		let skip = 0;
 
-		for (const item of this.preview) {
+		for (const item of this.preview.modules) {
 			// Count module action
 			if (item.modulAction === 'create') create++;
 			else if (item.modulAction === 'update') update++;
 			else if (item.modulAction === 'skip') skip++;
+			if (item.modulePositionChange) reorder++;
 
 			// Count item actions
 			for (const detail of item.items) {
 				if (detail.action === 'create') create++;
 				else if (detail.action === 'update') update++;
+				else if (detail.action === 'conflict') conflict++;
 				else if (detail.action === 'skip') skip++;
+				if (detail.move) move++;
+				if (detail.positionChange) reorder++;
 			}
 		}
 
-		return { create, update, skip };
+		return { create, update, conflict, move, reorder, skip };
 	}
 
 	onClose(): void {
 		const { contentEl } = this;
 		contentEl.empty();
+
+		if (!this.confirmed && this.onCancel) {
+			this.onCancel();
+		}
 	}
 }
+
+/**
+ * Human-readable file size
+ */
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
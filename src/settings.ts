@@ -1,14 +1,21 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type CanvaslmsHelperPlugin from './main';
+import type { CourseLayout } from './upload/types';
 
 export interface PluginSettings {
 	canvasUrl: string;
 	canvasToken: string;
+	downloadFiles: boolean;
+	downloadConcurrency: number;
+	layout: CourseLayout;
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
 	canvasUrl: '',
-	canvasToken: ''
+	canvasToken: '',
+	downloadFiles: false,
+	downloadConcurrency: 4,
+	layout: 'file'
 };
 
 export class SettingsTab extends PluginSettingTab {
@@ -54,5 +61,39 @@ export class SettingsTab extends PluginSettingTab {
 				// Make it a password field
 				text.inputEl.type = 'password';
 			});
+
+		new Setting(containerEl)
+			.setName('Download course files')
+			.setDesc('Also save the course files into a folder next to the course file, mirroring the Canvas folders. Unchanged files are skipped on re-download.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.downloadFiles)
+				.onChange(async (value) => {
+					this.plugin.settings.downloadFiles = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Course layout')
+			.setDesc('How new downloads are saved: one course file, or a course folder with an index note and a note per page, assignment, discussion and quiz. Re-downloads keep the layout a course already has.')
+			.addDropdown(dropdown => dropdown
+				.addOption('file', 'One course file')
+				.addOption('folder', 'Folder with a note per item')
+				.setValue(this.plugin.settings.layout)
+				.onChange(async (value) => {
+					this.plugin.settings.layout = value as CourseLayout;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel requests')
+			.setDesc('How many Canvas requests a download makes at once. Lower it if your Canvas instance rate-limits you.')
+			.addSlider(slider => slider
+				.setLimits(1, 10, 1)
+				.setValue(this.plugin.settings.downloadConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.downloadConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
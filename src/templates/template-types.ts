@@ -45,7 +45,7 @@ export interface DiscussionData {
 }
 
 export interface InternalLinkData {
-	type: 'Page' | 'Assignment' | 'Discussion' | 'File';
+	type: 'Page' | 'Assignment' | 'Discussion' | 'Quiz' | 'File';
 	name: string;
 }
 
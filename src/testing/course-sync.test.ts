@@ -0,0 +1,362 @@
+import { FakeCanvas, FAKE_CANVAS_URL } from './fake-canvas';
+import { CanvasApiClient } from '../canvas/api-client';
+import { CanvasCourseFormatter } from '../canvas/formatter';
+import { fetchCourse } from '../canvas/course-fetcher';
+import { MarkdownParser, ParseError } from '../upload/parser';
+import { CourseUploader } from '../upload/uploader';
+import { applyIdUpdates } from '../upload/id-writeback';
+import { patchCourseFile, patchedNotes, patchItemNote } from '../upload/upload-results';
+import { buildSnapshot } from '../upload/snapshot';
+import { buildPage } from '../templates/template-builders';
+import { readFrontmatter } from '../utils/frontmatter-utils';
+import type { CourseSnapshot } from '../upload/snapshot';
+import type { SendRequest } from '../canvas/transport';
+import type { AttachmentResolver, CourseNote, UploadPreview } from '../upload/types';
+
+let canvas: FakeCanvas;
+
+const COURSE_ID = '1';
+
+/**
+ * A course with two modules, content outside modules and a file
+ */
+function seedCourse(): FakeCanvas {
+	const course = new FakeCanvas(Number(COURSE_ID), 'Biology 101');
+	course.maxPerPage = 2;
+
+	const week1 = course.addModule('Week 1');
+	course.addPage('Welcome', '<p>Welcome to the course.</p>', week1);
+	course.addAssignment('Lab Report', '<p>Write up the lab.</p>', { points_possible: 10 }, week1);
+	course.addDiscussion('Introductions', '<p>Say hello.</p>', {}, week1);
+
+	const week2 = course.addModule('Week 2');
+	course.addPage('Cells', '<p>All about cells.</p>', week2);
+
+	course.addPage('Syllabus', '<p>Course rules.</p>');
+	course.addFile('handout.pdf', 'handout bytes', 'application/pdf');
+
+	return course;
+}
+
+/**
+ * Download the course the way the plugin does, returning the markdown and its snapshot
+ */
+async function download(): Promise<{ markdown: string; snapshot: CourseSnapshot }> {
+	const client = new CanvasApiClient(FAKE_CANVAS_URL, 'token', canvas.send);
+	const { modules, itemsData } = await fetchCourse(client, COURSE_ID, 2);
+	const markdown = new CanvasCourseFormatter().formatCourse(COURSE_ID, FAKE_CANVAS_URL, modules, itemsData);
+	return { markdown, snapshot: buildSnapshot(itemsData) };
+}
+
+/**
+ * Download the course in the folder layout: an index note and a note per item
+ */
+async function downloadFolder(): Promise<{ index: string; notes: CourseNote[]; snapshot: CourseSnapshot }> {
+	const client = new CanvasApiClient(FAKE_CANVAS_URL, 'token', canvas.send);
+	const { modules, itemsData } = await fetchCourse(client, COURSE_ID, 2);
+	const { index, notes } = new CanvasCourseFormatter().formatCourseFolder(COURSE_ID, FAKE_CANVAS_URL, modules, itemsData);
+	return { index, notes, snapshot: buildSnapshot(itemsData) };
+}
+
+function uploader(snapshot: CourseSnapshot, resolve?: AttachmentResolver): CourseUploader {
+	const courseUploader = new CourseUploader(FAKE_CANVAS_URL, 'token', COURSE_ID, canvas.send);
+	courseUploader.setBaseSnapshot(snapshot);
+	courseUploader.setAttachmentResolver(resolve);
+	return courseUploader;
+}
+
+function parse(markdown: string) {
+	return new MarkdownParser(markdown).parse().modules;
+}
+
+function parseFolder(index: string, notes: CourseNote[]) {
+	return new MarkdownParser(index, link => notes.find(note => note.path === `${link}.md`) ?? null).parse().modules;
+}
+
+/**
+ * "[type] Title: action" for every item in a preview
+ */
+function actions(preview: UploadPreview): string[] {
+	return preview.modules.flatMap(module => module.items.map(item => `[${item.type}] ${item.title}: ${item.action}`));
+}
+
+/**
+ * Vault with a single attachment
+ */
+const vault: AttachmentResolver = (link) => link === 'slides.pdf'
+	? { name: 'slides.pdf', path: 'slides.pdf', size: 11, read: async () => new TextEncoder().encode('slide bytes').buffer as ArrayBuffer }
+	: null;
+
+beforeEach(() => {
+	canvas = seedCourse();
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+	jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('download', () => {
+	it('writes every module, item and ID into the course file', async () => {
+		const { markdown } = await download();
+		const modules = parse(markdown);
+
+		expect(modules.map(module => module.title)).toEqual(['Week 1', 'Week 2', 'Unmoduled Content', 'Course Files']);
+		expect(modules[0].items.map(item => `[${item.type}] ${item.title}`)).toEqual([
+			'[page] Welcome',
+			'[assignment] Lab Report',
+			'[discussion] Introductions'
+		]);
+		expect(modules[0].canvasModuleId).toBe(canvas.modules[0].id);
+		expect(modules[2].items.map(item => item.title)).toEqual(['Syllabus']);
+		expect(markdown).toContain('Welcome to the course.');
+		expect(markdown).toContain('handout.pdf');
+	});
+
+	it('follows Link headers through every page of a list', async () => {
+		const { markdown } = await download();
+
+		// Four pages, two per page of results
+		expect(canvas.requests.filter(request => /\/pages\?/.test(request.url)).map(request => request.url))
+			.toEqual([expect.stringContaining('per_page=100'), expect.stringMatching(/[?&]page=2/)]);
+		for (const title of ['Welcome', 'Cells', 'Syllabus']) {
+			expect(markdown).toContain(`## [page] ${title}`);
+		}
+	});
+
+	it('marks the sections for content outside modules, not modules named like them', async () => {
+		const named = canvas.addModule('Course Files');
+		canvas.addPage('Lab Rules', '<p>No food.</p>', named);
+
+		const { markdown, snapshot } = await download();
+		const modules = parse(markdown);
+		const summary = (parsed: typeof modules) => parsed.map(module => `${module.title}${module.section ? ` (${module.section})` : ''}`);
+		expect(summary(modules)).toEqual(['Week 1', 'Week 2', 'Course Files', 'Unmoduled Content (content)', 'Course Files (files)']);
+		expect(modules[2].canvasModuleId).toBe(named.id);
+
+		// Downloads from before the marker are still read as sections
+		const legacy = parse(markdown.replace(/\n<!-- canvas_section: \w+ -->/g, ''));
+		expect(summary(legacy)).toEqual(summary(modules));
+
+		// The module named "Course Files" is previewed; only the files section is left out
+		const preview = await uploader(snapshot).generatePreview(modules);
+		expect(preview.modules.map(module => module.moduleTitle)).toEqual(['Week 1', 'Week 2', 'Course Files', 'Unmoduled Content']);
+		expect(actions(preview)).toContain('[page] Lab Rules: skip');
+		const stats = await uploader(snapshot).upload(modules);
+		expect(stats.errors).toEqual([]);
+		expect(canvas.itemsOf(named.id).map(item => item.title)).toEqual(['Lab Rules']);
+	});
+});
+
+describe('download, edit, preview, upload, re-download', () => {
+	it('round-trips local edits through Canvas', async () => {
+		const { markdown, snapshot } = await download();
+
+		// Edit a page, and add one that embeds a vault file
+		const edited = markdown
+			.replace('Welcome to the course.', 'Welcome to Biology 101!')
+			.replace('\n# Week 2\n', `${buildPage({ title: 'Lab Safety' })}Wear goggles. ![[slides.pdf]]\n\n# Week 2\n`);
+		const modules = parse(edited);
+
+		// Preview: only the edited and the new page change
+		const preview = await uploader(snapshot, vault).generatePreview(modules);
+		expect(actions(preview)).toEqual(expect.arrayContaining([
+			'[page] Welcome: update',
+			'[assignment] Lab Report: skip',
+			'[discussion] Introductions: skip',
+			'[page] Lab Safety: create',
+			'[page] Cells: skip'
+		]));
+		expect(preview.files.map(file => file.attachment.name)).toEqual(['slides.pdf']);
+
+		// Upload
+		const stats = await uploader(snapshot, vault).upload(modules);
+		expect(stats.errors).toEqual([]);
+		expect(stats.itemsUpdated).toBe(1);
+		expect(stats.filesUploaded).toBe(1);
+
+		expect(canvas.findPage('welcome').body).toContain('Welcome to Biology 101!');
+		const labSafety = canvas.pages.find(page => page.title === 'Lab Safety')!;
+		const slides = canvas.files.find(file => file.display_name === 'slides.pdf')!;
+		expect(labSafety.body).toContain(`/courses/${COURSE_ID}/files/${slides.id}`);
+		expect(canvas.itemsOf(canvas.modules[0].id).map(item => item.title))
+			.toEqual(['Welcome', 'Lab Report', 'Introductions', 'Lab Safety']);
+
+		// The new Canvas IDs go back into the file, so uploading again changes nothing
+		const synced = applyIdUpdates(edited, stats.createdIds);
+		const nextSnapshot: CourseSnapshot = { ...snapshot, items: { ...snapshot.items } };
+		for (const [key, entry] of Object.entries(stats.snapshotEntries)) {
+			if (entry) nextSnapshot.items[key] = entry;
+		}
+		const again = await uploader(nextSnapshot, vault).generatePreview(parse(synced));
+		expect(actions(again).filter(action => !action.endsWith(': skip'))).toEqual([]);
+
+		// Re-download: Canvas now holds the edits
+		const redownloaded = parse((await download()).markdown);
+		const week1 = redownloaded[0];
+		expect(week1.items.map(item => item.title)).toEqual(['Welcome', 'Lab Report', 'Introductions', 'Lab Safety']);
+		expect(week1.items[3].canvasModuleItemId).toBe(parse(synced)[0].items[3].canvasModuleItemId);
+	});
+
+	it('fails instead of creating items again when their Canvas list cannot load', async () => {
+		const { markdown, snapshot } = await download();
+
+		const failAssignments: SendRequest = async (request) => /\/assignments\?/.test(request.url)
+			? { status: 403, headers: {}, text: 'user not authorized', json: null, arrayBuffer: new ArrayBuffer(0) }
+			: canvas.send(request);
+		const courseUploader = new CourseUploader(FAKE_CANVAS_URL, 'token', COURSE_ID, failAssignments);
+		courseUploader.setBaseSnapshot(snapshot);
+
+		await expect(courseUploader.generatePreview(parse(markdown))).rejects.toThrow('Access denied');
+		await expect(courseUploader.upload(parse(markdown))).rejects.toThrow('Access denied');
+		expect(canvas.assignments).toHaveLength(1);
+	});
+
+	it('leaves Canvas edits alone when only Canvas changed', async () => {
+		const { markdown, snapshot } = await download();
+
+		const cells = canvas.findPage('cells');
+		cells.body = '<p>Cells, revised in Canvas.</p>';
+		canvas.touch(cells);
+
+		const modules = parse(markdown);
+		const preview = await uploader(snapshot).generatePreview(modules);
+		expect(actions(preview)).toContain('[page] Cells: skip');
+
+		const stats = await uploader(snapshot).upload(modules);
+		expect(stats.errors).toEqual([]);
+		expect(stats.itemsUpdated).toBe(0);
+		expect(cells.body).toBe('<p>Cells, revised in Canvas.</p>');
+	});
+});
+
+describe('folder layout', () => {
+	it('reads the same course from the index note and item notes', async () => {
+		const { index, notes } = await downloadFolder();
+		const summary = (modules: ReturnType<typeof parse>) => modules.map(module =>
+			`${module.title}: ${module.items.map(item => `[${item.type}] ${item.title}`).join(', ')}`);
+
+		expect(index).toContain('canvas_layout: folder');
+		expect(notes.map(note => note.path)).toEqual(expect.arrayContaining(['Week 1/Welcome.md', 'Week 2/Cells.md']));
+		expect(summary(parseFolder(index, notes))).toEqual(summary(parse((await download()).markdown)));
+	});
+
+	it('uploads edited and new item notes and writes IDs into their frontmatter', async () => {
+		const { index, notes, snapshot } = await downloadFolder();
+
+		const welcome = notes.find(note => note.path === 'Week 1/Welcome.md')!;
+		welcome.content = welcome.content.replace('Welcome to the course.', 'Welcome to Biology 101!');
+		notes.push({ path: 'Week 1/Lab Safety.md', content: '---\ncanvas_type: page\n---\n\nWear goggles.\n' });
+		const edited = index.replace('- [[Week 1/Welcome', '- [[Week 1/Lab Safety]]\n- [[Week 1/Welcome');
+
+		const modules = parseFolder(edited, notes);
+		expect(actions(await uploader(snapshot).generatePreview(modules))).toEqual(expect.arrayContaining([
+			'[page] Lab Safety: create',
+			'[page] Welcome: update',
+			'[page] Cells: skip'
+		]));
+
+		const stats = await uploader(snapshot).upload(modules);
+		expect(stats.errors).toEqual([]);
+		expect(canvas.findPage('welcome').body).toContain('Welcome to Biology 101!');
+		expect(canvas.itemsOf(canvas.modules[0].id)[0].title).toBe('Lab Safety');
+
+		// IDs of the new page go into its note, not the index
+		expect(patchCourseFile(edited, stats)).toBe(edited);
+		expect(patchedNotes(stats)).toEqual(['Week 1/Lab Safety.md']);
+		const labSafety = notes[notes.length - 1];
+		labSafety.content = patchItemNote(labSafety.path, labSafety.content, stats);
+		expect(labSafety.content).toMatch(/^---\ncanvas_type: page\ncanvas_page_id: lab-safety\ncanvas_module_item_id: \d+\n---\n/);
+
+		const nextSnapshot: CourseSnapshot = { ...snapshot, items: { ...snapshot.items } };
+		for (const [key, entry] of Object.entries(stats.snapshotEntries)) {
+			if (entry) nextSnapshot.items[key] = entry;
+		}
+		const again = await uploader(nextSnapshot).generatePreview(parseFolder(edited, notes));
+		expect(actions(again).filter(action => !action.endsWith(': skip'))).toEqual([]);
+	});
+
+	it('reads nested frontmatter of item notes and reports malformed frontmatter', async () => {
+		const { index, notes } = await downloadFolder();
+		const lab = notes.find(note => note.path === 'Week 1/Lab Report.md')!;
+
+		lab.content = lab.content.replace(/\n---\n/, '\nextra:\n  owner: Dr. Lee\n  tags: [lab]\n---\n');
+		expect(readFrontmatter(lab.content)!.fields).toMatchObject({ canvas_type: 'assignment', extra: { owner: 'Dr. Lee', tags: ['lab'] } });
+		expect(parseFolder(index, notes)[0].items[1]).toMatchObject({ type: 'assignment', title: 'Lab Report', pointsPossible: 10 });
+
+		lab.content = lab.content.replace('  owner: Dr. Lee', '  owner: Dr. Lee\n owner: twice');
+		expect(() => parseFolder(index, notes)).toThrow(ParseError);
+		expect(() => parseFolder(index, notes)).toThrow('in the frontmatter of "Lab Report"');
+	});
+});
+
+describe('metadata blocks', () => {
+	it('uploads settings from a ```canvas block in place of the legacy lines', async () => {
+		const { markdown, snapshot } = await download();
+
+		const edited = markdown.replace(/(<!-- canvas_assignment_id: \d+ -->\n(?:<!--.*-->\n)*)[\s\S]*?\n---\n/, [
+			'$1```canvas',
+			'points: 25',
+			'due: 2026-01-20 11:59pm',
+			'submission_types: [online_upload]',
+			'```',
+			'grade_display: percent',
+			''
+		].join('\n'));
+		const lab = parse(edited)[0].items[1];
+		expect(lab).toMatchObject({
+			type: 'assignment',
+			pointsPossible: 25,
+			submissionTypes: ['online_upload'],
+			description: expect.stringMatching(/^grade_display: percent\n/)
+		});
+
+		const stats = await uploader(snapshot).upload(parse(edited));
+		expect(stats.errors).toEqual([]);
+		expect(canvas.assignments[0].points_possible).toBe(25);
+	});
+
+	it('makes a page the front page, and downloads it with its block', async () => {
+		const { markdown, snapshot } = await download();
+
+		const edited = markdown.replace(/(## \[page\] Cells\n(?:<!--.*-->\n)*)/, '$1```canvas\nfront_page: true\n```\n');
+		const preview = await uploader(snapshot).generatePreview(parse(edited));
+		expect(preview.modules[1].items[0]).toMatchObject({ title: 'Cells', action: 'update', changedFields: ['front_page'] });
+
+		await uploader(snapshot).upload(parse(edited));
+		expect(canvas.findPage('cells').front_page).toBe(true);
+
+		const redownloaded = (await download()).markdown;
+		expect(redownloaded).toMatch(/## \[page\] Cells\n(<!--.*-->\n)+```canvas\nfront_page: true\n```\nAll about cells\./);
+		expect(parse(redownloaded)[1].items[0]).toMatchObject({ frontPage: true, body: expect.stringMatching(/^All about cells\./) });
+	});
+
+	it('keeps overrides and rubric keys out of the upload and says where to set them', async () => {
+		const { markdown } = await download();
+		const edited = markdown.replace(/(## \[assignment\] Lab Report\n(?:<!--.*-->\n)*)[\s\S]*?\n---\n/, [
+			'$1```canvas',
+			'points: 10',
+			'overrides:',
+			'  - section: Section A',
+			'    due: 2026-01-22',
+			'rubric:',
+			'  title: Lab Rubric',
+			'```',
+			''
+		].join('\n'));
+
+		expect(parse(edited)[0].items[1]).toMatchObject({ type: 'assignment', pointsPossible: 10 });
+		expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/"overrides" is not a setting of assignment items, so it is not uploaded; set due dates for sections and students in Canvas$/));
+		expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/"rubric" is not a setting of assignment items, .*"### \[rubric\]" table/));
+	});
+
+	it('reports a wrong setting with its line', async () => {
+		const { markdown } = await download();
+		const edited = markdown.replace(/(## \[page\] Cells\n(?:<!--.*-->\n)*)/, '$1```canvas\nfront_page: yes please\n```\n');
+		const line = edited.split('\n').indexOf('front_page: yes please');
+
+		expect(() => parse(edited)).toThrow(ParseError);
+		expect(() => parse(edited)).toThrow(`Line ${line + 1}: "front_page" must be true or false, not "yes please"`);
+	});
+});
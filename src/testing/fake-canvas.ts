@@ -0,0 +1,651 @@
+/**
+ * In-memory stand-in for the parts of the Canvas REST API the plugin uses
+ *
+ * FakeCanvas holds one course (modules and their items, pages, assignments, discussions,
+ * quizzes, files and folders) and answers requests through its send function, which
+ * the API clients take in place of a real transport. Lists are paginated with
+ * Link headers like Canvas does; maxPerPage keeps the pages small so tests cover that.
+ *
+ * It follows Canvas where the plugin depends on it (form-encoded writes, positions that
+ * shift when an item moves, discussions listed without their assignment, the three-step
+ * file upload) and keeps the rest simple: page URLs never change on rename, and nothing
+ * is enforced about permissions or publishing.
+ */
+
+import type { HttpRequest, HttpResponse, SendRequest } from '../canvas/transport';
+import type {
+	CanvasCourse,
+	CanvasModule,
+	CanvasModuleItem,
+	CanvasPage,
+	CanvasAssignment,
+	CanvasDiscussion,
+	CanvasQuiz,
+	CanvasQuizQuestion,
+	CanvasFile,
+	CanvasFolder
+} from '../canvas/types';
+
+export const FAKE_CANVAS_URL = 'https://canvas.test';
+
+interface Route {
+	method: HttpRequest['method'];
+	path: RegExp;
+	handle: (params: string[], query: URLSearchParams, form: Record<string, any>, request: HttpRequest) => HttpResponse;
+}
+
+interface UploadSlot {
+	folderId: number;
+	name: string;
+	contentType: string;
+}
+
+export class FakeCanvas {
+	readonly course: CanvasCourse;
+	modules: CanvasModule[] = [];
+	moduleItems: CanvasModuleItem[] = [];
+	pages: CanvasPage[] = [];
+	assignments: CanvasAssignment[] = [];
+	discussions: CanvasDiscussion[] = [];
+	quizzes: CanvasQuiz[] = [];
+	questions: CanvasQuizQuestion[] = [];
+	files: CanvasFile[] = [];
+	folders: CanvasFolder[] = [];
+
+	// Every request received, for assertions
+	readonly requests: HttpRequest[] = [];
+
+	maxPerPage = 100;
+
+	private nextId = 100;
+	private clock = Date.parse('2026-01-05T09:00:00Z');
+	private contents = new Map<number, ArrayBuffer>();
+	private uploads = new Map<string, UploadSlot>();
+	private routes: Route[];
+
+	constructor(courseId = 1, name = 'Test Course') {
+		this.course = { id: courseId, name, course_code: `TEST-${courseId}` };
+		this.folders.push(this.folder('course files', null));
+		this.routes = this.buildRoutes();
+	}
+
+	/**
+	 * Answer a request the way Canvas would (a SendRequest for CanvasTransport)
+	 */
+	send: SendRequest = async (request) => {
+		this.requests.push(request);
+
+		const url = new URL(request.url);
+		const form = typeof request.body === 'string' ? parseForm(request.body) : {};
+
+		for (const route of this.routes) {
+			const match = route.method === request.method ? url.pathname.match(route.path) : null;
+			if (!match) continue;
+
+			try {
+				return route.handle(match.slice(1).map(decodeURIComponent), url.searchParams, form, request);
+			} catch (error) {
+				if (error instanceof NotFound) return jsonResponse(404, { errors: [{ message: 'The specified resource does not exist.' }] });
+				throw error;
+			}
+		}
+
+		return jsonResponse(404, { errors: [{ message: `No route for ${request.method} ${url.pathname}` }] });
+	};
+
+	/**
+	 * SEEDING
+	 */
+
+	addModule(name: string): CanvasModule {
+		const module: CanvasModule = {
+			id: this.id(),
+			name,
+			position: this.modules.length + 1,
+			items_count: 0,
+			items_url: ''
+		};
+		module.items_url = `${FAKE_CANVAS_URL}/api/v1/courses/${this.course.id}/modules/${module.id}/items`;
+		this.modules.push(module);
+		return module;
+	}
+
+	addPage(title: string, body: string, module?: CanvasModule): CanvasPage {
+		const page: CanvasPage = {
+			page_id: this.id(),
+			url: this.pageUrl(title),
+			title,
+			body,
+			created_at: this.now(),
+			updated_at: this.now()
+		};
+		this.pages.push(page);
+		if (module) this.addModuleItem(module.id, { type: 'Page', title, page_url: page.url });
+		return page;
+	}
+
+	/**
+	 * Make a page the front page, taking over from the current one
+	 */
+	setFrontPage(page: CanvasPage): void {
+		for (const other of this.pages) {
+			if (other.front_page) other.front_page = false;
+		}
+		page.front_page = true;
+	}
+
+	addAssignment(name: string, description: string, fields: Partial<CanvasAssignment> = {}, module?: CanvasModule): CanvasAssignment {
+		const assignment: CanvasAssignment = {
+			id: this.id(),
+			name,
+			description,
+			due_at: null,
+			points_possible: null,
+			grading_type: 'points',
+			submission_types: ['online_text_entry'],
+			has_submitted_submissions: false,
+			updated_at: this.now(),
+			...fields
+		};
+		this.assignments.push(assignment);
+		if (module) this.addModuleItem(module.id, { type: 'Assignment', title: name, content_id: assignment.id });
+		return assignment;
+	}
+
+	addDiscussion(title: string, message: string, fields: Partial<CanvasDiscussion> = {}, module?: CanvasModule): CanvasDiscussion {
+		const discussion: CanvasDiscussion = {
+			id: this.id(),
+			title,
+			message,
+			discussion_type: 'side_comment',
+			posted_at: this.now(),
+			require_initial_post: false,
+			...fields
+		};
+		this.discussions.push(discussion);
+		if (module) this.addModuleItem(module.id, { type: 'Discussion', title, content_id: discussion.id });
+		return discussion;
+	}
+
+	addFile(name: string, content: string | ArrayBuffer, contentType = 'application/octet-stream', folderId = this.rootFolder().id): CanvasFile {
+		const data = typeof content === 'string' ? new TextEncoder().encode(content).buffer as ArrayBuffer : content;
+		const id = this.id();
+		const file: CanvasFile = {
+			id,
+			uuid: `uuid-${id}`,
+			display_name: name,
+			filename: name,
+			url: `${FAKE_CANVAS_URL}/files/${id}/download?download_frd=1&verifier=v${id}`,
+			size: data.byteLength,
+			'content-type': contentType,
+			folder_id: folderId,
+			created_at: this.now(),
+			updated_at: this.now()
+		};
+		this.files.push(file);
+		this.contents.set(id, data);
+		return file;
+	}
+
+	addModuleItem(moduleId: number, fields: Partial<CanvasModuleItem> & Pick<CanvasModuleItem, 'type' | 'title'>): CanvasModuleItem {
+		const module = this.findModule(moduleId);
+		const item: CanvasModuleItem = {
+			id: this.id(),
+			module_id: moduleId,
+			position: this.itemsOf(moduleId).length + 1,
+			indent: 0,
+			...fields
+		};
+		this.moduleItems.push(item);
+		module.items_count++;
+		if (fields.position) this.reposition(this.itemsOf(moduleId), item, fields.position);
+		return item;
+	}
+
+	/**
+	 * LOOKUPS
+	 */
+
+	itemsOf(moduleId: number): CanvasModuleItem[] {
+		return this.moduleItems
+			.filter(item => item.module_id === moduleId)
+			.sort((a, b) => a.position - b.position);
+	}
+
+	findPage(url: string): CanvasPage {
+		return found(this.pages.find(page => page.url === url || String(page.page_id) === url));
+	}
+
+	rootFolder(): CanvasFolder {
+		return this.folders[0];
+	}
+
+	/**
+	 * Stand in for an edit made in the Canvas web interface: a later updated_at
+	 */
+	touch(object: { updated_at?: string }): void {
+		object.updated_at = this.now();
+	}
+
+	/**
+	 * ROUTES
+	 */
+
+	private buildRoutes(): Route[] {
+		const course = String.raw`/api/v1/courses/(\d+)`;
+		const route = (method: Route['method'], path: string, handle: Route['handle']): Route =>
+			({ method, path: new RegExp(`^${path}$`), handle });
+
+		return [
+			route('GET', '/api/v1/courses', (_, query) => this.list([this.course], query)),
+			route('GET', course, ([courseId]) => this.json(this.checkCourse(courseId))),
+
+			// Modules
+			route('GET', `${course}/modules`, ([courseId], query) => {
+				this.checkCourse(courseId);
+				const withItems = query.getAll('include[]').includes('items');
+				const modules = [...this.modules].sort((a, b) => a.position - b.position)
+					.map(module => withItems ? { ...module, items: this.itemsOf(module.id).map(item => this.itemJson(item)) } : module);
+				return this.list(modules, query);
+			}),
+			route('POST', `${course}/modules`, (_, __, form) => {
+				const module = this.addModule(form.module.name);
+				if (form.module.position) this.reposition(this.modules, module, number(form.module.position)!);
+				return this.json(module);
+			}),
+			route('PUT', `${course}/modules/(\\d+)`, ([, id], __, form) => {
+				const module = this.findModule(number(id)!);
+				if (form.module.name !== undefined) module.name = form.module.name;
+				if (form.module.position !== undefined) this.reposition(this.modules, module, number(form.module.position)!);
+				return this.json(module);
+			}),
+			route('DELETE', `${course}/modules/(\\d+)`, ([, id]) => {
+				const module = this.findModule(number(id)!);
+				this.modules = this.modules.filter(m => m !== module);
+				this.moduleItems = this.moduleItems.filter(item => item.module_id !== module.id);
+				renumber(this.modules);
+				return this.json(module);
+			}),
+
+			// Module items
+			route('GET', `${course}/modules/(\\d+)/items`, ([, moduleId], query) =>
+				this.list(this.itemsOf(this.findModule(number(moduleId)!).id).map(item => this.itemJson(item)), query)),
+			route('POST', `${course}/modules/(\\d+)/items`, ([, moduleId], __, form) => {
+				const params = form.module_item;
+				const item = this.addModuleItem(number(moduleId)!, {
+					type: params.type,
+					title: params.title ?? this.contentTitle(params),
+					content_id: number(params.content_id),
+					page_url: params.page_url,
+					external_url: params.external_url,
+					indent: number(params.indent) ?? 0,
+					position: number(params.position)
+				});
+				return this.json(this.itemJson(item));
+			}),
+			route('PUT', `${course}/modules/(\\d+)/items/(\\d+)`, ([, moduleId, id], __, form) => {
+				const item = this.findItem(number(moduleId)!, number(id)!);
+				const params = form.module_item;
+				if (params.title !== undefined) item.title = params.title;
+				if (params.indent !== undefined) item.indent = number(params.indent)!;
+				if (params.position !== undefined) this.reposition(this.itemsOf(item.module_id), item, number(params.position)!);
+				return this.json(this.itemJson(item));
+			}),
+			route('DELETE', `${course}/modules/(\\d+)/items/(\\d+)`, ([, moduleId, id]) => {
+				const item = this.findItem(number(moduleId)!, number(id)!);
+				this.moduleItems = this.moduleItems.filter(i => i !== item);
+				this.findModule(item.module_id).items_count--;
+				renumber(this.itemsOf(item.module_id));
+				return this.json(this.itemJson(item));
+			}),
+
+			// Pages (the list leaves out bodies unless asked)
+			route('GET', `${course}/pages`, (_, query) => {
+				const withBodies = query.getAll('include[]').includes('body');
+				return this.list(this.pages.map(page => withBodies ? page : { ...page, body: undefined }), query);
+			}),
+			route('GET', `${course}/pages/([^/]+)`, ([, url]) => this.json(this.findPage(url))),
+			route('POST', `${course}/pages`, (_, __, form) => {
+				const page = this.addPage(form.wiki_page.title, form.wiki_page.body ?? '');
+				if (form.wiki_page.front_page) this.setFrontPage(page);
+				return this.json(page);
+			}),
+			route('PUT', `${course}/pages/([^/]+)`, ([, url], __, form) => {
+				const page = this.findPage(url);
+				assign(page, form.wiki_page, ['title', 'body']);
+				if (form.wiki_page.front_page) this.setFrontPage(page);
+				this.touch(page);
+				return this.json(page);
+			}),
+			route('DELETE', `${course}/pages/([^/]+)`, ([, url]) => {
+				const page = this.findPage(url);
+				this.pages = this.pages.filter(p => p !== page);
+				return this.json(page);
+			}),
+
+			// Assignments
+			route('GET', `${course}/assignments`, (_, query) => this.list(this.assignments, query)),
+			route('GET', `${course}/assignments/(\\d+)`, ([, id]) => this.json(this.findAssignment(number(id)!))),
+			route('POST', `${course}/assignments`, (_, __, form) => {
+				const params = form.assignment;
+				return this.json(this.addAssignment(params.name, params.description ?? '', {
+					points_possible: number(params.points_possible) ?? null,
+					due_at: params.due_at || null,
+					grading_type: params.grading_type ?? 'points',
+					submission_types: params.submission_types ?? ['none']
+				}));
+			}),
+			route('PUT', `${course}/assignments/(\\d+)`, ([, id], __, form) => {
+				const assignment = this.findAssignment(number(id)!);
+				this.updateAssignment(assignment, form.assignment);
+				return this.json(assignment);
+			}),
+			route('DELETE', `${course}/assignments/(\\d+)`, ([, id]) => {
+				const assignment = this.findAssignment(number(id)!);
+				this.assignments = this.assignments.filter(a => a !== assignment);
+				return this.json(assignment);
+			}),
+
+			// Discussions (graded ones carry their assignment only when fetched one by one)
+			route('GET', `${course}/discussion_topics`, (_, query) =>
+				this.list(this.discussions.map(discussion => ({ ...discussion, assignment: undefined })), query)),
+			route('GET', `${course}/discussion_topics/(\\d+)`, ([, id]) => this.json(this.discussionJson(this.findDiscussion(number(id)!)))),
+			route('POST', `${course}/discussion_topics`, (_, __, form) => {
+				const discussion = this.addDiscussion(form.title, form.message ?? '');
+				this.updateDiscussion(discussion, form);
+				return this.json(this.discussionJson(discussion));
+			}),
+			route('PUT', `${course}/discussion_topics/(\\d+)`, ([, id], __, form) => {
+				const discussion = this.findDiscussion(number(id)!);
+				this.updateDiscussion(discussion, form);
+				return this.json(this.discussionJson(discussion));
+			}),
+			route('DELETE', `${course}/discussion_topics/(\\d+)`, ([, id]) => {
+				const discussion = this.findDiscussion(number(id)!);
+				this.discussions = this.discussions.filter(d => d !== discussion);
+				return this.json(discussion);
+			}),
+
+			// Quizzes (read-only)
+			route('GET', `${course}/quizzes`, (_, query) => this.list(this.quizzes, query)),
+			route('GET', `${course}/quizzes/(\\d+)`, ([, id]) => this.json(found(this.quizzes.find(quiz => quiz.id === number(id))))),
+			route('GET', `${course}/quizzes/(\\d+)/questions`, ([, id], query) =>
+				this.list(this.questions.filter(question => question.quiz_id === number(id)), query)),
+
+			// Files and folders
+			route('GET', `${course}/folders`, (_, query) => this.list(this.folders, query)),
+			route('GET', `${course}/files`, (_, query) => this.list(this.files, query)),
+			route('GET', '/api/v1/folders/(\\d+)/files', ([id], query) =>
+				this.list(this.files.filter(file => file.folder_id === number(id)), query)),
+			route('GET', '/api/v1/files/(\\d+)', ([id]) => this.json(this.findFile(number(id)!))),
+			route('GET', '/files/(\\d+)/download', ([id]) => {
+				const file = this.findFile(number(id)!);
+				const data = found(this.contents.get(file.id));
+				return { status: 200, headers: { 'Content-Type': file['content-type'] }, text: '', json: null, arrayBuffer: data };
+			}),
+
+			// File uploads: ask for a slot, then send the bytes to it
+			route('POST', '/api/v1/folders/(\\d+)/files', ([id], __, form) =>
+				this.uploadSlot(found(this.folders.find(folder => folder.id === number(id))).id, form)),
+			route('POST', `${course}/files`, (_, __, form) =>
+				this.uploadSlot(this.folderAt(form.parent_folder_path ?? '').id, form)),
+			route('POST', '/uploads/([\\w-]+)', ([token], _, __, request) => {
+				const slot = found(this.uploads.get(token));
+				this.uploads.delete(token);
+				const data = fileFromMultipart(request.body);
+				const existing = this.files.find(file => file.folder_id === slot.folderId && file.display_name === slot.name);
+				if (existing) {
+					this.files = this.files.filter(file => file !== existing);
+				}
+				return this.json(this.addFile(slot.name, data, slot.contentType, slot.folderId), 201);
+			})
+		];
+	}
+
+	/**
+	 * HELPERS
+	 */
+
+	private id(): number {
+		return this.nextId++;
+	}
+
+	/**
+	 * A minute later than the last timestamp handed out
+	 */
+	private now(): string {
+		this.clock += 60_000;
+		return new Date(this.clock).toISOString();
+	}
+
+	private json(data: any, status = 200): HttpResponse {
+		return jsonResponse(status, data);
+	}
+
+	/**
+	 * One page of a list, with a Link header to the next one
+	 */
+	private list(items: any[], query: URLSearchParams): HttpResponse {
+		const perPage = Math.min(number(query.get('per_page')) ?? 10, this.maxPerPage);
+		const page = number(query.get('page')) ?? 1;
+		const response = this.json(items.slice((page - 1) * perPage, page * perPage));
+
+		const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+		const link = (n: number, rel: string) => {
+			const next = new URLSearchParams(query);
+			next.set('page', String(n));
+			next.set('per_page', String(perPage));
+			return `<${FAKE_CANVAS_URL}${this.currentPath}?${next.toString()}>; rel="${rel}"`;
+		};
+		const links = [link(page, 'current'), link(1, 'first'), link(lastPage, 'last')];
+		if (page < lastPage) links.splice(1, 0, link(page + 1, 'next'));
+		response.headers['Link'] = links.join(',');
+
+		return response;
+	}
+
+	/**
+	 * Path of the request being answered (lists link back to it)
+	 */
+	private get currentPath(): string {
+		return new URL(this.requests[this.requests.length - 1].url).pathname;
+	}
+
+	private checkCourse(courseId: string): CanvasCourse {
+		if (number(courseId) !== this.course.id) throw new NotFound();
+		return this.course;
+	}
+
+	private findModule(id: number): CanvasModule {
+		return found(this.modules.find(module => module.id === id));
+	}
+
+	private findItem(moduleId: number, id: number): CanvasModuleItem {
+		return found(this.moduleItems.find(item => item.id === id && item.module_id === moduleId));
+	}
+
+	private findAssignment(id: number): CanvasAssignment {
+		return found(this.assignments.find(assignment => assignment.id === id));
+	}
+
+	private findDiscussion(id: number): CanvasDiscussion {
+		return found(this.discussions.find(discussion => discussion.id === id));
+	}
+
+	private findFile(id: number): CanvasFile {
+		return found(this.files.find(file => file.id === id));
+	}
+
+	private itemJson(item: CanvasModuleItem): CanvasModuleItem {
+		const json: CanvasModuleItem = { ...item };
+		if (item.type === 'Assignment') {
+			const assignment = this.assignments.find(a => a.id === item.content_id);
+			if (assignment) json.content_details = { points_possible: assignment.points_possible ?? undefined, due_at: assignment.due_at };
+		}
+		return json;
+	}
+
+	private discussionJson(discussion: CanvasDiscussion): CanvasDiscussion {
+		const assignment = this.assignments.find(a => a.id === discussion.assignment_id);
+		return assignment
+			? { ...discussion, assignment: { points_possible: assignment.points_possible ?? 0, due_at: assignment.due_at } }
+			: discussion;
+	}
+
+	private contentTitle(params: Record<string, any>): string {
+		if (params.page_url) return this.findPage(params.page_url).title;
+		const id = number(params.content_id);
+		const contents: Array<CanvasAssignment | CanvasDiscussion | CanvasQuiz | CanvasFile> =
+			[...this.assignments, ...this.discussions, ...this.quizzes, ...this.files];
+		const content = contents.find(object => object.id === id);
+		if (!content) return '';
+		if ('name' in content) return content.name;
+		if ('title' in content) return content.title;
+		return content.display_name;
+	}
+
+	private updateAssignment(assignment: CanvasAssignment, params: Record<string, any>): void {
+		assign(assignment, params, ['name', 'description', 'grading_type']);
+		if (params.points_possible !== undefined) assignment.points_possible = number(params.points_possible) ?? null;
+		if (params.due_at !== undefined) assignment.due_at = params.due_at || null;
+		this.touch(assignment);
+	}
+
+	/**
+	 * Apply discussion params; an assignment makes the discussion graded
+	 */
+	private updateDiscussion(discussion: CanvasDiscussion, params: Record<string, any>): void {
+		assign(discussion, params, ['title', 'message', 'discussion_type']);
+		if (params.require_initial_post !== undefined) discussion.require_initial_post = params.require_initial_post === 'true';
+
+		if (params.assignment) {
+			const assignment = discussion.assignment_id
+				? this.findAssignment(discussion.assignment_id)
+				: this.addAssignment(discussion.title, '', { submission_types: ['discussion_topic'] });
+			this.updateAssignment(assignment, params.assignment);
+			discussion.assignment_id = assignment.id;
+		}
+	}
+
+	private uploadSlot(folderId: number, form: Record<string, any>): HttpResponse {
+		const token = `upload-${this.id()}`;
+		this.uploads.set(token, { folderId, name: form.name, contentType: form.content_type ?? 'application/octet-stream' });
+		return this.json({ upload_url: `${FAKE_CANVAS_URL}/uploads/${token}`, upload_params: { filename: form.name } });
+	}
+
+	/**
+	 * Folder at a path below the course files folder, created if missing
+	 */
+	private folderAt(path: string): CanvasFolder {
+		let folder = this.rootFolder();
+		for (const name of path.split('/').filter(Boolean)) {
+			folder = this.folders.find(f => f.parent_folder_id === folder.id && f.name === name) ??
+				(this.folders.push(this.folder(name, folder)), this.folders[this.folders.length - 1]);
+		}
+		return folder;
+	}
+
+	private folder(name: string, parent: CanvasFolder | null): CanvasFolder {
+		const id = this.id();
+		return {
+			id,
+			name,
+			full_name: parent ? `${parent.full_name}/${name}` : name,
+			parent_folder_id: parent?.id ?? null,
+			folders_url: `${FAKE_CANVAS_URL}/api/v1/folders/${id}/folders`,
+			files_url: `${FAKE_CANVAS_URL}/api/v1/folders/${id}/files`
+		};
+	}
+
+	/**
+	 * URL slug of a page title, unique in the course
+	 */
+	private pageUrl(title: string): string {
+		const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'page';
+		let url = slug;
+		for (let n = 2; this.pages.some(page => page.url === url); n++) {
+			url = `${slug}-${n}`;
+		}
+		return url;
+	}
+
+	/**
+	 * Move an entry to a position, shifting the others the way Canvas does
+	 */
+	private reposition<T extends { position: number }>(entries: T[], entry: T, position: number): void {
+		const others = entries.filter(e => e !== entry).sort((a, b) => a.position - b.position);
+		others.splice(Math.max(0, Math.min(position - 1, others.length)), 0, entry);
+		renumber(others);
+	}
+}
+
+class NotFound extends Error {}
+
+function found<T>(value: T | undefined): T {
+	if (value === undefined) throw new NotFound();
+	return value;
+}
+
+function jsonResponse(status: number, data: any): HttpResponse {
+	const text = JSON.stringify(data ?? null);
+	return { status, headers: { 'Content-Type': 'application/json' }, text, json: JSON.parse(text), arrayBuffer: new ArrayBuffer(0) };
+}
+
+function renumber<T extends { position: number }>(entries: T[]): void {
+	[...entries].sort((a, b) => a.position - b.position).forEach((entry, index) => entry.position = index + 1);
+}
+
+function number(value: string | null | undefined): number | undefined {
+	if (value === null || value === undefined || value === '') return undefined;
+	const parsed = Number(value);
+	return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Copy the given string fields from form params onto an object
+ */
+function assign(target: any, params: Record<string, any>, fields: string[]): void {
+	for (const field of fields) {
+		if (params[field] !== undefined) target[field] = params[field];
+	}
+}
+
+/**
+ * Decode a form body into nested objects: a[b]=1 -> { a: { b: '1' } }, a[]=1 -> { a: ['1'] }
+ */
+export function parseForm(body: string): Record<string, any> {
+	const result: Record<string, any> = {};
+
+	new URLSearchParams(body).forEach((value, key) => {
+		const path = key.replace(/\]/g, '').split('[');
+		let target: any = result;
+
+		for (let i = 0; i < path.length - 1; i++) {
+			const next = path[i + 1];
+			target[path[i]] = target[path[i]] ?? (next === '' || /^\d+$/.test(next) ? [] : {});
+			target = target[path[i]];
+		}
+
+		const last = path[path.length - 1];
+		if (last === '') {
+			target.push(value);
+		} else {
+			target[last] = value;
+		}
+	});
+
+	return result;
+}
+
+/**
+ * Bytes of the file part of a multipart/form-data body (the last part)
+ */
+function fileFromMultipart(body: HttpRequest['body']): ArrayBuffer {
+	if (!(body instanceof ArrayBuffer)) return new ArrayBuffer(0);
+
+	const bytes = new Uint8Array(body);
+	const text = new TextDecoder('latin1').decode(bytes);
+	const start = text.indexOf('\r\n\r\n', text.lastIndexOf('name="file"')) + 4;
+	const end = text.lastIndexOf('\r\n--');
+	return bytes.slice(start, end).buffer;
+}
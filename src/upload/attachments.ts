@@ -0,0 +1,164 @@
+/**
+ * Find vault files referenced from the course markdown and plan their upload to Canvas
+ *
+ * Three kinds of reference point at a vault file:
+ * - [file] blocks (the filename: line, or the title when there is none)
+ * - Obsidian embeds of anything but images: ![[slides.pdf]]
+ * - File links: [[File:handout.pdf]]
+ *
+ * Embedded images are hosted separately (see image-assets.ts).
+ */
+
+import { updateFence } from '../utils/markdown-fences';
+import { isImageName } from './image-assets';
+import type { CanvasFile } from '../canvas/types';
+import type {
+	ParsedModule,
+	ParsedModuleItem,
+	ParsedPage,
+	ParsedAssignment,
+	ParsedDiscussion,
+	ParsedQuiz,
+	ParsedFile,
+	AttachmentResolver,
+	AttachmentUpload,
+	LocalAttachment
+} from './types';
+
+/**
+ * ![[target]] / ![[target|alias]] / ![[target#section]]
+ */
+const EMBED_PATTERN = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g;
+
+/**
+ * [[File:target]]
+ */
+const FILE_LINK_PATTERN = /\[\[File:([^\]|#]+)(?:[|#][^\]]*)?\]\]/gi;
+
+/**
+ * Link targets of embeds and [[File:...]] links, skipping fenced blocks
+ */
+export function findAttachmentLinks(markdown: string): string[] {
+	const links: string[] = [];
+	let fence: string | null = null;
+
+	for (const line of markdown.split('\n')) {
+		const inFence = fence !== null;
+		fence = updateFence(line, fence);
+		if (inFence || fence !== null) continue;
+
+		line.replace(EMBED_PATTERN, (match, target: string) => {
+			if (!isImageName(target)) {
+				links.push(target.trim());
+			}
+			return match;
+		});
+		line.replace(FILE_LINK_PATTERN, (match, target: string) => {
+			links.push(target.trim());
+			return match;
+		});
+	}
+
+	return links;
+}
+
+/**
+ * Markdown text of an item that may reference files
+ */
+export function itemMarkdown(item: ParsedModuleItem): string[] {
+	switch (item.type) {
+		case 'page':
+			return [(item as ParsedPage).body];
+		case 'assignment':
+			return [(item as ParsedAssignment).description];
+		case 'discussion':
+			return [(item as ParsedDiscussion).message];
+		case 'quiz': {
+			const quiz = item as ParsedQuiz;
+			return [quiz.description, ...quiz.questions.map(question => question.text)];
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Apply a transformation to every markdown text of an item (in place)
+ */
+export function mapItemMarkdown(item: ParsedModuleItem, transform: (markdown: string) => string): void {
+	switch (item.type) {
+		case 'page':
+			item.body = transform(item.body);
+			break;
+		case 'assignment':
+			item.description = transform(item.description);
+			break;
+		case 'discussion':
+			item.message = transform(item.message);
+			break;
+		case 'quiz':
+			item.description = transform(item.description);
+			for (const question of item.questions) {
+				question.text = transform(question.text);
+			}
+			break;
+	}
+}
+
+/**
+ * Course file with the same name and size as a vault file, taken to be a copy of it
+ */
+export function findCourseFile(attachment: LocalAttachment, courseFiles: CanvasFile[]): CanvasFile | undefined {
+	return courseFiles.find(file =>
+		(file.display_name === attachment.name || file.filename === attachment.name) &&
+		file.size === attachment.size);
+}
+
+/**
+ * Vault files to put in Canvas, one entry per file however often it is referenced
+ *
+ * [file] blocks whose canvas_file_id still exists in Canvas are left alone. Files that
+ * Canvas already has under the same name with the same size are matched, not uploaded.
+ */
+export function planAttachmentUploads(
+	modules: ParsedModule[],
+	resolve: AttachmentResolver,
+	courseFiles: CanvasFile[]
+): AttachmentUpload[] {
+	const uploads = new Map<string, AttachmentUpload>();
+	const existingIds = new Set(courseFiles.map(file => file.id));
+
+	const add = (link: string, block?: ParsedFile) => {
+		const attachment = resolve(link);
+		if (!attachment) return;
+
+		let upload = uploads.get(attachment.path);
+		if (!upload) {
+			upload = { attachment, blocks: [], existingFileId: findCourseFile(attachment, courseFiles)?.id };
+			uploads.set(attachment.path, upload);
+		}
+		if (block) {
+			upload.blocks.push(block);
+		}
+	};
+
+	for (const module of modules) {
+		for (const item of module.items) {
+			if (item.type === 'file') {
+				const file = item as ParsedFile;
+				if (!file.canvasFileId || !existingIds.has(file.canvasFileId)) {
+					add(file.filename || file.title, file);
+				}
+				continue;
+			}
+
+			for (const markdown of itemMarkdown(item)) {
+				for (const link of findAttachmentLinks(markdown)) {
+					add(link);
+				}
+			}
+		}
+	}
+
+	return Array.from(uploads.values());
+}
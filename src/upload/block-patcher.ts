@@ -0,0 +1,55 @@
+/**
+ * Replace individual item blocks in the course markdown
+ */
+
+import { findHeading } from './id-writeback';
+import { CanvasCourseFormatter } from '../canvas/formatter';
+import type { CanvasModuleItem } from '../canvas/types';
+import type { BlockReplacement, ParsedModuleItem } from './types';
+
+/**
+ * Swap each item block (heading up to the next item or module) for new markdown
+ * Lines outside the replaced blocks are left untouched.
+ */
+export function replaceBlocks(content: string, replacements: BlockReplacement[]): string {
+	if (replacements.length === 0) return content;
+
+	const lines = content.split('\n');
+
+	// Apply bottom-up so earlier blocks keep their line numbers
+	const sorted = [...replacements].sort((a, b) => b.line - a.line);
+
+	for (const replacement of sorted) {
+		const start = findHeading(lines, replacement);
+		if (start === -1) {
+			console.warn(`Could not find "${replacement.heading}" to replace with the Canvas version`);
+			continue;
+		}
+
+		// Keep the original block length, shifted if the heading moved
+		const end = Math.min(lines.length, start + (replacement.endLine - replacement.line));
+
+		// Keep a blank line before whatever follows the block
+		const block = replacement.markdown.replace(/^\n+/, '').replace(/\n*$/, '\n');
+		lines.splice(start, end - start, ...block.split('\n'));
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Canvas version of a parsed item, to replace its block (or, in the folder layout, its note)
+ */
+export function remoteBlock(item: ParsedModuleItem, canvasItem: CanvasModuleItem, itemsData: Map<string, any>): BlockReplacement {
+	const formatter = new CanvasCourseFormatter();
+
+	return {
+		line: item.line ?? 0,
+		endLine: item.endLine ?? 0,
+		heading: `## [${item.type}] ${item.title}`,
+		markdown: item.notePath
+			? formatter.formatItemNote(canvasItem, itemsData, item.notePath.replace(/^.*\//, '').replace(/\.md$/, ''))
+			: formatter.formatModuleItem(canvasItem, itemsData),
+		notePath: item.notePath
+	};
+}
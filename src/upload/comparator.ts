@@ -1,16 +1,22 @@
-import { compareHtmlContent, markdownToSimpleHtml, normalizeHtml } from '../canvas/html-normalizer';
+import { compareHtmlContent, normalizeHtml } from '../canvas/html-normalizer';
+import { markdownToHtml } from '../canvas/markdown-renderer';
+import { planQuestionChanges } from '../canvas/quiz-questions';
+import { rubricsMatch } from '../canvas/rubrics';
 import type {
 	ParsedModule,
 	ParsedPage,
 	ParsedAssignment,
 	ParsedDiscussion,
+	ParsedQuiz,
 	ChangeDetection
 } from './types';
 import type {
 	CanvasModule,
 	CanvasPage,
 	CanvasAssignment,
-	CanvasDiscussion
+	CanvasDiscussion,
+	CanvasQuiz,
+	CanvasQuizQuestion
 } from '../canvas/types';
 
 /**
@@ -93,9 +99,15 @@ export function comparePage(
 		changedFields.push('title');
 	}
 
+	// A page can be made the front page, but not unmade (another page has to take its place)
+	if (parsed.frontPage && !canvas.front_page) {
+		log(`      Front page changed`);
+		changedFields.push('front_page');
+	}
+
 	// Compare body (normalize for comparison)
 	// Convert parsed markdown to HTML, but canvas.body is already HTML
-	const parsedBodyHtml = markdownToSimpleHtml(parsed.body);
+	const parsedBodyHtml = markdownToHtml(parsed.body);
 	const canvasBodyHtml = canvas.body || '';
 	const parsedNormalized = normalizeHtml(parsedBodyHtml);
 	const canvasNormalized = normalizeHtml(canvasBodyHtml);
@@ -167,7 +179,7 @@ export function compareAssignment(
 
 	// Compare description (normalize for comparison)
 	// Convert parsed markdown to HTML, but canvas.description is already HTML
-	const parsedDescHtml = markdownToSimpleHtml(parsed.description);
+	const parsedDescHtml = markdownToHtml(parsed.description);
 	const canvasDescHtml = canvas.description || '';
 	const parsedDescNorm = normalizeHtml(parsedDescHtml);
 	const canvasDescNorm = normalizeHtml(canvasDescHtml);
@@ -213,6 +225,11 @@ export function compareAssignment(
 		changedFields.push('grading_type');
 	}
 
+	// Compare rubric (only when the block has a rubric section - removing it leaves Canvas alone)
+	if (parsed.rubric && !rubricsMatch(parsed.rubric, canvas)) {
+		changedFields.push('rubric');
+	}
+
 	// Note: Cannot compare submission_types (Canvas limitation - cannot update)
 	// We'll skip this comparison to avoid false positives
 
@@ -260,7 +277,7 @@ export function compareDiscussion(
 
 	// Compare message (normalize for comparison)
 	// Convert parsed markdown to HTML, but canvas.message is already HTML
-	const parsedMsgHtml = markdownToSimpleHtml(parsed.message);
+	const parsedMsgHtml = markdownToHtml(parsed.message);
 	const canvasMsgHtml = canvas.message || '';
 	const match = compareHtmlContent(parsedMsgHtml, canvasMsgHtml);
 	if (!match) {
@@ -321,3 +338,92 @@ export function compareDiscussion(
 		action: 'skip'
 	};
 }
+
+/**
+ * Compare quiz settings, description and questions
+ * Points are left out: Canvas derives them from the question points.
+ */
+export function compareQuiz(
+	parsed: ParsedQuiz,
+	canvas: CanvasQuiz | undefined,
+	canvasQuestions: CanvasQuizQuestion[] = []
+): ChangeDetection {
+	log(`      Comparing quiz: "${parsed.title}"`);
+
+	// No Canvas data = CREATE
+	if (!canvas) {
+		log(`      No Canvas data found - marking as CREATE`);
+		return {
+			hasChanges: true,
+			changedFields: [],
+			action: 'create'
+		};
+	}
+
+	const changedFields: string[] = [];
+
+	// Compare title
+	if (parsed.title !== canvas.title) {
+		log(`      Title changed: "${parsed.title}" !== "${canvas.title}"`);
+		changedFields.push('title');
+	}
+
+	// Compare description (normalize for comparison)
+	if (!compareHtmlContent(markdownToHtml(parsed.description), canvas.description || '')) {
+		log(`      Description changed (normalized comparison failed)`);
+		changedFields.push('description');
+	}
+
+	// Compare settings (only those present in the markdown)
+	if (parsed.quizType !== undefined && parsed.quizType !== canvas.quiz_type) {
+		changedFields.push('quiz_type');
+	}
+	if (parsed.timeLimit !== undefined && (parsed.timeLimit ?? null) !== (canvas.time_limit ?? null)) {
+		changedFields.push('time_limit');
+	}
+	if (parsed.allowedAttempts !== undefined && parsed.allowedAttempts !== canvas.allowed_attempts) {
+		changedFields.push('allowed_attempts');
+	}
+	if (parsed.shuffleAnswers !== undefined && parsed.shuffleAnswers !== canvas.shuffle_answers) {
+		changedFields.push('shuffle_answers');
+	}
+
+	// Compare dates (normalize to compare)
+	const dates: Array<[string, string | undefined, string | null]> = [
+		['due_at', parsed.dueAt, canvas.due_at],
+		['unlock_at', parsed.unlockAt, canvas.unlock_at],
+		['lock_at', parsed.lockAt, canvas.lock_at]
+	];
+	for (const [field, parsedDate, canvasDate] of dates) {
+		const parsedIso = parsedDate ? new Date(parsedDate).toISOString() : null;
+		const canvasIso = canvasDate ? new Date(canvasDate).toISOString() : null;
+		if (parsedIso !== canvasIso) {
+			log(`      ${field} changed: ${parsedIso} !== ${canvasIso}`);
+			changedFields.push(field);
+		}
+	}
+
+	// Compare questions
+	const questionChanges = planQuestionChanges(parsed.questions, canvasQuestions);
+	if (questionChanges.create.length || questionChanges.update.length || questionChanges.remove.length) {
+		log(`      Questions changed: ${questionChanges.create.length} new, ` +
+			`${questionChanges.update.length} changed, ${questionChanges.remove.length} removed`);
+		changedFields.push('questions');
+	}
+
+	if (changedFields.length > 0) {
+		log(`      Result: UPDATE - Changed fields: [${changedFields.join(', ')}]`);
+		return {
+			hasChanges: true,
+			changedFields,
+			action: 'update'
+		};
+	}
+
+	log(`      Result: SKIP - No changes detected`);
+	return {
+		hasChanges: false,
+		changedFields: [],
+		action: 'skip'
+	};
+}
@@ -0,0 +1,99 @@
+/**
+ * Links from course content to Canvas files
+ *
+ * When course files are downloaded into the vault, links to them are written as local
+ * links ([[Course Files/handout.pdf|Handout]]) that open in Obsidian. An upload turns links
+ * to vault files that Canvas has back into Canvas file links.
+ *
+ * [[File:name]] links are left to the LinkResolver, and images to image-assets.ts.
+ */
+
+import { updateFence } from '../utils/markdown-fences';
+import { isImageName } from './image-assets';
+
+/**
+ * [text](/courses/1/files/2?wrap=1), with or without the host (not an image)
+ */
+const CANVAS_FILE_LINK = /(^|[^!])\[([^\]]*)\]\(\s*((?:https?:\/\/[^\s/)]+)?\/courses\/\d+\/files\/(\d+)[^)\s]*)(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * [[target]] / [[target|text]] / ![[target]]
+ */
+const WIKI_LINK = /(!?)\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * [text](target) (not an image)
+ */
+const MARKDOWN_LINK = /(^|[^!])\[([^\]]*)\]\(\s*(<[^>]+>|[^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Relative Canvas URL of a course file
+ */
+export function canvasFileUrl(courseId: string, fileId: number): string {
+	return `/courses/${courseId}/files/${fileId}`;
+}
+
+/**
+ * Point links to downloaded Canvas files at their vault copies (download)
+ */
+export function localizeCanvasFileLinks(markdown: string, localPaths: Map<number, string>): string {
+	return mapUnfencedLines(markdown, line => line.replace(
+		CANVAS_FILE_LINK,
+		(match, prefix: string, text: string, _url: string, id: string) => {
+			const path = localPaths.get(parseInt(id, 10));
+			if (!path) return match;
+			return text ? `${prefix}[[${path}|${text}]]` : `${prefix}[[${path}]]`;
+		}
+	));
+}
+
+/**
+ * Turn links and non-image embeds of vault files into Canvas file links (upload)
+ * The callback returns the Canvas file ID for a link target, or undefined to keep the link.
+ */
+export function rewriteFileLinks(
+	markdown: string,
+	courseId: string,
+	fileIdFor: (link: string) => number | undefined
+): string {
+	return mapUnfencedLines(markdown, line => line
+		.replace(WIKI_LINK, (match, embed: string, target: string, text: string | undefined) => {
+			// [[Type:Title]] links belong to the LinkResolver; embedded images are hosted separately
+			if (/^\w+:/.test(target) || (embed && isImageName(target))) return match;
+
+			const fileId = fileIdFor(target.trim());
+			if (fileId === undefined) return match;
+			return `[${(text || target.trim().split('/').pop()!).trim()}](${canvasFileUrl(courseId, fileId)})`;
+		})
+		.replace(MARKDOWN_LINK, (match, prefix: string, text: string, target: string) => {
+			const link = decodeLink(target.replace(/^<|>$/g, ''));
+			if (/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(link)) return match;
+
+			const fileId = fileIdFor(link);
+			return fileId === undefined ? match : `${prefix}[${text}](${canvasFileUrl(courseId, fileId)})`;
+		}));
+}
+
+/**
+ * Apply a transformation to every line outside fenced blocks
+ */
+function mapUnfencedLines(markdown: string, transform: (line: string) => string): string {
+	let fence: string | null = null;
+
+	return markdown.split('\n').map(line => {
+		const inFence = fence !== null;
+		fence = updateFence(line, fence);
+		return inFence || fence !== null ? line : transform(line);
+	}).join('\n');
+}
+
+/**
+ * Undo %20 and friends in a markdown link target
+ */
+function decodeLink(link: string): string {
+	try {
+		return decodeURI(link);
+	} catch {
+		return link;
+	}
+}
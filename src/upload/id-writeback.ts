@@ -0,0 +1,142 @@
+/**
+ * Write Canvas IDs assigned during upload back into the course markdown
+ */
+
+import { updateFence } from '../utils/markdown-fences';
+import { sectionMarker } from '../canvas/formatter';
+import { sectionKind } from './parser';
+import type { ItemIdUpdate, AddedFile } from './types';
+
+/**
+ * Splice <!-- key: value --> comments into the lines below each item heading
+ *
+ * Existing comments for the same key are replaced in place, missing ones are
+ * appended to the comment block under the heading. All other lines are left untouched.
+ */
+export function applyIdUpdates(content: string, updates: ItemIdUpdate[]): string {
+	if (updates.length === 0) return content;
+
+	const lines = content.split('\n');
+
+	// Apply bottom-up so inserted lines don't shift headings we have yet to visit
+	const sorted = [...updates].sort((a, b) => b.line - a.line);
+
+	for (const update of sorted) {
+		const headingIndex = findHeading(lines, update);
+		if (headingIndex === -1) {
+			console.warn(`Could not find "${update.heading}" to write back Canvas IDs`, update.ids);
+			continue;
+		}
+
+		// Walk the comment block directly under the heading
+		let end = headingIndex + 1;
+		const missing = new Map(Object.entries(update.ids));
+		while (end < lines.length && lines[end].trim().startsWith('<!--')) {
+			for (const [key, value] of missing) {
+				if (new RegExp(`<!--\\s*${key}:`).test(lines[end])) {
+					lines[end] = formatIdComment(key, value);
+					missing.delete(key);
+					break;
+				}
+			}
+			end++;
+		}
+
+		const inserted = Array.from(missing, ([key, value]) => formatIdComment(key, value));
+		lines.splice(end, 0, ...inserted);
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Add [file] blocks for newly uploaded files to the end of the "Course Files" section
+ * The section is created (the way a download writes it) when the file has none.
+ */
+export function appendCourseFiles(content: string, files: AddedFile[]): string {
+	if (files.length === 0) return content;
+
+	const blocks: string[] = [];
+	for (const file of files) {
+		blocks.push(`## [file] ${file.title}`, formatIdComment('canvas_file_id', file.id), `filename: ${file.filename}`, '');
+	}
+
+	const lines = content.split('\n');
+	let start = -1;
+	let fence: string | null = null;
+	for (let i = 0; i < lines.length; i++) {
+		const inFence = fence !== null;
+		fence = updateFence(lines[i], fence);
+		if (!inFence && lines[i].startsWith('# ') && sectionKind(lines, i) === 'files') {
+			start = i;
+			break;
+		}
+	}
+
+	if (start === -1) {
+		const section = [
+			'',
+			'---',
+			'',
+			'# Course Files',
+			sectionMarker('files'),
+			'',
+			'<!-- Files uploaded to Canvas but not added to any module -->',
+			'',
+			...blocks
+		];
+		return content.replace(/\s*$/, '\n') + section.join('\n');
+	}
+
+	// The section runs to the next module heading, or the end of the file
+	let end = lines.length;
+	fence = null;
+	for (let i = start + 1; i < lines.length; i++) {
+		const inFence = fence !== null;
+		fence = updateFence(lines[i], fence);
+		if (!inFence && fence === null && lines[i].startsWith('# ')) {
+			end = i;
+			break;
+		}
+	}
+	while (end > start + 1 && lines[end - 1].trim() === '') {
+		end--;
+	}
+
+	lines.splice(end, 0, '', ...blocks.slice(0, -1));
+	return lines.join('\n');
+}
+
+/**
+ * Format a Canvas ID comment line
+ */
+export function formatIdComment(key: string, value: string | number): string {
+	return `<!-- ${key}: ${value} -->`;
+}
+
+/**
+ * Locate a heading, preferring the line recorded at parse time
+ */
+export function findHeading(lines: string[], update: { line: number; heading: string }): number {
+	const expected = normalizeHeading(update.heading);
+	if (update.line < lines.length && normalizeHeading(lines[update.line]) === expected) {
+		return update.line;
+	}
+
+	// The file changed while uploading - fall back to the nearest matching heading
+	let best = -1;
+	for (let i = 0; i < lines.length; i++) {
+		if (normalizeHeading(lines[i]) === expected &&
+			(best === -1 || Math.abs(i - update.line) < Math.abs(best - update.line))) {
+			best = i;
+		}
+	}
+	return best;
+}
+
+/**
+ * Normalize a heading line for comparison (whitespace and [type] casing)
+ */
+function normalizeHeading(line: string): string {
+	return line.trim().replace(/\s+/g, ' ').replace(/^(#+ )\[(\w+)\]/, (_, hashes, type) => `${hashes}[${type.toLowerCase()}]`);
+}
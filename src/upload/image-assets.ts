@@ -0,0 +1,199 @@
+/**
+ * Host vault images on Canvas
+ *
+ * Images embedded with ![[diagram.png]] or ![alt](attachments/x.png) are uploaded to the
+ * course's "obsidian-assets" folder and the references are rewritten to Canvas preview URLs.
+ * Each upload is named after its content hash ("diagram-1a2b3c4d5e6f.png"), so an image is
+ * stored once however many pages use it. A download maps those URLs back to the vault file.
+ */
+
+import { updateFence } from '../utils/markdown-fences';
+import { hashBytes } from '../utils/hash';
+import type { CanvasFile } from '../canvas/types';
+import type { AttachmentResolver, LocalAttachment } from './types';
+
+/**
+ * Course folder that holds the uploaded images
+ */
+export const ASSETS_FOLDER = 'obsidian-assets';
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp'];
+
+/**
+ * ![[target]] / ![[target|alias]]
+ */
+const WIKI_IMAGE = /!\[\[([^\]|#]+)(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * ![alt](target) / ![alt](<target> "title")
+ */
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(\s*(<[^>]+>|[^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * ![alt](/courses/1/files/2/preview), with or without the host and query string
+ */
+const CANVAS_IMAGE = /!\[([^\]]*)\]\(\s*((?:https?:\/\/[^\s/)]+)?\/courses\/\d+\/files\/(\d+)[^)\s]*)(?:\s+"[^"]*")?\s*\)/g;
+
+const HASH_LENGTH = 12;
+
+export interface ImageRef {
+	alt: string;
+	link: string; // Vault link or path, decoded
+}
+
+/**
+ * Whether a file name has an image extension
+ */
+export function isImageName(name: string): boolean {
+	const extension = name.trim().split('.').pop()?.toLowerCase() ?? '';
+	return IMAGE_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Replace the vault image references in markdown (fenced blocks are skipped)
+ * The callback returns the replacement, or null to keep the reference as it is.
+ */
+export function rewriteImages(markdown: string, replace: (ref: ImageRef) => string | null): string {
+	let fence: string | null = null;
+
+	return markdown.split('\n').map(line => {
+		const inFence = fence !== null;
+		fence = updateFence(line, fence);
+		if (inFence || fence !== null) return line;
+
+		return line
+			.replace(WIKI_IMAGE, (match, target: string, alias: string | undefined) => {
+				if (!isImageName(target)) return match;
+				// A numeric alias is a display size, anything else is alt text
+				const alt = alias && !/^\d+(x\d+)?$/.test(alias.trim()) ? alias.trim() : target.trim().split('/').pop()!;
+				return replace({ alt, link: target.trim() }) ?? match;
+			})
+			.replace(MARKDOWN_IMAGE, (match, alt: string, target: string) => {
+				const link = decodeLink(target.replace(/^<|>$/g, ''));
+				if (!isLocalLink(link) || !isImageName(link)) return match;
+				return replace({ alt, link }) ?? match;
+			});
+	}).join('\n');
+}
+
+/**
+ * Vault image references in markdown
+ */
+export function findImages(markdown: string): ImageRef[] {
+	const refs: ImageRef[] = [];
+	rewriteImages(markdown, ref => {
+		refs.push(ref);
+		return null;
+	});
+	return refs;
+}
+
+/**
+ * Canvas file name for an image: its name with a content hash before the extension
+ */
+export function assetName(name: string, hash: string): string {
+	const dot = name.lastIndexOf('.');
+	const stem = dot > 0 ? name.slice(0, dot) : name;
+	const extension = dot > 0 ? name.slice(dot) : '';
+	return `${stem}-${hash.slice(0, HASH_LENGTH)}${extension}`;
+}
+
+/**
+ * Content hash prefix of an attachment, as used in asset names
+ */
+export async function attachmentHash(attachment: LocalAttachment): Promise<string> {
+	return (await hashBytes(await attachment.read())).slice(0, HASH_LENGTH);
+}
+
+/**
+ * Relative Canvas URL that displays a course file inline
+ */
+export function canvasImageUrl(courseId: string, fileId: number): string {
+	return `/courses/${courseId}/files/${fileId}/preview`;
+}
+
+/**
+ * Markdown image pointing at a Canvas-hosted file
+ */
+export function canvasImageMarkdown(alt: string, courseId: string, fileId: number): string {
+	return `![${alt.replace(/[[\]]/g, '')}](${canvasImageUrl(courseId, fileId)})`;
+}
+
+/**
+ * Point Canvas-hosted images back at the vault files they came from (download)
+ *
+ * Images uploaded by this plugin are matched by name and content hash, other course
+ * files by name and size. Images without a local copy keep their Canvas URL.
+ */
+export async function localizeCanvasImages(
+	markdown: string,
+	courseFiles: CanvasFile[],
+	resolve: AttachmentResolver
+): Promise<string> {
+	const filesById = new Map(courseFiles.map(file => [file.id, file]));
+	const locals = new Map<number, LocalAttachment | null>();
+
+	// Find the local copy of every referenced file first (matching needs async hashing)
+	for (const match of allMatches(markdown, CANVAS_IMAGE)) {
+		const fileId = parseInt(match[3], 10);
+		if (!locals.has(fileId)) {
+			const file = filesById.get(fileId);
+			locals.set(fileId, file ? await findLocalCopy(file, resolve) : null);
+		}
+	}
+
+	return markdown.replace(CANVAS_IMAGE, (match, alt: string, _url: string, id: string) => {
+		const local = locals.get(parseInt(id, 10));
+		if (!local) return match;
+		if (alt && alt !== local.name) {
+			return `![${alt}](${local.path.replace(/ /g, '%20')})`;
+		}
+		// Shortest link that still finds the file, the way Obsidian writes embeds
+		return resolve(local.name)?.path === local.path ? `![[${local.name}]]` : `![[${local.path}]]`;
+	});
+}
+
+/**
+ * Vault file a Canvas file was uploaded from, if it is still there unchanged
+ */
+async function findLocalCopy(file: CanvasFile, resolve: AttachmentResolver): Promise<LocalAttachment | null> {
+	const asset = file.display_name.match(new RegExp(`^(.*)-([0-9a-f]{${HASH_LENGTH}})(\\.[^.]+)?$`));
+	if (asset) {
+		const local = resolve(asset[1] + (asset[3] ?? ''));
+		return local && await attachmentHash(local) === asset[2] ? local : null;
+	}
+
+	const local = resolve(file.display_name);
+	return local && local.size === file.size ? local : null;
+}
+
+/**
+ * Links that point into the vault (not URLs, absolute paths or anchors)
+ */
+function isLocalLink(link: string): boolean {
+	return !/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(link);
+}
+
+/**
+ * Undo %20 and friends in a markdown link target
+ */
+function decodeLink(link: string): string {
+	try {
+		return decodeURI(link);
+	} catch {
+		return link;
+	}
+}
+
+/**
+ * Every match of a pattern in the text
+ */
+function allMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+	const matches: RegExpExecArray[] = [];
+	const regex = new RegExp(pattern.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(text)) !== null) {
+		matches.push(match);
+	}
+	return matches;
+}
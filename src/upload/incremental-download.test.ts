@@ -0,0 +1,127 @@
+import { CanvasCourseFormatter } from '../canvas/formatter';
+import { MarkdownParser } from './parser';
+import { buildSnapshot } from './snapshot';
+import { replaceBlocks } from './block-patcher';
+import { staleItems, detectChanges, replacementBlock, addedInCanvas } from './incremental-download';
+import type { CanvasModule, CanvasModuleItem, CanvasAssignment, CanvasPage } from '../canvas/types';
+
+const modules = [{ id: 1, name: 'Week 1', position: 1, items_count: 3, items_url: '' }] as CanvasModule[];
+const moduleItems: CanvasModuleItem[] = [
+	{ id: 11, module_id: 1, position: 1, indent: 0, type: 'Page', title: 'Welcome', page_url: 'welcome' },
+	{ id: 12, module_id: 1, position: 2, indent: 0, type: 'Page', title: 'Syllabus', page_url: 'syllabus' },
+	{ id: 13, module_id: 1, position: 3, indent: 0, type: 'Assignment', title: 'Essay', content_id: 5 }
+];
+
+/**
+ * Canvas content as downloaded at the last sync
+ */
+function canvasData(): Map<string, any> {
+	return new Map<string, any>([
+		['module_1', moduleItems],
+		['page_welcome', { url: 'welcome', title: 'Welcome', body: '<p>Hello</p>', updated_at: '2026-01-01T00:00:00Z' }],
+		['page_syllabus', { url: 'syllabus', title: 'Syllabus', body: '<p>Rules</p>', updated_at: '2026-01-01T00:00:00Z' }],
+		['assignment_5', {
+			id: 5, name: 'Essay', description: '<p>Write</p>', points_possible: 10, due_at: null,
+			grading_type: 'points', submission_types: ['online_upload'], has_submitted_submissions: false,
+			updated_at: '2026-01-01T00:00:00Z'
+		}]
+	]);
+}
+
+function setup() {
+	const synced = canvasData();
+	const markdown = new CanvasCourseFormatter().formatCourse('1', 'https://canvas.test', modules, synced);
+	return { markdown, snapshot: buildSnapshot(synced) };
+}
+
+function parse(markdown: string) {
+	return new MarkdownParser(markdown).parse().modules;
+}
+
+describe('incremental re-download', () => {
+	it('finds nothing to do when Canvas is unchanged', () => {
+		const { markdown, snapshot } = setup();
+		const parsed = parse(markdown);
+
+		expect(staleItems(parsed, snapshot, canvasData())).toEqual([]);
+		const changes = detectChanges(parsed, snapshot, canvasData());
+		expect(changes.updated).toEqual([]);
+		expect(changes.conflicts).toEqual([]);
+	});
+
+	it('only checks items whose updated_at moved on', () => {
+		const { markdown, snapshot } = setup();
+		const listed = canvasData();
+		listed.set('page_syllabus', { ...listed.get('page_syllabus'), body: undefined, updated_at: '2026-02-01T00:00:00Z' });
+
+		expect(staleItems(parse(markdown), snapshot, listed).map(item => item.title)).toEqual(['Syllabus']);
+	});
+
+	it('replaces blocks changed in Canvas and keeps local edits elsewhere', () => {
+		const { markdown, snapshot } = setup();
+		const edited = markdown.replace('Hello', 'Hello, edited locally');
+		const parsed = parse(edited);
+
+		const remote = canvasData();
+		remote.set('page_syllabus', { ...remote.get('page_syllabus'), body: '<p>New rules</p>', updated_at: '2026-02-01T00:00:00Z' });
+
+		const changes = detectChanges(parsed, snapshot, remote);
+		expect(changes.updated.map(item => item.title)).toEqual(['Syllabus']);
+		expect(Object.keys(changes.snapshotEntries)).toEqual(['page_syllabus']);
+
+		const blocks = changes.updated.map(item => replacementBlock(item, remote, new Map(moduleItems.map(i => [i.id, i])))!);
+		const patched = replaceBlocks(edited, blocks);
+
+		expect(patched).toContain('Hello, edited locally');
+		expect(patched).toContain('New rules');
+		expect(patched).not.toContain('\nRules');
+		expect(patched).toContain('<!-- canvas_module_item_id: 12 -->');
+	});
+
+	it('reports items changed on both sides without touching them', () => {
+		const { markdown, snapshot } = setup();
+		const parsed = parse(markdown.replace('Write', 'Write 500 words'));
+
+		const remote = canvasData();
+		remote.set('assignment_5', { ...remote.get('assignment_5'), points_possible: 20, updated_at: '2026-02-01T00:00:00Z' });
+
+		const changes = detectChanges(parsed, snapshot, remote);
+		expect(changes.updated).toEqual([]);
+		expect(changes.conflicts.map(item => item.title)).toEqual(['Essay']);
+		expect(changes.snapshotEntries).toEqual({});
+	});
+
+	it('reports items deleted in Canvas', () => {
+		const { markdown, snapshot } = setup();
+		const remote = canvasData();
+		remote.delete('page_welcome');
+
+		expect(detectChanges(parse(markdown), snapshot, remote).missing.map(item => item.title)).toEqual(['Welcome']);
+	});
+
+	it('counts modules and items added in Canvas since the download', () => {
+		const parsed = parse(setup().markdown);
+		const synced = canvasData();
+		const unchanged = {
+			modules: [{ ...modules[0], items: moduleItems }],
+			pages: [synced.get('page_welcome'), synced.get('page_syllabus')] as CanvasPage[],
+			assignments: [synced.get('assignment_5'), { id: 6, name: 'Quiz', submission_types: ['online_quiz'] }] as CanvasAssignment[],
+			discussions: [],
+			quizzes: []
+		};
+		expect(addedInCanvas(parsed, unchanged)).toEqual({ modules: 0, items: 0 });
+
+		// A page added to Week 1, Week 2 with a subheader, and a page outside modules
+		const added = {
+			...unchanged,
+			modules: [
+				{ ...modules[0], items: [...moduleItems, { id: 14, module_id: 1, position: 4, indent: 0, type: 'Page', title: 'Notes', page_url: 'notes' }] },
+				{ id: 2, name: 'Week 2', position: 2, items_count: 1, items_url: '', items: [
+					{ id: 21, module_id: 2, position: 1, indent: 0, type: 'SubHeader', title: 'Reading' }
+				] }
+			] as CanvasModule[],
+			pages: [...unchanged.pages, { url: 'notes', title: 'Notes' }, { url: 'extra', title: 'Extra' }] as CanvasPage[]
+		};
+		expect(addedInCanvas(parsed, added)).toEqual({ modules: 1, items: 3 });
+	});
+});
@@ -0,0 +1,179 @@
+/**
+ * Incremental re-download: patch only the items that changed in Canvas
+ *
+ * Every tracked item (one with a Canvas ID and a snapshot entry) is checked against the
+ * last-sync snapshot. An unchanged updated_at settles it without fetching the content;
+ * otherwise the content hash decides. Items changed only in Canvas get their block
+ * replaced with the Canvas version. Items changed on both sides are left alone and reported,
+ * as are modules and items added in Canvas since, which only a full re-download brings in.
+ */
+
+import { remoteBlock } from './block-patcher';
+import { snapshotKey, snapshotCanvasItem, localHash, detectSyncState } from './snapshot';
+import type { CourseSnapshot, SnapshotEntry } from './snapshot';
+import type { CanvasModuleItem } from '../canvas/types';
+import type { CourseContent } from '../canvas/course-fetcher';
+import type { ParsedModule, ParsedModuleItem, BlockReplacement } from './types';
+
+export interface IncrementalChanges {
+	updated: ParsedModuleItem[];   // Changed only in Canvas: replace the block
+	conflicts: ParsedModuleItem[]; // Changed locally and in Canvas: left as is
+	missing: ParsedModuleItem[];   // No longer in Canvas
+	snapshotEntries: Record<string, SnapshotEntry>; // New base for the updated items
+}
+
+export interface AddedInCanvas {
+	modules: number; // Canvas modules the file doesn't have
+	items: number;   // Module items and content outside modules the file doesn't have
+}
+
+/**
+ * Tracked items whose Canvas version may have changed since the snapshot
+ * Their full content is needed to tell (page lists may come without bodies).
+ */
+export function staleItems(
+	modules: ParsedModule[],
+	snapshot: CourseSnapshot,
+	listed: Map<string, any>
+): ParsedModuleItem[] {
+	return trackedItems(modules, snapshot).filter(({ key, base }) => {
+		const canvasObject = listed.get(key);
+		return canvasObject && !(base.updatedAt && canvasObject.updated_at === base.updatedAt);
+	}).map(({ item }) => item);
+}
+
+/**
+ * Work out which side changed for every tracked item
+ * itemsData holds the Canvas content keyed like the snapshot, with the stale items complete.
+ */
+export function detectChanges(
+	modules: ParsedModule[],
+	snapshot: CourseSnapshot,
+	itemsData: Map<string, any>
+): IncrementalChanges {
+	const changes: IncrementalChanges = { updated: [], conflicts: [], missing: [], snapshotEntries: {} };
+
+	for (const { item, key, base } of trackedItems(modules, snapshot)) {
+		const canvasObject = itemsData.get(key);
+		if (!canvasObject) {
+			changes.missing.push(item);
+			continue;
+		}
+
+		const remote = snapshotCanvasItem(key, canvasObject)!;
+		const state = detectSyncState(base, localHash(item)!, remote);
+
+		if (state === 'remote') {
+			changes.updated.push(item);
+			changes.snapshotEntries[key] = remote;
+		} else if (state === 'conflict') {
+			changes.conflicts.push(item);
+		} else if (remote.updatedAt !== base.updatedAt && remote.hash === base.hash) {
+			// Saved in Canvas without changes: remember the new updated_at so it isn't fetched again
+			changes.snapshotEntries[key] = remote;
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Count what a full download would add to the file: modules and module items it has no ID
+ * for, and pages, assignments and discussions outside modules that it doesn't list
+ */
+export function addedInCanvas(modules: ParsedModule[], content: CourseContent): AddedInCanvas {
+	const moduleIds = new Set<number>();
+	const moduleItemIds = new Set<number>();
+	const keys = new Set<string>();
+	for (const module of modules) {
+		if (module.canvasModuleId) moduleIds.add(module.canvasModuleId);
+		for (const item of module.items) {
+			if (item.canvasModuleItemId) moduleItemIds.add(item.canvasModuleItemId);
+			const key = snapshotKey(item);
+			if (key) keys.add(key);
+		}
+	}
+
+	const added: AddedInCanvas = { modules: 0, items: 0 };
+	const inModules = new Set<string>();
+	for (const module of content.modules) {
+		if (!moduleIds.has(module.id)) added.modules++;
+		for (const item of module.items || []) {
+			if (!moduleItemIds.has(item.id)) added.items++;
+			if (item.page_url) inModules.add(`page_${item.page_url}`);
+			if (item.content_id) inModules.add(`${item.type.toLowerCase()}_${item.content_id}`);
+		}
+	}
+
+	// Outside modules, the way a full download lists them (quizzes and graded discussions aren't assignments there)
+	const outside = [
+		...content.pages.map(page => `page_${page.url}`),
+		...content.assignments
+			.filter(assignment => !assignment.submission_types?.some(type => type === 'online_quiz' || type === 'discussion_topic'))
+			.map(assignment => `assignment_${assignment.id}`),
+		...content.discussions.map(discussion => `discussion_${discussion.id}`)
+	];
+	for (const key of outside) {
+		if (!inModules.has(key) && !keys.has(key)) added.items++;
+	}
+
+	return added;
+}
+
+/**
+ * Canvas version of an item's block, to replace the block in the course file (or the item's note)
+ * Items in a module are formatted from their module item; items outside modules from the content.
+ */
+export function replacementBlock(
+	item: ParsedModuleItem,
+	itemsData: Map<string, any>,
+	moduleItems: Map<number, CanvasModuleItem>
+): BlockReplacement | null {
+	if (item.line === undefined || item.endLine === undefined) return null;
+
+	const key = snapshotKey(item)!;
+	const canvasItem = (item.canvasModuleItemId && moduleItems.get(item.canvasModuleItemId)) ||
+		standInItem(item, itemsData.get(key));
+
+	return remoteBlock(item, canvasItem, itemsData);
+}
+
+/**
+ * Items with a snapshot entry to compare against
+ */
+function trackedItems(
+	modules: ParsedModule[],
+	snapshot: CourseSnapshot
+): Array<{ item: ParsedModuleItem; key: string; base: SnapshotEntry }> {
+	const tracked: Array<{ item: ParsedModuleItem; key: string; base: SnapshotEntry }> = [];
+
+	for (const module of modules) {
+		for (const item of module.items) {
+			const key = snapshotKey(item);
+			const base = key ? snapshot.items[key] : undefined;
+			if (key && base) {
+				tracked.push({ item, key, base });
+			}
+		}
+	}
+
+	return tracked;
+}
+
+/**
+ * Module item standing in for content outside modules (no module item ID is written)
+ */
+function standInItem(item: ParsedModuleItem, canvasObject: any): CanvasModuleItem {
+	const base = { id: 0, module_id: 0, position: 0, indent: 0 };
+
+	switch (item.type) {
+		case 'page':
+			return { ...base, type: 'Page', title: canvasObject.title, page_url: canvasObject.url };
+		case 'assignment':
+			return { ...base, type: 'Assignment', title: canvasObject.name, content_id: canvasObject.id };
+		case 'discussion':
+			return { ...base, type: 'Discussion', title: canvasObject.title, content_id: canvasObject.id };
+		default:
+			return { ...base, type: 'Quiz', title: canvasObject.title, content_id: canvasObject.id };
+	}
+}
@@ -3,24 +3,151 @@ import type {
 	ParsedModuleItem,
 	ParsedPage,
 	ParsedAssignment,
+	ParsedRubric,
 	ParsedDiscussion,
+	ParsedQuiz,
+	ParsedQuizQuestion,
+	ParsedQuizAnswer,
+	QuizQuestionType,
 	ParsedHeader,
 	ParsedLink,
 	ParsedFile,
-	CourseFrontmatter
+	CourseFrontmatter,
+	NoteResolver,
+	SectionKind
 } from './types';
+import { updateFence } from '../utils/markdown-fences';
+import { readFrontmatter } from '../utils/frontmatter-utils';
+import { parseYaml, YamlError } from '../utils/yaml';
+import { QUESTION_HEADING, CHOICE_ANSWER, MATCHING_ANSWER } from '../canvas/quiz-questions';
+import { RUBRIC_HEADING, parseRubricTable } from '../canvas/rubrics';
+
+/**
+ * Comment under the heading of a section for content outside modules (see sectionMarker)
+ */
+const SECTION_MARKER = /^<!--\s*canvas_section:\s*(content|files)\s*-->$/;
+
+/**
+ * Comments under the headings of the sections downloads wrote before they were marked
+ */
+const LEGACY_SECTION_COMMENTS: Record<string, { kind: SectionKind; comment: string }> = {
+	'Course Files': { kind: 'files', comment: '<!-- Files uploaded to Canvas but not added to any module -->' },
+	'Unmoduled Content': { kind: 'content', comment: '<!-- Pages, assignments and discussions not added to any module -->' }
+};
+
+/**
+ * Link to an item note in the index note of a folder-layout course: "- [[Week 1/Welcome|Welcome]]"
+ */
+const NOTE_LINK = /^[-*]\s+\[\[([^\]|#]+)(?:\|[^\]]*)?\]\]\s*$/;
+
+/**
+ * Frontmatter properties holding an item note's Canvas IDs (the rest are its metadata)
+ */
+const NOTE_ID_FIELDS = [
+	'canvas_page_id',
+	'canvas_assignment_id',
+	'canvas_discussion_id',
+	'canvas_quiz_id',
+	'canvas_file_id',
+	'canvas_module_item_id'
+];
+
+/**
+ * Opening fence of an item's metadata block: ```canvas
+ */
+const METADATA_FENCE = /^(`{3,}|~{3,})\s*canvas\s*$/;
+
+type SettingKind = 'number' | 'integer' | 'boolean' | 'text' | 'date' | 'list';
+
+/**
+ * The settings each item type reads from its metadata, and what their values must be
+ */
+const ITEM_SETTINGS: Record<string, Record<string, SettingKind>> = {
+	page: { front_page: 'boolean' },
+	assignment: { points: 'number', due: 'date', grade_display: 'text', submission_types: 'list' },
+	discussion: { require_initial_post: 'boolean', threaded: 'boolean', graded: 'boolean', points: 'number', due: 'date' },
+	quiz: {
+		quiz_type: 'text', points: 'number', time_limit: 'integer', allowed_attempts: 'integer',
+		shuffle_answers: 'boolean', due: 'date', unlock: 'date', lock: 'date'
+	},
+	header: {},
+	link: { url: 'text' },
+	file: { filename: 'text' }
+};
+
+/**
+ * Where to set what a metadata block can't: these keys are kept but, like any unknown key, not uploaded
+ */
+const NOT_UPLOADED_HINTS: Record<string, string> = {
+	overrides: 'set due dates for sections and students in Canvas',
+	rubric: 'write the rubric as a "### [rubric]" table after the description'
+};
+
+const SETTING_KIND_NAMES: Record<SettingKind, string> = {
+	number: 'a number',
+	integer: 'a whole number',
+	boolean: 'true or false',
+	text: 'text',
+	date: 'a date like 2026-01-20 11:59pm',
+	list: 'a list'
+};
+
+/**
+ * A course file that can't be read as written, at a line (0-based) of the file
+ */
+export class ParseError extends Error {
+	line: number;
+
+	constructor(reason: string, line: number) {
+		super(`Line ${line + 1}: ${reason}`);
+		this.name = 'ParseError';
+		this.line = line;
+	}
+}
+
+/**
+ * Links to item notes in the index note of a folder-layout course, in order
+ */
+export function noteLinks(content: string): string[] {
+	return content.split('\n')
+		.map(line => line.match(NOTE_LINK)?.[1].trim())
+		.filter((link): link is string => !!link);
+}
+
+/**
+ * Kind of the section for content outside modules that the "# Heading" at the given line starts,
+ * or null for a module. Downloads mark sections with sectionMarker; older ones are known by their
+ * heading and the comment below it, so a module that is only named like a section stays a module.
+ */
+export function sectionKind(lines: string[], headingLine: number): SectionKind | null {
+	const marker = (lines[headingLine + 1] || '').trim().match(SECTION_MARKER);
+	if (marker) return marker[1] as SectionKind;
+
+	const legacy = LEGACY_SECTION_COMMENTS[lines[headingLine].replace(/^#\s+/, '').trim()];
+	let i = headingLine + 1;
+	while (i < lines.length && lines[i].trim() === '') i++;
+	return legacy && (lines[i] || '').trim() === legacy.comment ? legacy.kind : null;
+}
 
 /**
  * Parse markdown file into structured data with Canvas IDs
+ *
+ * A course in the folder layout is parsed from its index note, which lists modules like
+ * a course file but links to a note per item; resolveNote supplies those notes.
+ * Throws a ParseError for a metadata block or item note frontmatter that can't be read.
  */
 export class MarkdownParser {
 	private content: string;
 	private lines: string[];
 	private currentLine: number = 0;
+	private resolveNote?: NoteResolver;
+	private folderLayout = false;
+	private noteFields: Record<string, any> | null = null; // Frontmatter of the item note being parsed
 
-	constructor(content: string) {
+	constructor(content: string, resolveNote?: NoteResolver) {
 		this.content = content;
 		this.lines = content.split('\n');
+		this.resolveNote = resolveNote;
 	}
 
 	/**
@@ -28,6 +155,7 @@ export class MarkdownParser {
 	 */
 	parse(): { frontmatter: CourseFrontmatter; modules: ParsedModule[] } {
 		const frontmatter = this.parseFrontmatter();
+		this.folderLayout = frontmatter.canvas_layout === 'folder';
 		const modules = this.parseModules();
 
 		return { frontmatter, modules };
@@ -58,6 +186,8 @@ export class MarkdownParser {
 					const [, key, value] = match;
 					if (key === 'canvas_course_id' || key === 'canvas_url') {
 						frontmatter[key] = value.trim();
+					} else if (key === 'canvas_layout' && (value.trim() === 'file' || value.trim() === 'folder')) {
+						frontmatter.canvas_layout = value.trim() as CourseFrontmatter['canvas_layout'];
 					}
 				}
 
@@ -93,6 +223,7 @@ export class MarkdownParser {
 	 * Parse a single module
 	 */
 	private parseModule(): ParsedModule {
+		const line = this.currentLine;
 		const titleLine = this.lines[this.currentLine];
 		const title = titleLine.replace(/^#\s+/, '').trim();
 		this.currentLine++;
@@ -117,8 +248,14 @@ export class MarkdownParser {
 				break;
 			}
 
-			// Module item (H2)
-			if (line.startsWith('## ')) {
+			// Module item (H2), or a link to an item note
+			const noteLink = this.folderLayout ? line.match(NOTE_LINK) : null;
+			if (noteLink) {
+				const item = this.parseNoteLink(noteLink[1].trim());
+				if (item) {
+					items.push(item);
+				}
+			} else if (line.startsWith('## ')) {
 				const item = this.parseModuleItem();
 				if (item) {
 					items.push(item);
@@ -128,13 +265,18 @@ export class MarkdownParser {
 			}
 		}
 
-		return { title, canvasModuleId, items };
+		const section = sectionKind(this.lines, line);
+		if (section) {
+			return { title, items, line, section };
+		}
+		return { title, canvasModuleId, items, line };
 	}
 
 	/**
 	 * Parse a single module item
 	 */
 	private parseModuleItem(): ParsedModuleItem | null {
+		const line = this.currentLine;
 		const titleLine = this.lines[this.currentLine];
 
 		// Extract type and title: "## [type] Title"
@@ -147,23 +289,138 @@ export class MarkdownParser {
 		const [, type, title] = match;
 		this.currentLine++;
 
+		const item = this.parseItem(type, title);
+		if (!item) return null;
+
+		// Remember where the item came from so new Canvas IDs can be written back
+		item.line = line;
+		item.endLine = this.currentLine;
+		return item;
+	}
+
+	/**
+	 * Parse a module item from an index link to its note
+	 * Line numbers of the item (and its questions and rubric) are within the note.
+	 */
+	private parseNoteLink(link: string): ParsedModuleItem | null {
+		this.currentLine++;
+
+		const note = this.resolveNote?.(link);
+		if (!note) {
+			console.warn(`Item note not found: ${link}`);
+			return null;
+		}
+
+		const title = note.path.replace(/^.*\//, '').replace(/\.md$/, '');
+		const item = new MarkdownParser(note.content).parseItemNote(title);
+		if (!item) return null;
+
+		item.notePath = note.path;
+		if (item.type === 'assignment' && item.rubric) {
+			item.rubric.notePath = note.path;
+		}
+		if (item.type === 'quiz') {
+			for (const question of item.questions) {
+				question.notePath = note.path;
+			}
+		}
+		return item;
+	}
+
+	/**
+	 * Parse an item note of the folder layout: Canvas IDs and metadata in the frontmatter,
+	 * content in the body. The title is the note's title property, or else the given one.
+	 */
+	parseItemNote(title: string): ParsedModuleItem | null {
+		let frontmatter: ReturnType<typeof readFrontmatter>;
+		try {
+			frontmatter = readFrontmatter(this.content);
+		} catch (error) {
+			if (error instanceof YamlError) {
+				throw new ParseError(`${error.message} in the frontmatter of "${title}"`, error.line);
+			}
+			throw error;
+		}
+		const type = frontmatter?.fields.canvas_type;
+		if (!frontmatter || typeof type !== 'string') {
+			console.warn(`Item note "${title}" has no canvas_type property`);
+			return null;
+		}
+
+		this.noteFields = frontmatter.fields;
+		this.currentLine = frontmatter.bodyStart;
+		const item = this.parseItem(type, frontmatter.fields.title != null ? String(frontmatter.fields.title) : title);
+		if (!item) return null;
+
+		item.line = 0;
+		item.endLine = this.lines.length;
+		return item;
+	}
+
+	/**
+	 * Parse the rest of an item of the given type (the current line follows its heading or frontmatter)
+	 */
+	private parseItem(type: string, title: string): ParsedModuleItem | null {
+		let item: ParsedModuleItem;
 		switch (type.toLowerCase()) {
 			case 'page':
-				return this.parsePage(title);
+				item = this.parsePage(title);
+				break;
 			case 'assignment':
-				return this.parseAssignment(title);
+				item = this.parseAssignment(title);
+				break;
 			case 'discussion':
-				return this.parseDiscussion(title);
+				item = this.parseDiscussion(title);
+				break;
+			case 'quiz':
+				item = this.parseQuiz(title);
+				break;
 			case 'header':
-				return this.parseHeader(title);
+				item = this.parseHeader(title);
+				break;
 			case 'link':
-				return this.parseLink(title);
+				item = this.parseLink(title);
+				break;
 			case 'file':
-				return this.parseFile(title);
+				item = this.parseFile(title);
+				break;
 			default:
 				console.warn(`Unknown item type: ${type}`);
 				return null;
 		}
+
+		return item;
+	}
+
+	/**
+	 * Whether a line ends the current item: the next module or module item
+	 * An item note is a single item, so nothing in its body ends it.
+	 */
+	private isItemEnd(line: string): boolean {
+		if (this.noteFields) return false;
+		return line.startsWith('# ') || this.isModuleItemHeader(line) || (this.folderLayout && NOTE_LINK.test(line));
+	}
+
+	/**
+	 * Canvas IDs of the item being parsed: from the comments under its heading, or its note's frontmatter
+	 */
+	private parseItemIds(): { canvasId?: string | number; moduleItemId?: number } {
+		if (!this.noteFields) {
+			return this.parseIds();
+		}
+
+		const ids: { canvasId?: string | number; moduleItemId?: number } = {};
+		for (const key of NOTE_ID_FIELDS) {
+			const value = this.noteFields[key];
+			if (value === null || value === undefined || value === '') continue;
+
+			if (key === 'canvas_module_item_id') {
+				ids.moduleItemId = Number(value);
+			} else {
+				ids.canvasId = key === 'canvas_page_id' ? String(value) : Number(value);
+			}
+		}
+		return ids;
 	}
 
 	/**
@@ -202,6 +459,13 @@ export class MarkdownParser {
 				continue;
 			}
 
+			const quizIdMatch = line.match(/<!--\s*canvas_(?:quiz|question|rubric)_id:\s*(\d+)\s*-->/);
+			if (quizIdMatch) {
+				ids.canvasId = parseInt(quizIdMatch[1], 10);
+				this.currentLine++;
+				continue;
+			}
+
 			const fileIdMatch = line.match(/<!--\s*canvas_file_id:\s*(\d+)\s*-->/);
 			if (fileIdMatch) {
 				ids.canvasId = parseInt(fileIdMatch[1], 10);
@@ -225,33 +489,47 @@ export class MarkdownParser {
 
 	/**
 	 * Unescape markdown content (handle escaped brackets)
+	 * Fenced blocks (code, canvas-html) are passed through unchanged.
 	 */
 	private unescapeMarkdown(content: string): string {
-		// Unescape square brackets that were escaped in the formatter
-		return content
-			.replace(/\\\[/g, '[')
-			.replace(/\\\]/g, ']');
+		let fence: string | null = null;
+
+		return content.split('\n').map(line => {
+			const inFence = fence !== null;
+			fence = updateFence(line, fence);
+			if (inFence || fence !== null) return line;
+
+			// Unescape square brackets that were escaped in the formatter
+			return line
+				.replace(/\\\[/g, '[')
+				.replace(/\\\]/g, ']');
+		}).join('\n');
 	}
 
 	/**
 	 * Parse metadata fields and content
+	 * Metadata is a ```canvas block after the IDs, or else "key: value" lines up to a --- separator.
+	 * Content ends at the next item, or at the first line matching stopAt (outside fenced blocks).
+	 * In an item note the metadata is in the frontmatter and the whole body is content.
 	 */
-	private parseMetadataAndContent(): { metadata: Record<string, any>; content: string } {
-		const metadata: Record<string, any> = {};
+	private parseMetadataAndContent(type: string, stopAt?: (line: string) => boolean): { metadata: Record<string, any>; content: string } {
+		const block = this.noteFields ? null : this.parseMetadataBlock(type);
+		const metadata: Record<string, any> = this.noteFields ? this.parseNoteMetadata(this.noteFields) : block ?? {};
 		let content = '';
-		let inContent = false;
+		let inContent = this.noteFields !== null || block !== null;
+		let fence: string | null = null;
 
 		while (this.currentLine < this.lines.length) {
 			const line = this.lines[this.currentLine];
 
 			// Stop at next module (H1) or next module item (H2 with [type] prefix)
-			// But allow regular H2/H3/etc headings within content
-			if (line.startsWith('# ') || this.isModuleItemHeader(line)) {
+			// But allow regular H2/H3/etc headings within content, and anything inside a fenced block
+			if (fence === null && (this.isItemEnd(line) || stopAt?.(line))) {
 				break;
 			}
 
-			// Content separator
-			if (line.trim() === '---') {
+			// Content separator (later --- lines are horizontal rules in the content)
+			if (!inContent && line.trim() === '---') {
 				inContent = true;
 				this.currentLine++;
 				continue;
@@ -259,6 +537,7 @@ export class MarkdownParser {
 
 			if (inContent) {
 				// Collect content lines
+				fence = updateFence(line, fence);
 				content += line + '\n';
 			} else {
 				// Parse metadata: "key: value"
@@ -275,6 +554,115 @@ export class MarkdownParser {
 		return { metadata, content: this.unescapeMarkdown(content.trim()) };
 	}
 
+	/**
+	 * Parse the ```canvas metadata block that may follow an item's IDs
+	 * Returns null, leaving the current line alone, when there is none. The block's YAML
+	 * values are checked against the item type's settings; other keys are kept with a warning.
+	 */
+	private parseMetadataBlock(type: string): Record<string, any> | null {
+		let start = this.currentLine;
+		while (start < this.lines.length && !this.lines[start].trim()) {
+			start++;
+		}
+
+		const open = this.lines[start]?.match(METADATA_FENCE);
+		if (!open) return null;
+
+		const closing = new RegExp(`^${open[1][0]}{${open[1].length},}\\s*$`);
+		let end = start + 1;
+		while (end < this.lines.length && !closing.test(this.lines[end]) && !this.isItemEnd(this.lines[end])) {
+			end++;
+		}
+		if (!closing.test(this.lines[end] ?? '')) {
+			throw new ParseError('The ```canvas metadata block is not closed', start);
+		}
+
+		let fields: any;
+		try {
+			fields = parseYaml(this.lines.slice(start + 1, end).join('\n'));
+		} catch (error) {
+			if (error instanceof YamlError) {
+				throw new ParseError(`${error.message} in the metadata block`, start + 1 + error.line);
+			}
+			throw error;
+		}
+		if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+			throw new ParseError('The metadata block must hold "key: value" settings', start + 1);
+		}
+
+		// Line of a top-level key, for error messages
+		const keyLine = (key: string) => {
+			for (let line = start + 1; line < end; line++) {
+				const text = this.lines[line].replace(/^["']/, '');
+				if (text.startsWith(key) && /^["']?\s*:/.test(text.slice(key.length))) {
+					return line;
+				}
+			}
+			return start;
+		};
+
+		const settings = ITEM_SETTINGS[type] || {};
+		const metadata: Record<string, any> = {};
+		for (const [key, value] of Object.entries(fields)) {
+			const kind = settings[key];
+			if (!kind) {
+				const hint = NOT_UPLOADED_HINTS[key] ? `; ${NOT_UPLOADED_HINTS[key]}` : '';
+				console.warn(`Line ${keyLine(key) + 1}: "${key}" is not a setting of ${type} items, so it is not uploaded${hint}`);
+				metadata[key] = value;
+				continue;
+			}
+
+			const checked = value === null ? null : this.settingValue(kind, value);
+			if (checked === undefined) {
+				throw new ParseError(`"${key}" must be ${SETTING_KIND_NAMES[kind]}, not ${JSON.stringify(value)}`, keyLine(key));
+			}
+			metadata[key] = checked;
+		}
+
+		this.currentLine = end + 1;
+		return metadata;
+	}
+
+	/**
+	 * A metadata block value as the setting's kind, or undefined when it isn't one
+	 * Lists may also be written the legacy way, as comma-separated text.
+	 */
+	private settingValue(kind: SettingKind, value: any): any {
+		switch (kind) {
+			case 'number':
+				return typeof value === 'number' ? value : undefined;
+			case 'integer':
+				return Number.isInteger(value) ? value : undefined;
+			case 'boolean':
+				return typeof value === 'boolean' ? value : undefined;
+			case 'text':
+				return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+			case 'date':
+				return typeof value === 'string' ? this.parseDate(value) : undefined;
+			case 'list':
+				if (typeof value === 'string') {
+					return value.split(',').map(entry => entry.trim());
+				}
+				return Array.isArray(value) && value.every(entry => typeof entry === 'string') ? value : undefined;
+		}
+	}
+
+	/**
+	 * Metadata from an item note's frontmatter, typed like "key: value" metadata
+	 * YAML has already typed numbers, booleans and lists; dates and comma lists are still text.
+	 */
+	private parseNoteMetadata(fields: Record<string, any>): Record<string, any> {
+		const metadata: Record<string, any> = {};
+		for (const [key, value] of Object.entries(fields)) {
+			if (key === 'canvas_type' || key === 'title' || NOTE_ID_FIELDS.includes(key)) continue;
+
+			metadata[key] = typeof value === 'string'
+				? this.parseMetadataValue(key, value)
+				: Array.isArray(value) ? value.map(entry => typeof entry === 'object' && entry !== null ? entry : String(entry)) : value;
+		}
+		return metadata;
+	}
+
 	/**
 	 * Parse metadata value (handle different types)
 	 */
@@ -290,9 +678,12 @@ export class MarkdownParser {
 		if (key === 'points' && /^\d+(\.\d+)?$/.test(value)) {
 			return parseFloat(value);
 		}
+		if ((key === 'time_limit' || key === 'allowed_attempts') && /^-?\d+$/.test(value)) {
+			return parseInt(value, 10);
+		}
 
 		// Date fields
-		if (key === 'due') {
+		if (key === 'due' || key === 'unlock' || key === 'lock') {
 			return this.parseDate(value);
 		}
 
@@ -355,20 +746,23 @@ export class MarkdownParser {
 	 * Parse a page item
 	 */
 	private parsePage(title: string): ParsedPage {
-		const ids = this.parseIds();
+		const ids = this.parseItemIds();
+		const metadata = this.noteFields ? this.parseNoteMetadata(this.noteFields) : this.parseMetadataBlock('page') ?? {};
 
-		// Pages have content directly after IDs (no metadata, no --- separator)
+		// Pages have content directly after IDs or their metadata block (no --- separator)
 		let content = '';
+		let fence: string | null = null;
 		while (this.currentLine < this.lines.length) {
 			const line = this.lines[this.currentLine];
 
 			// Stop at next module (H1) or next module item (H2 with [type] prefix)
-			// But allow regular H2/H3/etc headings within page content
-			if (line.startsWith('# ') || this.isModuleItemHeader(line)) {
+			// But allow regular H2/H3/etc headings within page content, and anything inside a fenced block
+			if (fence === null && this.isItemEnd(line)) {
 				break;
 			}
 
 			// Collect content lines
+			fence = updateFence(line, fence);
 			content += line + '\n';
 			this.currentLine++;
 		}
@@ -378,7 +772,8 @@ export class MarkdownParser {
 			title,
 			canvasPageId: ids.canvasId as string | undefined,
 			canvasModuleItemId: ids.moduleItemId,
-			body: this.unescapeMarkdown(content.trim())
+			body: this.unescapeMarkdown(content.trim()),
+			frontPage: metadata.front_page === true || undefined
 		};
 	}
 
@@ -386,15 +781,18 @@ export class MarkdownParser {
 	 * Check if a line is a module item header (## [type] Title)
 	 */
 	private isModuleItemHeader(line: string): boolean {
-		return /^##\s+\[(page|assignment|discussion|header|link|file)\]\s+/.test(line);
+		return /^##\s+\[(page|assignment|discussion|quiz|header|link|file)\]\s+/.test(line);
 	}
 
 	/**
 	 * Parse an assignment item
 	 */
 	private parseAssignment(title: string): ParsedAssignment {
-		const ids = this.parseIds();
-		const { metadata, content } = this.parseMetadataAndContent();
+		const ids = this.parseItemIds();
+		const { metadata, content } = this.parseMetadataAndContent('assignment', line => RUBRIC_HEADING.test(line));
+
+		const rubricMatch = this.lines[this.currentLine]?.match(RUBRIC_HEADING);
+		const rubric = rubricMatch ? this.parseRubric(rubricMatch[1].trim()) : undefined;
 
 		return {
 			type: 'assignment',
@@ -405,7 +803,35 @@ export class MarkdownParser {
 			pointsPossible: metadata.points,
 			dueAt: metadata.due,
 			gradingType: metadata.grade_display,
-			submissionTypes: metadata.submission_types
+			submissionTypes: metadata.submission_types,
+			rubric
+		};
+	}
+
+	/**
+	 * Parse an assignment's rubric section (the current line is its ### heading)
+	 */
+	private parseRubric(title: string): ParsedRubric {
+		const line = this.currentLine;
+		this.currentLine++;
+
+		const ids = this.parseIds();
+		const tableLines: string[] = [];
+
+		while (this.currentLine < this.lines.length) {
+			const current = this.lines[this.currentLine];
+			if (this.isItemEnd(current)) {
+				break;
+			}
+			tableLines.push(current);
+			this.currentLine++;
+		}
+
+		return {
+			title,
+			canvasRubricId: ids.canvasId as number | undefined,
+			criteria: parseRubricTable(tableLines),
+			line
 		};
 	}
 
@@ -413,8 +839,8 @@ export class MarkdownParser {
 	 * Parse a discussion item
 	 */
 	private parseDiscussion(title: string): ParsedDiscussion {
-		const ids = this.parseIds();
-		const { metadata, content } = this.parseMetadataAndContent();
+		const ids = this.parseItemIds();
+		const { metadata, content } = this.parseMetadataAndContent('discussion');
 
 		return {
 			type: 'discussion',
@@ -430,12 +856,110 @@ export class MarkdownParser {
 		};
 	}
 
+	/**
+	 * Parse a quiz item: settings, description, then one ### [type] block per question
+	 */
+	private parseQuiz(title: string): ParsedQuiz {
+		const ids = this.parseItemIds();
+		const { metadata, content } = this.parseMetadataAndContent('quiz', line => QUESTION_HEADING.test(line));
+
+		const questions: ParsedQuizQuestion[] = [];
+		while (this.currentLine < this.lines.length) {
+			const line = this.lines[this.currentLine];
+			if (this.isItemEnd(line)) {
+				break;
+			}
+
+			const match = line.match(QUESTION_HEADING);
+			if (match) {
+				questions.push(this.parseQuizQuestion(match[1].toLowerCase() as QuizQuestionType, match[2].trim()));
+			} else {
+				this.currentLine++;
+			}
+		}
+
+		return {
+			type: 'quiz',
+			title,
+			canvasQuizId: ids.canvasId as number | undefined,
+			canvasModuleItemId: ids.moduleItemId,
+			description: content,
+			quizType: metadata.quiz_type,
+			pointsPossible: metadata.points,
+			timeLimit: metadata.time_limit,
+			allowedAttempts: metadata.allowed_attempts,
+			shuffleAnswers: metadata.shuffle_answers,
+			dueAt: metadata.due,
+			unlockAt: metadata.unlock,
+			lockAt: metadata.lock,
+			questions
+		};
+	}
+
+	/**
+	 * Parse a single quiz question (the current line is its ### heading)
+	 */
+	private parseQuizQuestion(type: QuizQuestionType, title: string): ParsedQuizQuestion {
+		const line = this.currentLine;
+		this.currentLine++;
+
+		const ids = this.parseIds();
+		let pointsPossible: number | undefined;
+		const textLines: string[] = [];
+		const answers: ParsedQuizAnswer[] = [];
+		const distractors: string[] = [];
+		let fence: string | null = null;
+
+		while (this.currentLine < this.lines.length) {
+			const current = this.lines[this.currentLine];
+
+			// Stop at the next question, item or module
+			if (fence === null &&
+				(this.isItemEnd(current) || QUESTION_HEADING.test(current))) {
+				break;
+			}
+
+			const inFence = fence !== null;
+			fence = updateFence(current, fence);
+			const choice = type !== 'matching' && type !== 'essay' ? current.match(CHOICE_ANSWER) : null;
+			const pair = type === 'matching' ? current.match(MATCHING_ANSWER) : null;
+			const points = current.match(/^points:\s*(\d+(\.\d+)?)\s*$/);
+
+			if (inFence || fence !== null) {
+				textLines.push(current);
+			} else if (points && pointsPossible === undefined && textLines.every(text => !text.trim())) {
+				pointsPossible = parseFloat(points[1]);
+			} else if (choice) {
+				answers.push({ text: choice[2].trim(), correct: choice[1] !== ' ' });
+			} else if (pair && !pair[1]) {
+				distractors.push(pair[2].trim());
+			} else if (pair) {
+				answers.push({ text: pair[1].trim(), match: pair[2].trim(), correct: true });
+			} else {
+				textLines.push(current);
+			}
+
+			this.currentLine++;
+		}
+
+		return {
+			type,
+			title,
+			canvasQuestionId: ids.canvasId as number | undefined,
+			pointsPossible,
+			text: this.unescapeMarkdown(textLines.join('\n').trim()),
+			answers,
+			distractors,
+			line
+		};
+	}
+
 	/**
 	 * Parse a header item
 	 */
 	private parseHeader(title: string): ParsedHeader {
-		const ids = this.parseIds();
-		this.parseMetadataAndContent(); // Skip any content
+		const ids = this.parseItemIds();
+		this.parseMetadataAndContent('header'); // Skip any content
 
 		return {
 			type: 'header',
@@ -448,8 +972,8 @@ export class MarkdownParser {
 	 * Parse a link item
 	 */
 	private parseLink(title: string): ParsedLink {
-		const ids = this.parseIds();
-		const { metadata } = this.parseMetadataAndContent();
+		const ids = this.parseItemIds();
+		const { metadata } = this.parseMetadataAndContent('link');
 
 		return {
 			type: 'link',
@@ -463,8 +987,8 @@ export class MarkdownParser {
 	 * Parse a file item
 	 */
 	private parseFile(title: string): ParsedFile {
-		const ids = this.parseIds();
-		const { metadata } = this.parseMetadataAndContent();
+		const ids = this.parseItemIds();
+		const { metadata } = this.parseMetadataAndContent('file');
 
 		return {
 			type: 'file',
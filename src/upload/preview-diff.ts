@@ -0,0 +1,186 @@
+/**
+ * Build the Canvas vs. local text shown for changed fields in the upload preview
+ */
+
+import { htmlToMarkdownNested } from '../utils/html-to-markdown';
+import { formatCanvasDate } from '../utils/date-utils';
+import { questionFromCanvas, formatQuizQuestion } from '../canvas/quiz-questions';
+import { rubricFromCanvas, formatRubric } from '../canvas/rubrics';
+import type { CanvasPage, CanvasAssignment, CanvasDiscussion, CanvasQuiz, CanvasQuizQuestion } from '../canvas/types';
+import type { ParsedPage, ParsedAssignment, ParsedRubric, ParsedDiscussion, ParsedQuiz, FieldDiff } from './types';
+
+/**
+ * Diffs for the changed fields of a page
+ */
+export function diffPage(parsed: ParsedPage, canvas: CanvasPage, changedFields: string[]): FieldDiff[] {
+	const diffs: FieldDiff[] = [];
+
+	for (const field of changedFields) {
+		switch (field) {
+			case 'title':
+				diffs.push({ field, remote: canvas.title, local: parsed.title });
+				break;
+			case 'body':
+				diffs.push({ field, remote: bodyText(canvas.body), local: parsed.body.trim() });
+				break;
+			case 'front_page':
+				diffs.push({ field, remote: valueText(canvas.front_page ?? false), local: valueText(parsed.frontPage ?? false) });
+				break;
+		}
+	}
+
+	return diffs;
+}
+
+/**
+ * Diffs for the changed fields of an assignment
+ */
+export function diffAssignment(parsed: ParsedAssignment, canvas: CanvasAssignment, changedFields: string[]): FieldDiff[] {
+	const diffs: FieldDiff[] = [];
+
+	for (const field of changedFields) {
+		switch (field) {
+			case 'title':
+				diffs.push({ field, remote: canvas.name, local: parsed.title });
+				break;
+			case 'description':
+				diffs.push({ field, remote: bodyText(canvas.description), local: parsed.description.trim() });
+				break;
+			case 'points_possible':
+				diffs.push({ field, remote: valueText(canvas.points_possible), local: valueText(parsed.pointsPossible) });
+				break;
+			case 'due_at':
+				diffs.push({ field, remote: dateText(canvas.due_at), local: dateText(parsed.dueAt) });
+				break;
+			case 'grading_type':
+				diffs.push({ field, remote: valueText(canvas.grading_type), local: valueText(parsed.gradingType) });
+				break;
+			case 'rubric': {
+				const remote = rubricFromCanvas(canvas);
+				diffs.push({
+					field,
+					remote: remote ? rubricText(remote) : '(none)',
+					local: parsed.rubric ? rubricText(parsed.rubric) : '(none)'
+				});
+				break;
+			}
+		}
+	}
+
+	return diffs;
+}
+
+/**
+ * Diffs for the changed fields of a discussion
+ */
+export function diffDiscussion(parsed: ParsedDiscussion, canvas: CanvasDiscussion, changedFields: string[]): FieldDiff[] {
+	const diffs: FieldDiff[] = [];
+
+	for (const field of changedFields) {
+		switch (field) {
+			case 'title':
+				diffs.push({ field, remote: canvas.title, local: parsed.title });
+				break;
+			case 'message':
+				diffs.push({ field, remote: bodyText(canvas.message), local: parsed.message.trim() });
+				break;
+			case 'require_initial_post':
+				diffs.push({ field, remote: valueText(canvas.require_initial_post), local: valueText(parsed.requireInitialPost) });
+				break;
+			case 'threaded':
+				diffs.push({ field, remote: valueText(canvas.discussion_type === 'threaded'), local: valueText(parsed.threaded) });
+				break;
+			case 'graded':
+				diffs.push({ field, remote: valueText(canvas.assignment !== undefined), local: valueText(parsed.graded) });
+				break;
+			case 'points':
+				diffs.push({ field, remote: valueText(canvas.assignment?.points_possible), local: valueText(parsed.pointsPossible) });
+				break;
+			case 'due_at':
+				diffs.push({ field, remote: dateText(canvas.assignment?.due_at), local: dateText(parsed.dueAt) });
+				break;
+		}
+	}
+
+	return diffs;
+}
+
+/**
+ * Diffs for the changed fields of a quiz
+ * Questions are shown in their markdown syntax, all in one diff.
+ */
+export function diffQuiz(
+	parsed: ParsedQuiz,
+	canvas: CanvasQuiz,
+	canvasQuestions: CanvasQuizQuestion[],
+	changedFields: string[]
+): FieldDiff[] {
+	const diffs: FieldDiff[] = [];
+
+	for (const field of changedFields) {
+		switch (field) {
+			case 'title':
+				diffs.push({ field, remote: canvas.title, local: parsed.title });
+				break;
+			case 'description':
+				diffs.push({ field, remote: bodyText(canvas.description), local: parsed.description.trim() });
+				break;
+			case 'quiz_type':
+				diffs.push({ field, remote: valueText(canvas.quiz_type), local: valueText(parsed.quizType) });
+				break;
+			case 'time_limit':
+				diffs.push({ field, remote: valueText(canvas.time_limit), local: valueText(parsed.timeLimit) });
+				break;
+			case 'allowed_attempts':
+				diffs.push({ field, remote: valueText(canvas.allowed_attempts), local: valueText(parsed.allowedAttempts) });
+				break;
+			case 'shuffle_answers':
+				diffs.push({ field, remote: valueText(canvas.shuffle_answers), local: valueText(parsed.shuffleAnswers) });
+				break;
+			case 'due_at':
+				diffs.push({ field, remote: dateText(canvas.due_at), local: dateText(parsed.dueAt) });
+				break;
+			case 'unlock_at':
+				diffs.push({ field, remote: dateText(canvas.unlock_at), local: dateText(parsed.unlockAt) });
+				break;
+			case 'lock_at':
+				diffs.push({ field, remote: dateText(canvas.lock_at), local: dateText(parsed.lockAt) });
+				break;
+			case 'questions':
+				diffs.push({
+					field,
+					remote: [...canvasQuestions]
+						.sort((a, b) => a.position - b.position)
+						.map(question => formatQuizQuestion(questionFromCanvas(question)))
+						.join('')
+						.trim(),
+					local: parsed.questions.map(question => formatQuizQuestion(question)).join('').trim()
+				});
+				break;
+		}
+	}
+
+	return diffs;
+}
+
+/**
+ * Canvas HTML as markdown, the way it would appear after a download
+ */
+function bodyText(html: string | undefined): string {
+	return html ? htmlToMarkdownNested(html).trim() : '';
+}
+
+function valueText(value: unknown): string {
+	return value === undefined || value === null ? '(none)' : String(value);
+}
+
+function dateText(date: string | null | undefined): string {
+	return date ? formatCanvasDate(date) : '(none)';
+}
+
+/**
+ * Rubric table without its ID comment
+ */
+function rubricText(rubric: ParsedRubric): string {
+	return formatRubric({ ...rubric, canvasRubricId: undefined }).trim();
+}
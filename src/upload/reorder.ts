@@ -0,0 +1,44 @@
+/**
+ * Compute the position updates needed to make Canvas order match markdown order
+ */
+
+export interface PositionMove {
+	id: number;
+	from: number; // 1-based position before the move
+	to: number;   // 1-based position to send to Canvas
+}
+
+/**
+ * Plan the moves that turn the current order into the desired order
+ *
+ * Canvas inserts an item at the requested position and shifts the others, so the
+ * moves are applied top-down: each one places the next desired item right after
+ * the ones already in place. IDs that only exist in Canvas end up after the
+ * desired ones; desired IDs that don't exist in Canvas are ignored.
+ */
+export function planPositionMoves(current: number[], desired: number[]): PositionMove[] {
+	const order = [...current];
+	const present = new Set(current);
+	const target = desired.filter(id => present.has(id));
+	const moves: PositionMove[] = [];
+
+	for (let i = 0; i < target.length; i++) {
+		if (order[i] === target[i]) continue;
+
+		const from = order.indexOf(target[i]);
+		order.splice(from, 1);
+		order.splice(i, 0, target[i]);
+		moves.push({ id: target[i], from: from + 1, to: i + 1 });
+	}
+
+	return moves;
+}
+
+/**
+ * Sort Canvas objects by their position field and return their IDs
+ */
+export function idsByPosition(items: Array<{ id: number; position: number }>): number[] {
+	return [...items]
+		.sort((a, b) => a.position - b.position)
+		.map(item => item.id);
+}
@@ -0,0 +1,202 @@
+/**
+ * Base snapshots for three-way conflict detection
+ *
+ * A snapshot records what each Canvas item looked like at the last sync (download
+ * or upload). Comparing both the local markdown and the current Canvas data against
+ * it tells us which side changed.
+ */
+
+import { normalizeHtml } from '../canvas/html-normalizer';
+import { markdownToHtml } from '../canvas/markdown-renderer';
+import { hashString } from '../utils/hash';
+import type { CanvasPage, CanvasAssignment, CanvasDiscussion, CanvasQuiz } from '../canvas/types';
+import type { ParsedModuleItem } from './types';
+
+export interface SnapshotEntry {
+	hash: string;       // Hash of the normalized content and metadata
+	updatedAt?: string; // Canvas updated_at at the time of the snapshot (if Canvas reports one)
+}
+
+export interface CourseSnapshot {
+	takenAt: string;
+	items: Record<string, SnapshotEntry>; // Keyed like itemsData: page_<url>, assignment_<id>, discussion_<id>, quiz_<id>
+}
+
+export type SyncState = 'unchanged' | 'local' | 'remote' | 'conflict';
+
+/**
+ * Build a snapshot from downloaded Canvas data (the itemsData map used by the formatter)
+ */
+export function buildSnapshot(itemsData: Map<string, any>): CourseSnapshot {
+	const items: Record<string, SnapshotEntry> = {};
+
+	for (const [key, value] of itemsData) {
+		const entry = snapshotCanvasItem(key, value);
+		if (entry) {
+			items[key] = entry;
+		}
+	}
+
+	return { takenAt: new Date().toISOString(), items };
+}
+
+/**
+ * Create a snapshot entry for a Canvas page, assignment, discussion or quiz
+ * Returns null for any other key (modules, files, quiz questions, ...)
+ */
+export function snapshotCanvasItem(key: string, value: any): SnapshotEntry | null {
+	if (key.startsWith('quiz_questions_')) {
+		return null;
+	}
+
+	if (key.startsWith('quiz_')) {
+		const quiz = value as CanvasQuiz;
+		return {
+			hash: fingerprint([
+				quiz.title,
+				normalizeHtml(quiz.description || ''),
+				quiz.quiz_type,
+				quiz.time_limit,
+				quiz.allowed_attempts,
+				quiz.shuffle_answers,
+				normalizeDate(quiz.due_at),
+				normalizeDate(quiz.unlock_at),
+				normalizeDate(quiz.lock_at)
+			])
+		};
+	}
+
+	if (key.startsWith('page_')) {
+		const page = value as CanvasPage;
+		return { hash: fingerprint([page.title, normalizeHtml(page.body || '')]), updatedAt: page.updated_at };
+	}
+
+	if (key.startsWith('assignment_')) {
+		const assignment = value as CanvasAssignment;
+		return {
+			hash: fingerprint([
+				assignment.name,
+				normalizeHtml(assignment.description || ''),
+				assignment.points_possible,
+				normalizeDate(assignment.due_at)
+			]),
+			updatedAt: assignment.updated_at
+		};
+	}
+
+	if (key.startsWith('discussion_')) {
+		const discussion = value as CanvasDiscussion;
+		const graded = discussion.assignment !== undefined;
+		return {
+			hash: fingerprint([
+				discussion.title,
+				normalizeHtml(discussion.message || ''),
+				discussion.require_initial_post,
+				discussion.discussion_type === 'threaded',
+				graded,
+				graded ? discussion.assignment?.points_possible : null,
+				graded ? normalizeDate(discussion.assignment?.due_at) : null
+			])
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Snapshot key for a parsed item, or null if the item is not tracked (new item, header, link, file)
+ */
+export function snapshotKey(item: ParsedModuleItem): string | null {
+	switch (item.type) {
+		case 'page':
+			return item.canvasPageId ? `page_${item.canvasPageId}` : null;
+		case 'assignment':
+			return item.canvasAssignmentId ? `assignment_${item.canvasAssignmentId}` : null;
+		case 'discussion':
+			return item.canvasDiscussionId ? `discussion_${item.canvasDiscussionId}` : null;
+		case 'quiz':
+			return item.canvasQuizId ? `quiz_${item.canvasQuizId}` : null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Hash a parsed item using the same fields and normalization as snapshotCanvasItem
+ */
+export function localHash(item: ParsedModuleItem): string | null {
+	switch (item.type) {
+		case 'page':
+			return fingerprint([item.title, normalizeHtml(markdownToHtml(item.body))]);
+		case 'assignment':
+			return fingerprint([
+				item.title,
+				normalizeHtml(markdownToHtml(item.description)),
+				item.pointsPossible ?? null,
+				normalizeDate(item.dueAt)
+			]);
+		case 'discussion':
+			return fingerprint([
+				item.title,
+				normalizeHtml(markdownToHtml(item.message)),
+				item.requireInitialPost,
+				item.threaded,
+				item.graded,
+				item.graded ? item.pointsPossible : null,
+				item.graded ? normalizeDate(item.dueAt) : null
+			]);
+		case 'quiz':
+			return fingerprint([
+				item.title,
+				normalizeHtml(markdownToHtml(item.description)),
+				item.quizType,
+				item.timeLimit,
+				item.allowedAttempts,
+				item.shuffleAnswers,
+				normalizeDate(item.dueAt),
+				normalizeDate(item.unlockAt),
+				normalizeDate(item.lockAt)
+			]);
+		default:
+			return null;
+	}
+}
+
+/**
+ * Work out which side changed since the snapshot
+ */
+export function detectSyncState(
+	base: SnapshotEntry,
+	local: string,
+	remote: SnapshotEntry
+): SyncState {
+	const localChanged = local !== base.hash;
+
+	// An unchanged updated_at is conclusive; otherwise fall back to the content hash
+	const remoteChanged = base.updatedAt && remote.updatedAt && base.updatedAt === remote.updatedAt
+		? false
+		: remote.hash !== base.hash;
+
+	if (localChanged && remoteChanged) return 'conflict';
+	if (remoteChanged) return 'remote';
+	if (localChanged) return 'local';
+	return 'unchanged';
+}
+
+/**
+ * Hash a list of field values
+ */
+function fingerprint(fields: unknown[]): string {
+	return hashString(JSON.stringify(fields.map(field => field ?? null)));
+}
+
+/**
+ * Normalize a date to minute precision (the markdown date format has no seconds)
+ */
+function normalizeDate(date: string | null | undefined): string | null {
+	if (!date) return null;
+	const parsed = new Date(date);
+	if (isNaN(parsed.getTime())) return null;
+	parsed.setSeconds(0, 0);
+	return parsed.toISOString();
+}
@@ -1,5 +1,8 @@
 // Upload-specific type definitions
 
+import type { SnapshotEntry } from './snapshot';
+import type { CanvasFolder } from '../canvas/types';
+
 /**
  * Parsed markdown structures
  */
@@ -8,26 +11,38 @@ export interface ParsedModule {
 	title: string;
 	canvasModuleId?: number;
 	items: ParsedModuleItem[];
+	line?: number; // 0-based line of the "# Module" heading in the source file
+	section?: SectionKind; // Set for the sections downloads add for content outside modules: not a Canvas module
 }
 
+/**
+ * Kind of a section for content outside modules: "Unmoduled Content" or "Course Files"
+ */
+export type SectionKind = 'content' | 'files';
+
 export type ParsedModuleItem =
 	| ParsedPage
 	| ParsedAssignment
 	| ParsedDiscussion
+	| ParsedQuiz
 	| ParsedHeader
 	| ParsedLink
 	| ParsedFile;
 
 export interface ParsedItemBase {
-	type: 'page' | 'assignment' | 'discussion' | 'header' | 'link' | 'file';
+	type: 'page' | 'assignment' | 'discussion' | 'quiz' | 'header' | 'link' | 'file';
 	title: string;
 	canvasModuleItemId?: number;
+	line?: number;    // 0-based line of the "## [type] Title" heading in the source file
+	endLine?: number; // 0-based line where the next item or module starts (exclusive)
+	notePath?: string; // Item note the item was read from (folder layout); line and endLine then span the whole note
 }
 
 export interface ParsedPage extends ParsedItemBase {
 	type: 'page';
 	canvasPageId?: string; // URL slug
 	body: string;
+	frontPage?: boolean;   // Only set when the page should be the course's front page
 }
 
 export interface ParsedAssignment extends ParsedItemBase {
@@ -38,6 +53,27 @@ export interface ParsedAssignment extends ParsedItemBase {
 	dueAt?: string; // ISO 8601 format
 	gradingType?: string;
 	submissionTypes?: string[];
+	rubric?: ParsedRubric;
+}
+
+export interface ParsedRubric {
+	title: string;
+	canvasRubricId?: number;
+	criteria: ParsedRubricCriterion[];
+	line?: number;             // 0-based line of the "### [rubric] Title" heading in the source file
+	notePath?: string;         // Item note holding the rubric (folder layout)
+}
+
+export interface ParsedRubricCriterion {
+	description: string;
+	longDescription?: string;
+	ratings: ParsedRubricRating[];
+}
+
+export interface ParsedRubricRating {
+	description: string;
+	longDescription?: string;
+	points: number;
 }
 
 export interface ParsedDiscussion extends ParsedItemBase {
@@ -51,6 +87,44 @@ export interface ParsedDiscussion extends ParsedItemBase {
 	dueAt?: string; // ISO 8601 format
 }
 
+export interface ParsedQuiz extends ParsedItemBase {
+	type: 'quiz';
+	canvasQuizId?: number;
+	description: string;
+	quizType?: string;         // assignment, practice_quiz, graded_survey, survey
+	pointsPossible?: number;   // Informational - Canvas sums the question points
+	timeLimit?: number | null; // Minutes, null for no limit
+	allowedAttempts?: number;  // -1 for unlimited
+	shuffleAnswers?: boolean;
+	dueAt?: string;            // ISO 8601 format
+	unlockAt?: string;         // ISO 8601 format
+	lockAt?: string;           // ISO 8601 format
+	questions: ParsedQuizQuestion[];
+}
+
+/**
+ * Question types with a markdown syntax; anything else is kept as "other" and never changed
+ */
+export type QuizQuestionType = 'multiple_choice' | 'true_false' | 'short_answer' | 'essay' | 'matching' | 'other';
+
+export interface ParsedQuizQuestion {
+	type: QuizQuestionType;
+	title: string;
+	canvasQuestionId?: number;
+	pointsPossible?: number;
+	text: string;              // Question text (markdown)
+	answers: ParsedQuizAnswer[];
+	distractors: string[];     // Matching: extra right-hand options with no match
+	line?: number;             // 0-based line of the "### [type] Title" heading in the source file
+	notePath?: string;         // Item note holding the question (folder layout)
+}
+
+export interface ParsedQuizAnswer {
+	text: string;              // Answer text, or the left side for matching
+	correct: boolean;
+	match?: string;            // Matching: the right side
+}
+
 export interface ParsedHeader extends ParsedItemBase {
 	type: 'header';
 }
@@ -80,19 +154,100 @@ export interface ChangeDetection {
  * Upload preview
  */
 
+export interface UploadPreview {
+	modules: PreviewItem[];
+	deletions: PendingDeletion[];
+	files: AttachmentUpload[];   // Vault files referenced from the markdown
+	folders: CanvasFolder[];     // Course folders the files can be uploaded into
+}
+
+/**
+ * File in the vault, read through whatever hosts the upload
+ */
+export interface LocalAttachment {
+	name: string;   // File name with extension, used as the Canvas file name
+	path: string;   // Path in the vault
+	size: number;   // Bytes
+	read(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Find the vault file a link points at ("image.png", "handouts/week1.pdf"), or null if there is none
+ */
+export type AttachmentResolver = (link: string) => LocalAttachment | null;
+
+/**
+ * Vault file that an upload puts in Canvas
+ */
+export interface AttachmentUpload {
+	attachment: LocalAttachment;
+	blocks: ParsedFile[];          // [file] blocks pointing at the file (get its canvas_file_id)
+	existingFileId?: number;       // Canvas already has the file (same name and size, or same content for images)
+	assetName?: string;            // Images: hashed name in the obsidian-assets folder
+}
+
 export interface PreviewItem {
 	moduleTitle: string;
+	section?: boolean; // Content outside modules (see ParsedModule.section)
 	modulAction?: 'create' | 'update' | 'skip';
 	moduleChangedFields?: string[];
+	modulePositionChange?: PositionChange;
 	items: PreviewItemDetail[];
 }
 
 export interface PreviewItemDetail {
 	type: string;
 	title: string;
-	action: 'create' | 'update' | 'skip';
+	action: 'create' | 'update' | 'skip' | 'conflict';
 	changedFields?: string[];
+	syncKey?: string;        // Snapshot key, used to pick a conflict resolution
+	remoteChanged?: boolean; // Changed in Canvas only - skipped so the Canvas edit isn't overwritten
 	metadata?: Record<string, any>;
+	positionChange?: PositionChange;
+	move?: ModuleMove;
+	diffs?: FieldDiff[];     // Canvas vs. local text for each changed field
+}
+
+export interface FieldDiff {
+	field: string;
+	remote: string; // Current Canvas value, as markdown or plain text
+	local: string;  // Value from the markdown file
+}
+
+export interface ModuleMove {
+	fromModule: string; // Title of the Canvas module the item currently sits in
+}
+
+/**
+ * Canvas object that no longer appears in the markdown and may be removed
+ * Deletions only happen when the user opts in to each one in the preview
+ */
+export interface PendingDeletion {
+	kind: 'module' | 'module_item' | 'page' | 'assignment' | 'discussion' | 'quiz';
+	id: number | string;   // Canvas ID (URL slug for pages)
+	title: string;
+	moduleId?: number;     // Parent module (module items only)
+	moduleTitle?: string;  // Module the object was found in, for display
+	blockedReason?: string; // Set when the object must not be deleted (e.g. has submissions)
+}
+
+export interface PositionChange {
+	from: number; // 1-based position in Canvas
+	to: number;   // 1-based position in the markdown
+}
+
+/**
+ * How to settle an item that changed both locally and in Canvas since the last sync
+ */
+export type ConflictResolution = 'local' | 'remote' | 'skip';
+
+/**
+ * Choices made in the preview that the upload should apply
+ */
+export interface UploadOptions {
+	deletions?: PendingDeletion[];
+	resolutions?: Record<string, ConflictResolution>; // Keyed by PreviewItemDetail.syncKey
+	fileFolderId?: number; // Course folder for uploaded vault files (course root when unset)
 }
 
 /**
@@ -103,7 +258,46 @@ export interface UploadStats {
 	itemsCreated: number;
 	itemsUpdated: number;
 	itemsSkipped: number;
+	itemsReordered: number;
+	itemsMoved: number;
+	itemsDeleted: number;
+	filesUploaded: number;
 	errors: UploadError[];
+	createdIds: ItemIdUpdate[];
+	addedFiles: AddedFile[];
+	remoteBlocks: BlockReplacement[];
+	snapshotEntries: Record<string, SnapshotEntry | null>; // Fresh base entries; null drops a stale one
+}
+
+/**
+ * Markdown block to replace with the Canvas version of an item (conflicts resolved as "keep remote")
+ */
+export interface BlockReplacement {
+	line: number;     // 0-based line of the item heading when the file was parsed
+	endLine: number;  // 0-based line where the block ended (exclusive)
+	heading: string;  // Expected heading text, used to relocate the block if lines shifted
+	markdown: string; // Replacement block, starting with the heading line (the whole note for notePath)
+	notePath?: string; // Item note to replace instead of a block of the course file (folder layout)
+}
+
+/**
+ * File uploaded for an embed or [[File:...]] link that has no [file] block yet
+ * A block is added to the "Course Files" section so the file is tracked like a downloaded one.
+ */
+export interface AddedFile {
+	title: string;     // Canvas display name
+	filename: string;  // Vault file name
+	id: number;
+}
+
+/**
+ * Canvas IDs assigned to an item during upload, to be written back into the markdown
+ */
+export interface ItemIdUpdate {
+	line: number;          // 0-based line of the item heading when the file was parsed
+	heading: string;       // Expected heading text, used to relocate the item if lines shifted
+	ids: Record<string, string | number>; // Comment key (e.g. canvas_page_id) → value
+	notePath?: string;     // Item note to write the IDs into (folder layout)
 }
 
 export interface UploadError {
@@ -130,12 +324,14 @@ export interface CreatePageParams {
 	title: string;
 	body: string;
 	published?: boolean;
+	front_page?: boolean;
 }
 
 export interface UpdatePageParams {
 	title?: string;
 	body?: string;
 	published?: boolean;
+	front_page?: boolean;
 }
 
 export interface CreateAssignmentParams {
@@ -182,6 +378,58 @@ export interface UpdateDiscussionParams {
 	};
 }
 
+export interface CreateQuizParams {
+	title: string;
+	description: string;
+	quiz_type?: string;
+	time_limit?: number | '';   // Minutes; '' removes the limit
+	allowed_attempts?: number;
+	shuffle_answers?: boolean;
+	due_at?: string;   // ISO 8601
+	unlock_at?: string; // ISO 8601
+	lock_at?: string;   // ISO 8601
+	published?: boolean;
+}
+
+export type UpdateQuizParams = Partial<CreateQuizParams>;
+
+export interface QuizQuestionParams {
+	question_name: string;
+	question_type: string;
+	question_text: string;
+	points_possible?: number;
+	position?: number;
+	answers?: Array<{
+		answer_text?: string;
+		answer_weight?: number;
+		answer_match_left?: string;
+		answer_match_right?: string;
+	}>;
+	matching_answer_incorrect_matches?: string;
+}
+
+export interface CreateRubricParams {
+	rubric: {
+		title: string;
+		criteria: Array<{
+			description: string;
+			long_description?: string;
+			points: number;
+			ratings: Array<{
+				description: string;
+				long_description?: string;
+				points: number;
+			}>;
+		}>;
+	};
+	rubric_association: {
+		association_id: number;
+		association_type: 'Assignment';
+		purpose: 'grading';
+		use_for_grading: boolean;
+	};
+}
+
 export interface CreateModuleItemParams {
 	title: string;
 	type: string;
@@ -205,4 +453,24 @@ export interface UpdateModuleItemParams {
 export interface CourseFrontmatter {
 	canvas_course_id: string;
 	canvas_url: string;
+	canvas_layout?: CourseLayout;
 }
+
+/**
+ * How a course is stored: one course file, or a course folder with an index note and one note per item
+ */
+export type CourseLayout = 'file' | 'folder';
+
+/**
+ * Markdown file of a course in the folder layout
+ * Formatted notes have paths relative to the course folder; notes read back carry the path they were read from.
+ */
+export interface CourseNote {
+	path: string;
+	content: string;
+}
+
+/**
+ * Find the note an index link ("Week 1/Welcome") points at, or null if there is none
+ */
+export type NoteResolver = (link: string) => CourseNote | null;
@@ -0,0 +1,48 @@
+/**
+ * Write the results of an upload back into a course's markdown
+ *
+ * Kept Canvas versions are swapped in first, then new Canvas IDs are spliced in. In the
+ * folder layout, results for items read from item notes go into those notes instead.
+ */
+
+import { applyIdUpdates, appendCourseFiles } from './id-writeback';
+import { replaceBlocks } from './block-patcher';
+import { setFrontmatterFields } from '../utils/frontmatter-utils';
+import type { UploadStats } from './types';
+
+/**
+ * Patch the course file (or index note): Canvas versions, new IDs, and [file] blocks for
+ * newly uploaded vault files, so the next upload doesn't create duplicates
+ */
+export function patchCourseFile(content: string, stats: UploadStats): string {
+	return appendCourseFiles(
+		applyIdUpdates(
+			replaceBlocks(content, stats.remoteBlocks.filter(block => !block.notePath)),
+			stats.createdIds.filter(update => !update.notePath)
+		),
+		stats.addedFiles
+	);
+}
+
+/**
+ * Item notes with results to write back, by the paths they were read from
+ */
+export function patchedNotes(stats: UploadStats): string[] {
+	const paths = [...stats.remoteBlocks, ...stats.createdIds].map(result => result.notePath);
+	return Array.from(new Set(paths.filter((path): path is string => !!path)));
+}
+
+/**
+ * Patch an item note: the Canvas version replaces the whole note, the item's own IDs go
+ * into its frontmatter, and question and rubric IDs under their headings
+ */
+export function patchItemNote(path: string, content: string, stats: UploadStats): string {
+	const replacement = stats.remoteBlocks.find(block => block.notePath === path);
+	const updates = stats.createdIds.filter(update => update.notePath === path);
+	const itemIds = updates.filter(update => update.heading.startsWith('## '));
+
+	return applyIdUpdates(
+		setFrontmatterFields(replacement ? replacement.markdown : content, Object.assign({}, ...itemIds.map(update => update.ids))),
+		updates.filter(update => !itemIds.includes(update))
+	);
+}
@@ -1,30 +1,66 @@
 import { CanvasApiClient } from '../canvas/api-client';
 import { CanvasApiClientWrite } from '../canvas/api-client-write';
 import { LinkResolver } from './link-resolver';
-import { compareModule, comparePage, compareAssignment, compareDiscussion, setComparatorDebug } from './comparator';
-import { markdownToSimpleHtml } from '../canvas/html-normalizer';
+import { compareModule, comparePage, compareAssignment, compareDiscussion, compareQuiz, setComparatorDebug } from './comparator';
+import { markdownToHtml } from '../canvas/markdown-renderer';
+import { planPositionMoves, idsByPosition } from './reorder';
+import { snapshotKey, snapshotCanvasItem, localHash, detectSyncState } from './snapshot';
+import { remoteBlock } from './block-patcher';
+import { diffPage, diffAssignment, diffDiscussion, diffQuiz } from './preview-diff';
+import { planQuestionChanges, questionToParams } from '../canvas/quiz-questions';
+import { rubricToParams } from '../canvas/rubrics';
+import { planAttachmentUploads, findCourseFile, itemMarkdown, mapItemMarkdown } from './attachments';
+import { ASSETS_FOLDER, findImages, rewriteImages, assetName, attachmentHash, canvasImageMarkdown } from './image-assets';
+import { rewriteFileLinks } from './file-links';
+import { contentTypeFor } from '../utils/mime-types';
+import { mapConcurrent } from '../utils/concurrency';
+import { fetchCourseContent, fetchPageBodies, fetchQuizQuestions, fetchCourseFiles } from '../canvas/course-fetcher';
+import type { ContentList } from '../canvas/course-fetcher';
+import type { CourseSnapshot, SyncState } from './snapshot';
+import type { SendRequest } from '../canvas/transport';
 import type {
 	ParsedModule,
 	ParsedModuleItem,
 	ParsedPage,
 	ParsedAssignment,
 	ParsedDiscussion,
+	ParsedQuiz,
+	ParsedQuizQuestion,
+	ParsedRubric,
 	ParsedHeader,
 	ParsedLink,
 	ParsedFile,
 	UploadStats,
 	UploadError,
 	PreviewItem,
-	PreviewItemDetail
+	PreviewItemDetail,
+	FieldDiff,
+	PositionChange,
+	UploadPreview,
+	PendingDeletion,
+	UploadOptions,
+	ConflictResolution,
+	ChangeDetection,
+	AttachmentResolver,
+	AttachmentUpload
 } from './types';
 import type {
 	CanvasModule,
+	CanvasModuleItem,
 	CanvasPage,
 	CanvasAssignment,
 	CanvasDiscussion,
-	CanvasFile
+	CanvasQuiz,
+	CanvasQuizQuestion,
+	CanvasFile,
+	CanvasFolder
 } from '../canvas/types';
 
+/**
+ * Requests run in parallel while fetching Canvas data for comparison
+ */
+const FETCH_CONCURRENCY = 4;
+
 /**
  * Three-phase upload orchestrator
  */
@@ -35,9 +71,26 @@ export class CourseUploader {
 	private courseId: string;
 	private debug: boolean = false;
 
-	constructor(baseUrl: string, token: string, courseId: string, debug = false) {
-		this.apiClient = new CanvasApiClient(baseUrl, token);
-		this.apiClientWrite = new CanvasApiClientWrite(baseUrl, token, courseId);
+	// Canvas IDs resolved during Phase 1, used to place modules and items in Phase 3
+	private uploadedModuleIds = new Map<ParsedModule, number>();
+	private uploadedModuleItemIds = new Map<ParsedModuleItem, number>();
+
+	// Course files and folders, fetched before each preview/upload
+	private courseFiles: CanvasFile[] = [];
+	private courseFolders: CanvasFolder[] = [];
+
+	// Vault files: how to find them, and the Canvas file each [file] block ended up with
+	private resolveAttachment?: AttachmentResolver;
+	private uploadedFileIds = new Map<ParsedFile, number>();
+
+	// Three-way sync: state at the last sync, and how the user settled conflicts
+	private baseSnapshot?: CourseSnapshot;
+	private resolutions: Record<string, ConflictResolution> = {};
+	private outOfSync = new Set<string>();
+
+	constructor(baseUrl: string, token: string, courseId: string, send?: SendRequest, debug = false) {
+		this.apiClient = new CanvasApiClient(baseUrl, token, send);
+		this.apiClientWrite = new CanvasApiClientWrite(baseUrl, token, courseId, send);
 		this.linkResolver = new LinkResolver();
 		this.courseId = courseId;
 		this.debug = debug;
@@ -55,6 +108,20 @@ export class CourseUploader {
 		setComparatorDebug(enabled);
 	}
 
+	/**
+	 * Set the snapshot taken at the last sync, enabling conflict detection
+	 */
+	setBaseSnapshot(snapshot: CourseSnapshot | undefined): void {
+		this.baseSnapshot = snapshot;
+	}
+
+	/**
+	 * Set how vault files referenced from the markdown are found, enabling file uploads
+	 */
+	setAttachmentResolver(resolver: AttachmentResolver | undefined): void {
+		this.resolveAttachment = resolver;
+	}
+
 	private log(...args: any[]): void {
 		if (this.debug) {
 			console.log('[CourseUploader]', ...args);
@@ -64,7 +131,7 @@ export class CourseUploader {
 	/**
 	 * Generate preview of changes (dry-run)
 	 */
-	async generatePreview(modules: ParsedModule[]): Promise<PreviewItem[]> {
+	async generatePreview(modules: ParsedModule[]): Promise<UploadPreview> {
 		const preview: PreviewItem[] = [];
 
 		this.log('=== STARTING PREVIEW GENERATION ===');
@@ -74,25 +141,184 @@ export class CourseUploader {
 		this.linkResolver.clear();
 		await this.registerAllCourseFiles();
 
+		// Point images and files Canvas already hosts at their Canvas URLs, so they compare as unchanged
+		const images = await this.prepareImages(modules);
+		const files = [...images, ...this.planAttachments(modules)];
+		this.prepareFileLinks(modules);
+
 		// Fetch existing Canvas data for comparison
 		const canvasData = await this.fetchCanvasData(modules);
 		this.log(`Fetched Canvas data entries: ${canvasData.size}`);
 
+		// Work out which existing modules change position
+		const modulePositions = this.previewPositionChanges(
+			canvasData.get('modules') as CanvasModule[] | undefined,
+			modules.filter(module => !module.section).map(module => module.canvasModuleId)
+		);
+
 		for (const module of modules) {
-			// Skip "Course Files" section in preview - it's not a real module
-			if (module.title === 'Course Files') {
-				this.log(`\n--- Skipping "Course Files" section (not a module) ---`);
+			// Skip the files section in preview - it's not a real module
+			if (module.section === 'files') {
+				this.log(`\n--- Skipping "${module.title}" section (files, not a module) ---`);
+				continue;
+			}
+
+			if (module.section) {
+				this.log(`\n--- Processing section: "${module.title}" (not a module) ---`);
+				preview.push(await this.generateSectionPreview(module, canvasData));
 				continue;
 			}
 
 			this.log(`\n--- Processing module: "${module.title}" ---`);
 			this.log(`Module Canvas ID: ${module.canvasModuleId || 'NONE (will create)'}`);
 			const previewItem = await this.generateModulePreview(module, canvasData);
+			if (module.canvasModuleId) {
+				previewItem.modulePositionChange = modulePositions.get(module.canvasModuleId);
+			}
 			preview.push(previewItem);
 		}
 
+		// Canvas objects that were removed from the markdown
+		const deletions = await this.findDeletions(modules, canvasData);
+		this.log(`\nDeletion candidates: ${deletions.length}`);
+
+		// Vault files the upload would put in Canvas
+		this.log(`Vault files referenced: ${files.length}`);
+
 		this.log('\n=== PREVIEW GENERATION COMPLETE ===');
-		return preview;
+		return { modules: preview, deletions, files, folders: this.courseFolders };
+	}
+
+	/**
+	 * Find Canvas modules, module items and content that no longer appear in the markdown
+	 */
+	private async findDeletions(
+		modules: ParsedModule[],
+		canvasData: Map<string, any>
+	): Promise<PendingDeletion[]> {
+		const canvasModules = canvasData.get('modules') as CanvasModule[] | undefined;
+		if (!canvasModules) return [];
+
+		// Everything the markdown still refers to
+		const moduleIds = new Set<number>();
+		const moduleItemIds = new Set<number>();
+		const referenced = new Set<string>();
+		for (const module of modules) {
+			if (module.canvasModuleId) moduleIds.add(module.canvasModuleId);
+			for (const item of module.items) {
+				if (item.canvasModuleItemId) moduleItemIds.add(item.canvasModuleItemId);
+				if (item.type === 'page' && item.canvasPageId) referenced.add(`page_${item.canvasPageId}`);
+				if (item.type === 'assignment' && item.canvasAssignmentId) referenced.add(`assignment_${item.canvasAssignmentId}`);
+				if (item.type === 'discussion' && item.canvasDiscussionId) referenced.add(`discussion_${item.canvasDiscussionId}`);
+				if (item.type === 'quiz' && item.canvasQuizId) referenced.add(`quiz_${item.canvasQuizId}`);
+			}
+		}
+
+		const deletions: PendingDeletion[] = [];
+		const contentDeletions: PendingDeletion[] = [];
+		const seenContent = new Set<string>();
+
+		for (const canvasModule of canvasModules) {
+			const moduleRemoved = !moduleIds.has(canvasModule.id);
+			if (moduleRemoved) {
+				deletions.push({ kind: 'module', id: canvasModule.id, title: canvasModule.name });
+			}
+
+			const canvasItems = canvasData.get(`module_items_${canvasModule.id}`) as CanvasModuleItem[] | undefined;
+			for (const canvasItem of canvasItems || []) {
+				if (moduleItemIds.has(canvasItem.id)) continue;
+
+				// Items of a deleted module go with it; only list them when the module stays
+				if (!moduleRemoved) {
+					deletions.push({
+						kind: 'module_item',
+						id: canvasItem.id,
+						title: canvasItem.title,
+						moduleId: canvasModule.id,
+						moduleTitle: canvasModule.name
+					});
+				}
+
+				// Offer to delete the underlying content too, unless it is still used elsewhere
+				const content = await this.describeContentDeletion(canvasItem, canvasModule);
+				if (content) {
+					const key = `${content.kind}_${content.id}`;
+					if (!referenced.has(key) && !seenContent.has(key)) {
+						seenContent.add(key);
+						contentDeletions.push(content);
+					}
+				}
+			}
+		}
+
+		return [...deletions, ...contentDeletions];
+	}
+
+	/**
+	 * Describe the page/assignment/discussion/quiz behind an orphaned module item
+	 * Assignments with student submissions are marked as blocked
+	 */
+	private async describeContentDeletion(
+		canvasItem: CanvasModuleItem,
+		canvasModule: CanvasModule
+	): Promise<PendingDeletion | null> {
+		const base = { title: canvasItem.title, moduleTitle: canvasModule.name };
+
+		switch (canvasItem.type) {
+			case 'Page':
+				return canvasItem.page_url ? { ...base, kind: 'page', id: canvasItem.page_url } : null;
+			case 'Assignment': {
+				if (!canvasItem.content_id) return null;
+				const blockedReason = await this.getSubmissionBlock(canvasItem.content_id);
+				return { ...base, kind: 'assignment', id: canvasItem.content_id, blockedReason };
+			}
+			case 'Discussion': {
+				if (!canvasItem.content_id) return null;
+				let blockedReason: string | undefined;
+				try {
+					// Deleting a graded discussion also deletes its assignment
+					const discussion = await this.apiClient.getDiscussion(this.courseId, String(canvasItem.content_id));
+					if (discussion.assignment_id) {
+						blockedReason = await this.getSubmissionBlock(discussion.assignment_id);
+					}
+				} catch (error) {
+					blockedReason = 'Could not check for student submissions';
+				}
+				return { ...base, kind: 'discussion', id: canvasItem.content_id, blockedReason };
+			}
+			case 'Quiz': {
+				if (!canvasItem.content_id) return null;
+				const blockedReason = await this.getQuizSubmissionBlock(canvasItem.content_id);
+				return { ...base, kind: 'quiz', id: canvasItem.content_id, blockedReason };
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Return a reason to block deleting an assignment, or undefined if it is safe
+	 */
+	private async getSubmissionBlock(assignmentId: number): Promise<string | undefined> {
+		try {
+			const assignment = await this.apiClient.getAssignment(this.courseId, String(assignmentId));
+			return assignment.has_submitted_submissions ? 'Has student submissions' : undefined;
+		} catch (error) {
+			return 'Could not check for student submissions';
+		}
+	}
+
+	/**
+	 * Return a reason to block deleting a quiz, or undefined if it is safe
+	 * Graded quizzes have an assignment that holds the submissions.
+	 */
+	private async getQuizSubmissionBlock(quizId: number): Promise<string | undefined> {
+		try {
+			const quiz = await this.apiClient.getQuiz(this.courseId, String(quizId));
+			return quiz.assignment_id ? await this.getSubmissionBlock(quiz.assignment_id) : undefined;
+		} catch (error) {
+			return 'Could not check for student submissions';
+		}
 	}
 
 	/**
@@ -109,10 +335,29 @@ export class CourseUploader {
 
 		const moduleComparison = compareModule(module, canvasModule);
 
+		// Work out which existing items change position within the module
+		const itemPositions = this.previewPositionChanges(
+			module.canvasModuleId
+				? canvasData.get(`module_items_${module.canvasModuleId}`) as CanvasModuleItem[] | undefined
+				: undefined,
+			module.items.map(item => item.canvasModuleItemId)
+		);
+
 		// Compare items
 		const itemPreviews: PreviewItemDetail[] = [];
 		for (const item of module.items) {
 			const itemPreview = await this.generateItemPreview(item, canvasData);
+			if (item.canvasModuleItemId) {
+				itemPreview.positionChange = itemPositions.get(item.canvasModuleItemId);
+
+				// Existing item that was cut and pasted under a different module
+				const canvasItem = canvasData.get(`module_item_${item.canvasModuleItemId}`) as CanvasModuleItem | undefined;
+				if (canvasItem && canvasItem.module_id !== module.canvasModuleId) {
+					const fromModule = canvasData.get(`module_${canvasItem.module_id}`) as CanvasModule | undefined;
+					this.log(`    Moving from module ${canvasItem.module_id} to ${module.canvasModuleId || 'NEW'}`);
+					itemPreview.move = { fromModule: fromModule?.name || String(canvasItem.module_id) };
+				}
+			}
 			itemPreviews.push(itemPreview);
 		}
 
@@ -124,6 +369,27 @@ export class CourseUploader {
 		};
 	}
 
+	/**
+	 * Generate preview for a section of content outside modules (no module or item positions)
+	 */
+	private async generateSectionPreview(
+		module: ParsedModule,
+		canvasData: Map<string, any>
+	): Promise<PreviewItem> {
+		const itemPreviews: PreviewItemDetail[] = [];
+		for (const item of module.items) {
+			if (item.type !== 'header' && item.type !== 'link') {
+				itemPreviews.push(await this.generateItemPreview(item, canvasData));
+			}
+		}
+
+		return {
+			moduleTitle: module.title,
+			section: true,
+			items: itemPreviews
+		};
+	}
+
 	/**
 	 * Generate preview for a single item
 	 */
@@ -132,6 +398,7 @@ export class CourseUploader {
 		canvasData: Map<string, any>
 	): Promise<PreviewItemDetail> {
 		let comparison;
+		let diffs: FieldDiff[] | undefined;
 		let metadata: Record<string, any> = {};
 
 		this.log(`  Processing item [${item.type}]: "${item.title}"`);
@@ -152,6 +419,9 @@ export class CourseUploader {
 				}
 				comparison = comparePage(page, canvasPage);
 				this.log(`    Action: ${comparison.action}, Changed fields: [${comparison.changedFields.join(', ')}]`);
+				if (canvasPage && comparison.action === 'update') {
+					diffs = diffPage(page, canvasPage, comparison.changedFields);
+				}
 				break;
 			}
 			case 'assignment': {
@@ -171,6 +441,9 @@ export class CourseUploader {
 				}
 				comparison = compareAssignment(assignment, canvasAssignment);
 				this.log(`    Action: ${comparison.action}, Changed fields: [${comparison.changedFields.join(', ')}]`);
+				if (canvasAssignment && comparison.action === 'update') {
+					diffs = diffAssignment(assignment, canvasAssignment, comparison.changedFields);
+				}
 
 				// Add metadata for preview
 				if (assignment.pointsPossible !== undefined) {
@@ -205,6 +478,9 @@ export class CourseUploader {
 				}
 				comparison = compareDiscussion(discussion, canvasDiscussion);
 				this.log(`    Action: ${comparison.action}, Changed fields: [${comparison.changedFields.join(', ')}]`);
+				if (canvasDiscussion && comparison.action === 'update') {
+					diffs = diffDiscussion(discussion, canvasDiscussion, comparison.changedFields);
+				}
 
 				// Add metadata for preview
 				metadata.require_initial_post = discussion.requireInitialPost;
@@ -213,6 +489,38 @@ export class CourseUploader {
 				}
 				break;
 			}
+			case 'quiz': {
+				const quiz = item as ParsedQuiz;
+				this.log(`    Canvas Quiz ID: ${quiz.canvasQuizId || 'NONE'}`);
+				const canvasQuiz = quiz.canvasQuizId
+					? canvasData.get(`quiz_${quiz.canvasQuizId}`) as CanvasQuiz | undefined
+					: undefined;
+				const canvasQuestions = quiz.canvasQuizId
+					? canvasData.get(`quiz_questions_${quiz.canvasQuizId}`) as CanvasQuizQuestion[] | undefined
+					: undefined;
+				this.log(`    Canvas data found: ${!!canvasQuiz}`);
+				if (canvasQuiz) {
+					this.log(`    Canvas title: "${canvasQuiz.title}"`);
+					this.log(`    Parsed title: "${quiz.title}"`);
+					this.log(`    Canvas questions: ${canvasQuestions?.length || 0}`);
+					this.log(`    Parsed questions: ${quiz.questions.length}`);
+				}
+				comparison = compareQuiz(quiz, canvasQuiz, canvasQuestions);
+				this.log(`    Action: ${comparison.action}, Changed fields: [${comparison.changedFields.join(', ')}]`);
+				if (canvasQuiz && comparison.action === 'update') {
+					diffs = diffQuiz(quiz, canvasQuiz, canvasQuestions || [], comparison.changedFields);
+				}
+
+				// Add metadata for preview
+				metadata.questions = quiz.questions.length;
+				if (quiz.timeLimit) {
+					metadata.time_limit = quiz.timeLimit;
+				}
+				if (quiz.dueAt) {
+					metadata.due = quiz.dueAt;
+				}
+				break;
+			}
 			case 'header':
 			case 'link':
 			case 'file':
@@ -227,24 +535,72 @@ export class CourseUploader {
 				break;
 		}
 
-		return {
+		const detail: PreviewItemDetail = {
 			type: item.type,
 			title: item.title,
 			action: comparison.action,
 			changedFields: comparison.changedFields,
-			metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+			metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+			diffs
 		};
+
+		// Check whether Canvas changed too since the last sync
+		if (comparison.action === 'update') {
+			const syncState = this.getSyncState(item, canvasData);
+			this.log(`    Sync state: ${syncState || 'no snapshot'}`);
+			if (syncState === 'conflict') {
+				detail.action = 'conflict';
+				detail.syncKey = snapshotKey(item)!;
+			} else if (syncState === 'remote') {
+				detail.action = 'skip';
+				detail.remoteChanged = true;
+			}
+		}
+
+		return detail;
+	}
+
+	/**
+	 * Compute position changes for existing Canvas objects, keyed by Canvas ID
+	 */
+	private previewPositionChanges(
+		canvasItems: Array<{ id: number; position: number }> | undefined,
+		desiredIds: Array<number | undefined>
+	): Map<number, PositionChange> {
+		const changes = new Map<number, PositionChange>();
+		if (!canvasItems) return changes;
+
+		const current = idsByPosition(canvasItems);
+		const desired = desiredIds.filter((id): id is number => id !== undefined);
+
+		for (const move of planPositionMoves(current, desired)) {
+			changes.set(move.id, { from: current.indexOf(move.id) + 1, to: move.to });
+		}
+
+		return changes;
 	}
 
 	/**
 	 * Upload course content (three-phase workflow)
 	 */
-	async upload(modules: ParsedModule[], dryRun = false): Promise<UploadStats> {
+	async upload(
+		modules: ParsedModule[],
+		dryRun = false,
+		options: UploadOptions = {}
+	): Promise<UploadStats> {
 		const stats: UploadStats = {
 			itemsCreated: 0,
 			itemsUpdated: 0,
 			itemsSkipped: 0,
-			errors: []
+			itemsReordered: 0,
+			itemsMoved: 0,
+			itemsDeleted: 0,
+			filesUploaded: 0,
+			errors: [],
+			createdIds: [],
+			addedFiles: [],
+			remoteBlocks: [],
+			snapshotEntries: {}
 		};
 
 		if (dryRun) {
@@ -252,8 +608,13 @@ export class CourseUploader {
 			return stats;
 		}
 
-		// Clear link resolver
+		// Clear link resolver and IDs from any previous run
 		this.linkResolver.clear();
+		this.uploadedModuleIds.clear();
+		this.uploadedModuleItemIds.clear();
+		this.uploadedFileIds.clear();
+		this.resolutions = options.resolutions || {};
+		this.outOfSync.clear();
 
 		// Pre-register all course files for link resolution
 		await this.registerAllCourseFiles();
@@ -264,7 +625,10 @@ export class CourseUploader {
 		// Track items needing link resolution
 		const itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }> = [];
 
-		// PHASE 1: Create/Update Content
+		// PHASE 1: Create/Update Content (vault files first, so items can link to them)
+		await this.prepareImages(modules, stats);
+		await this.uploadAttachments(modules, options.fileFolderId, stats);
+		this.prepareFileLinks(modules);
 		for (const module of modules) {
 			await this.uploadModule(module, canvasData, stats, itemsNeedingLinks);
 		}
@@ -272,6 +636,9 @@ export class CourseUploader {
 		// PHASE 2: Resolve Internal Links
 		await this.resolveLinks(itemsNeedingLinks, stats);
 
+		// Remove Canvas objects the user opted to delete (before positions, so they don't take up slots)
+		await this.deleteOrphans(options.deletions || [], stats);
+
 		// PHASE 3: Module Positions
 		await this.updateModulePositions(modules, stats);
 
@@ -280,103 +647,284 @@ export class CourseUploader {
 
 	/**
 	 * Fetch existing Canvas data for comparison
+	 * Content comes from the bulk lists; only pages and quizzes in the markdown get their
+	 * bodies and questions fetched one by one. Fails when Canvas can't be read, rather than
+	 * comparing against nothing and creating everything again.
 	 */
 	private async fetchCanvasData(modules: ParsedModule[]): Promise<Map<string, any>> {
 		const data = new Map<string, any>();
 
-		try {
-			// Fetch all modules
-			const canvasModules = await this.apiClient.getModules(this.courseId);
-			for (const module of canvasModules) {
-				data.set(`module_${module.id}`, module);
+		// Module items carry the positions needed to detect reordering. The lists of content
+		// the markdown has Canvas IDs for must load, or those items would be created again.
+		const content = await fetchCourseContent(this.apiClient, this.courseId, FETCH_CONCURRENCY, {
+			required: this.requiredLists(modules)
+		});
+		data.set('modules', content.modules);
+		for (const module of content.modules) {
+			data.set(`module_${module.id}`, module);
+			data.set(`module_items_${module.id}`, module.items || []);
+			for (const item of module.items || []) {
+				data.set(`module_item_${item.id}`, item);
 			}
+		}
 
-			// Fetch content for items that have Canvas IDs
-			for (const module of modules) {
-				for (const item of module.items) {
-					try {
-						if (item.type === 'page' && (item as ParsedPage).canvasPageId) {
-							const page = await this.apiClient.getPage(this.courseId, (item as ParsedPage).canvasPageId!);
-							data.set(`page_${page.url}`, page);
-						} else if (item.type === 'assignment' && (item as ParsedAssignment).canvasAssignmentId) {
-							const assignment = await this.apiClient.getAssignment(
-								this.courseId,
-								String((item as ParsedAssignment).canvasAssignmentId)
-							);
-							data.set(`assignment_${assignment.id}`, assignment);
-						} else if (item.type === 'discussion' && (item as ParsedDiscussion).canvasDiscussionId) {
-							const discussion = await this.apiClient.getDiscussion(
-								this.courseId,
-								String((item as ParsedDiscussion).canvasDiscussionId)
-							);
-							data.set(`discussion_${discussion.id}`, discussion);
-						}
-					} catch (error) {
-						// Stale ID - ignore and treat as CREATE
-						console.warn(`Failed to fetch Canvas data for item: ${item.title}`, error);
-					}
-				}
+		const parsedItems = modules.flatMap(module => module.items);
+		const pageIds = new Set(parsedItems
+			.filter((item): item is ParsedPage => item.type === 'page' && !!(item as ParsedPage).canvasPageId)
+			.map(page => page.canvasPageId!));
+		const quizIds = new Set(parsedItems
+			.filter((item): item is ParsedQuiz => item.type === 'quiz' && !!(item as ParsedQuiz).canvasQuizId)
+			.map(quiz => quiz.canvasQuizId!));
+
+		// A renamed page is missing from the list under its old URL; Canvas still redirects that one
+		const listed = content.pages.filter(page => pageIds.has(page.url));
+		await fetchPageBodies(this.apiClient, this.courseId, listed, FETCH_CONCURRENCY);
+		for (const page of listed) {
+			data.set(`page_${page.url}`, page);
+		}
+		const unlisted = Array.from(pageIds).filter(url => !listed.some(page => page.url === url));
+		await mapConcurrent(unlisted, FETCH_CONCURRENCY, async url => {
+			try {
+				data.set(`page_${url}`, await this.apiClient.getPage(this.courseId, url));
+			} catch (error) {
+				// Stale ID - ignore and treat as CREATE
+				console.warn(`Failed to fetch Canvas data for page: ${url}`, error);
 			}
+		});
 
-		// Fetch file details for items with Canvas file IDs
-		for (const module of modules) {
-			for (const item of module.items) {
-				if (item.type === 'file' && (item as ParsedFile).canvasFileId) {
-					try {
-						const file = await this.apiClient.getFile(
-							String((item as ParsedFile).canvasFileId)
-						);
-						data.set(`file_${file.id}`, file);
-					} catch (error) {
-						// Stale ID or deleted file - log warning but continue
-						console.warn(`Failed to fetch Canvas data for file: ${item.title}`, error);
-					}
-				}
-			}
+		for (const assignment of content.assignments) {
+			data.set(`assignment_${assignment.id}`, assignment);
 		}
-		} catch (error) {
-			// Graceful degradation: if fetch fails, proceed with update anyway
-			console.warn('Failed to fetch Canvas data, proceeding with upload', error);
+		for (const discussion of content.discussions) {
+			data.set(`discussion_${discussion.id}`, discussion);
+		}
+		const quizzes = content.quizzes.filter(quiz => quizIds.has(quiz.id));
+		for (const quiz of quizzes) {
+			data.set(`quiz_${quiz.id}`, quiz);
+		}
+		const questions = await fetchQuizQuestions(
+			this.apiClient,
+			this.courseId,
+			quizzes.map(quiz => quiz.id),
+			FETCH_CONCURRENCY
+		);
+		for (const [quizId, quizQuestions] of questions) {
+			data.set(`quiz_questions_${quizId}`, quizQuestions);
+		}
+
+		// File details come from the course file list (see registerAllCourseFiles)
+		for (const file of this.courseFiles) {
+			data.set(`file_${file.id}`, file);
 		}
 
 		return data;
 	}
 
+	/**
+	 * Content lists holding items the markdown has Canvas IDs for
+	 * Graded discussions take their points and due date from the assignment list.
+	 */
+	private requiredLists(modules: ParsedModule[]): ContentList[] {
+		const required = new Set<ContentList>();
+		for (const item of modules.flatMap(module => module.items)) {
+			if (item.type === 'page' && item.canvasPageId) required.add('pages');
+			if (item.type === 'assignment' && item.canvasAssignmentId) required.add('assignments');
+			if (item.type === 'discussion' && item.canvasDiscussionId) required.add('discussions').add('assignments');
+			if (item.type === 'quiz' && item.canvasQuizId) required.add('quizzes');
+		}
+		return Array.from(required);
+	}
+
 	/**
 	 * Pre-register all course files for link resolution
+	 * The list must load: vault files missing from it would be uploaded again.
 	 */
 	private async registerAllCourseFiles(): Promise<void> {
-		try {
-			// Fetch all folders in the course
-			const folders = await this.apiClient.getCourseFolders(this.courseId);
+		const { files, folders } = await fetchCourseFiles(this.apiClient, this.courseId, true);
+		this.courseFiles = files;
+		this.courseFolders = folders;
 
-			for (const folder of folders) {
-				// Fetch all files in this folder
-				const files = await this.apiClient.getFolderFiles(folder.id);
+		for (const file of files) {
+			this.registerCourseFile(file);
+		}
+	}
 
-				for (const file of files) {
-					// Construct preview URL
-					const baseUrl = this.apiClientWrite['_baseUrl'];
-					let fileUrl = `${baseUrl}/courses/${this.courseId}/files/${file.id}`;
+	/**
+	 * Register a Canvas file for [[File:...]] link resolution under its display name and filename
+	 */
+	private registerCourseFile(file: CanvasFile, ...aliases: string[]): void {
+		// Construct preview URL
+		const baseUrl = this.apiClientWrite['_baseUrl'];
+		let fileUrl = `${baseUrl}/courses/${this.courseId}/files/${file.id}`;
+
+		// Extract verifier from download URL if present
+		const verifierMatch = file.url?.match(/[?&]verifier=([^&]+)/);
+		if (verifierMatch) {
+			fileUrl += `?verifier=${verifierMatch[1]}`;
+		}
 
-					// Extract verifier from download URL if present
-					const verifierMatch = file.url.match(/[?&]verifier=([^&]+)/);
-					if (verifierMatch) {
-						fileUrl += `?verifier=${verifierMatch[1]}`;
-					}
+		for (const name of new Set([file.display_name, file.filename, ...aliases])) {
+			if (name) {
+				this.linkResolver.register('file', name, fileUrl);
+			}
+		}
+	}
 
-					// Register with display_name
-					this.linkResolver.register('file', file.display_name, fileUrl);
+	/**
+	 * Vault files referenced from the markdown, or none when there is no way to read the vault
+	 */
+	private planAttachments(modules: ParsedModule[]): AttachmentUpload[] {
+		return this.resolveAttachment
+			? planAttachmentUploads(modules, this.resolveAttachment, this.courseFiles)
+			: [];
+	}
 
-					// Also register with filename if different
-					if (file.filename !== file.display_name) {
-						this.linkResolver.register('file', file.filename, fileUrl);
+	/**
+	 * Rewrite vault image references to the Canvas-hosted copies (in place)
+	 *
+	 * Images are stored in the obsidian-assets folder under a name with their content hash,
+	 * so an image that Canvas already has is reused. With stats (a real upload), missing
+	 * images are uploaded first; without (the preview), they are left as they are.
+	 * Returns one entry per image for the preview.
+	 */
+	private async prepareImages(modules: ParsedModule[], stats?: UploadStats): Promise<AttachmentUpload[]> {
+		const resolve = this.resolveAttachment;
+		if (!resolve) return [];
+
+		const images = new Map<string, AttachmentUpload>();
+		const items = modules.flatMap(module => module.items);
+		for (const item of items) {
+			for (const ref of itemMarkdown(item).flatMap(findImages)) {
+				const attachment = resolve(ref.link);
+				if (attachment && !images.has(attachment.path)) {
+					images.set(attachment.path, { attachment, blocks: [] });
+				}
+			}
+		}
+
+		// Identical content gets the same asset name, so it is only uploaded once
+		const fileIds = new Map<string, number>();
+		for (const image of images.values()) {
+			const { attachment } = image;
+
+			try {
+				image.assetName = assetName(attachment.name, await attachmentHash(attachment));
+				// A course file with the image's own name and size (such as a downloaded one) is used as well
+				let fileId = fileIds.get(image.assetName) ?? this.courseFiles.find(file =>
+					file.display_name === image.assetName || file.filename === image.assetName)?.id ??
+					findCourseFile(attachment, this.courseFiles)?.id;
+				image.existingFileId = fileId;
+
+				if (fileId === undefined && stats) {
+					const file = await this.apiClientWrite.uploadFile(
+						ASSETS_FOLDER,
+						image.assetName,
+						await attachment.read(),
+						contentTypeFor(attachment.name)
+					);
+					stats.filesUploaded++;
+					this.courseFiles.push(file);
+					fileId = file.id;
+				}
+
+				if (fileId !== undefined) {
+					fileIds.set(image.assetName, fileId);
+				}
+			} catch (error: any) {
+				if (!stats) {
+					console.warn(`Failed to read image "${attachment.path}"`, error);
+					continue;
+				}
+				stats.errors.push({
+					itemType: 'image',
+					itemTitle: attachment.path,
+					error: error.message || String(error)
+				});
+			}
+		}
+
+		for (const item of items) {
+			mapItemMarkdown(item, markdown => rewriteImages(markdown, ref => {
+				const attachment = resolve(ref.link);
+				const image = attachment ? images.get(attachment.path) : undefined;
+				const fileId = image?.assetName ? fileIds.get(image.assetName) : undefined;
+				return fileId !== undefined ? canvasImageMarkdown(ref.alt, this.courseId, fileId) : null;
+			}));
+		}
+
+		return Array.from(images.values());
+	}
+
+	/**
+	 * Upload the vault files referenced from the markdown into a course folder
+	 * Files Canvas already has (same name and size) are reused instead of uploaded again.
+	 */
+	private async uploadAttachments(modules: ParsedModule[], folderId: number | undefined, stats: UploadStats): Promise<void> {
+		const uploads = this.planAttachments(modules);
+		if (uploads.length === 0) return;
+
+		const targetFolderId = folderId ?? this.courseFolders.find(folder => folder.parent_folder_id === null)?.id;
+
+		for (const upload of uploads) {
+			const { attachment } = upload;
+
+			try {
+				let file: CanvasFile;
+				if (upload.existingFileId !== undefined) {
+					file = this.courseFiles.find(courseFile => courseFile.id === upload.existingFileId)!;
+				} else {
+					if (targetFolderId === undefined) {
+						throw new Error('Could not find a course folder to upload into');
+					}
+					file = await this.apiClientWrite.uploadFile(
+						targetFolderId,
+						attachment.name,
+						await attachment.read(),
+						contentTypeFor(attachment.name)
+					);
+					stats.filesUploaded++;
+					this.courseFiles.push(file);
+
+					// Embeds and links without a [file] block get one, so the next upload knows the file
+					if (upload.blocks.length === 0) {
+						stats.addedFiles.push({ title: file.display_name, filename: attachment.name, id: file.id });
+					}
+				}
+
+				this.registerCourseFile(file, attachment.name);
+				for (const block of upload.blocks) {
+					this.uploadedFileIds.set(block, file.id);
+					if (block.canvasFileId !== file.id) {
+						this.recordIds(stats, block, { canvas_file_id: file.id });
 					}
 				}
+			} catch (error: any) {
+				stats.errors.push({
+					itemType: 'file',
+					itemTitle: attachment.path,
+					error: error.message || String(error)
+				});
+			}
+		}
+	}
+
+	/**
+	 * Rewrite links and embeds of vault files that Canvas has to Canvas file links (in place)
+	 * Runs after uploadAttachments, so files uploaded by this run are linked as well.
+	 */
+	private prepareFileLinks(modules: ParsedModule[]): void {
+		const resolve = this.resolveAttachment;
+		if (!resolve) return;
+
+		const fileIdFor = (link: string) => {
+			const attachment = resolve(link);
+			return attachment ? findCourseFile(attachment, this.courseFiles)?.id : undefined;
+		};
+
+		for (const module of modules) {
+			for (const item of module.items) {
+				mapItemMarkdown(item, markdown => rewriteFileLinks(markdown, this.courseId, fileIdFor));
 			}
-		} catch (error) {
-			// Log but don't fail - link resolution is best-effort
-			console.warn('Failed to fetch course files for link resolution', error);
 		}
 	}
 
@@ -389,13 +937,15 @@ export class CourseUploader {
 		stats: UploadStats,
 		itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }>
 	): Promise<number> {
-		// Special handling for "Course Files" section - not a real module
-		if (module.title === 'Course Files') {
-			// Process files for link resolution but don't create a module
+		// Sections ("Course Files", "Unmoduled Content") are not real modules
+		if (module.section) {
+			// Update their content, but don't create a module or module items
 			for (const item of module.items) {
-				if (item.type === 'file') {
-					await this.uploadFile(item as ParsedFile, canvasData, stats);
+				if (item.type === 'header' || item.type === 'link') {
+					this.log(`Skipping [${item.type}] "${item.title}" outside a module`);
+					continue;
 				}
+				await this.uploadItem(item, undefined, canvasData, stats, itemsNeedingLinks);
 			}
 			return 0; // Return dummy moduleId since we didn't create one
 		}
@@ -414,6 +964,7 @@ export class CourseUploader {
 				const created = await this.apiClientWrite.createModule({ name: module.title });
 				moduleId = created.id;
 				stats.itemsCreated++;
+				this.recordIds(stats, module, { canvas_module_id: created.id });
 			} else if (moduleComparison.action === 'update') {
 				await this.apiClientWrite.updateModule(moduleId!, { name: module.title });
 				stats.itemsUpdated++;
@@ -421,8 +972,18 @@ export class CourseUploader {
 				stats.itemsSkipped++;
 			}
 
+			this.uploadedModuleIds.set(module, moduleId!);
+
 			// Upload items
 			for (const item of module.items) {
+				if (item.canvasModuleItemId) {
+					this.uploadedModuleItemIds.set(item, item.canvasModuleItemId);
+
+					const canvasItem = canvasData.get(`module_item_${item.canvasModuleItemId}`) as CanvasModuleItem | undefined;
+					if (canvasItem && canvasItem.module_id !== moduleId) {
+						await this.moveModuleItem(item, canvasItem, moduleId!, stats);
+					}
+				}
 				await this.uploadItem(item, moduleId!, canvasData, stats, itemsNeedingLinks);
 			}
 		} catch (error: any) {
@@ -436,12 +997,47 @@ export class CourseUploader {
 		return moduleId!;
 	}
 
+	/**
+	 * Move an existing module item into another module
+	 * Creates the item in the new module first, then removes it from the old one
+	 */
+	private async moveModuleItem(
+		item: ParsedModuleItem,
+		canvasItem: CanvasModuleItem,
+		moduleId: number,
+		stats: UploadStats
+	): Promise<void> {
+		try {
+			this.log(`Moving "${item.title}" from module ${canvasItem.module_id} to ${moduleId}`);
+
+			const moved = await this.apiClientWrite.createModuleItem(moduleId, {
+				title: item.title,
+				type: canvasItem.type,
+				content_id: canvasItem.content_id,
+				page_url: canvasItem.page_url,
+				external_url: canvasItem.external_url,
+				indent: canvasItem.indent
+			});
+			this.uploadedModuleItemIds.set(item, moved.id);
+			this.recordIds(stats, item, { canvas_module_item_id: moved.id });
+
+			await this.apiClientWrite.deleteModuleItem(canvasItem.module_id, canvasItem.id);
+			stats.itemsMoved++;
+		} catch (error: any) {
+			stats.errors.push({
+				itemType: item.type,
+				itemTitle: item.title,
+				error: `Failed to move to another module: ${error.message || String(error)}`
+			});
+		}
+	}
+
 	/**
 	 * Upload a single item
 	 */
 	private async uploadItem(
 		item: ParsedModuleItem,
-		moduleId: number,
+		moduleId: number | undefined,
 		canvasData: Map<string, any>,
 		stats: UploadStats,
 		itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }>
@@ -457,14 +1053,17 @@ export class CourseUploader {
 				case 'discussion':
 					await this.uploadDiscussion(item as ParsedDiscussion, moduleId, canvasData, stats, itemsNeedingLinks);
 					break;
+				case 'quiz':
+					await this.uploadQuiz(item as ParsedQuiz, moduleId, canvasData, stats, itemsNeedingLinks);
+					break;
 				case 'header':
-					await this.uploadHeader(item as ParsedHeader, moduleId, stats);
+					await this.uploadHeader(item as ParsedHeader, moduleId!, stats);
 					break;
 				case 'link':
-					await this.uploadLink(item as ParsedLink, moduleId, stats);
+					await this.uploadLink(item as ParsedLink, moduleId!, stats);
 					break;
 				case 'file':
-				await this.uploadFile(item as ParsedFile, canvasData, stats);
+					await this.uploadFile(item as ParsedFile, moduleId, canvasData, stats);
 					break;
 			}
 		} catch (error: any) {
@@ -481,7 +1080,7 @@ export class CourseUploader {
 	 */
 	private async uploadPage(
 		page: ParsedPage,
-		moduleId: number,
+		moduleId: number | undefined,
 		canvasData: Map<string, any>,
 		stats: UploadStats,
 		itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }>
@@ -490,15 +1089,17 @@ export class CourseUploader {
 			? canvasData.get(`page_${page.canvasPageId}`) as CanvasPage | undefined
 			: undefined;
 
-		const comparison = comparePage(page, canvasPage);
+		const comparison = this.applySyncState(page, comparePage(page, canvasPage), canvasData, stats);
 
 		if (comparison.action === 'create') {
 			const created = await this.apiClientWrite.createPage({
 				title: page.title,
-				body: markdownToSimpleHtml(page.body),
-				published: true
+				body: markdownToHtml(page.body),
+				published: true,
+				front_page: page.frontPage
 			});
 			stats.itemsCreated++;
+			this.recordSnapshot(stats, `page_${created.url}`, created);
 
 			// Register URL for link resolution
 			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/pages/${created.url}`;
@@ -510,19 +1111,25 @@ export class CourseUploader {
 			}
 
 			// Add to module
-			if (!page.canvasModuleItemId) {
-				await this.apiClientWrite.createModuleItem(moduleId, {
+			const ids: Record<string, string | number> = { canvas_page_id: created.url };
+			if (moduleId && !page.canvasModuleItemId) {
+				const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
 					title: page.title,
 					type: 'Page',
 					page_url: created.url
 				});
+				ids.canvas_module_item_id = moduleItem.id;
+				this.uploadedModuleItemIds.set(page, moduleItem.id);
 			}
+			this.recordIds(stats, page, ids);
 		} else if (comparison.action === 'update') {
-			await this.apiClientWrite.updatePage(page.canvasPageId!, {
+			const updated = await this.apiClientWrite.updatePage(page.canvasPageId!, {
 				title: page.title,
-				body: markdownToSimpleHtml(page.body)
+				body: markdownToHtml(page.body),
+				front_page: page.frontPage
 			});
 			stats.itemsUpdated++;
+			this.recordSnapshot(stats, `page_${page.canvasPageId}`, updated);
 
 			// Register URL for link resolution
 			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/pages/${page.canvasPageId}`;
@@ -535,6 +1142,10 @@ export class CourseUploader {
 		} else {
 			stats.itemsSkipped++;
 
+			if (canvasPage) {
+				this.recordSnapshot(stats, `page_${page.canvasPageId}`, canvasPage);
+			}
+
 			// Still register URL for link resolution
 			if (page.canvasPageId) {
 				const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/pages/${page.canvasPageId}`;
@@ -548,7 +1159,7 @@ export class CourseUploader {
 	 */
 	private async uploadAssignment(
 		assignment: ParsedAssignment,
-		moduleId: number,
+		moduleId: number | undefined,
 		canvasData: Map<string, any>,
 		stats: UploadStats,
 		itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }>
@@ -557,12 +1168,17 @@ export class CourseUploader {
 			? canvasData.get(`assignment_${assignment.canvasAssignmentId}`) as CanvasAssignment | undefined
 			: undefined;
 
-		const comparison = compareAssignment(assignment, canvasAssignment);
+		const comparison = this.applySyncState(
+			assignment,
+			compareAssignment(assignment, canvasAssignment),
+			canvasData,
+			stats
+		);
 
 		if (comparison.action === 'create') {
 			const created = await this.apiClientWrite.createAssignment({
 				name: assignment.title,
-				description: markdownToSimpleHtml(assignment.description),
+				description: markdownToHtml(assignment.description),
 				points_possible: assignment.pointsPossible,
 				due_at: assignment.dueAt,
 				grading_type: assignment.gradingType,
@@ -570,6 +1186,7 @@ export class CourseUploader {
 				published: true
 			});
 			stats.itemsCreated++;
+			this.recordSnapshot(stats, `assignment_${created.id}`, created);
 
 			// Register URL for link resolution
 			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/assignments/${created.id}`;
@@ -581,23 +1198,41 @@ export class CourseUploader {
 			}
 
 			// Add to module
-			if (!assignment.canvasModuleItemId) {
-				await this.apiClientWrite.createModuleItem(moduleId, {
+			const ids: Record<string, string | number> = { canvas_assignment_id: created.id };
+			if (moduleId && !assignment.canvasModuleItemId) {
+				const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
 					title: assignment.title,
 					type: 'Assignment',
 					content_id: created.id
 				});
+				ids.canvas_module_item_id = moduleItem.id;
+				this.uploadedModuleItemIds.set(assignment, moduleItem.id);
+			}
+			this.recordIds(stats, assignment, ids);
+
+			if (assignment.rubric) {
+				await this.uploadRubric(assignment.rubric, created.id, false, stats);
 			}
 		} else if (comparison.action === 'update') {
-			await this.apiClientWrite.updateAssignment(assignment.canvasAssignmentId!, {
+			const updated = await this.apiClientWrite.updateAssignment(assignment.canvasAssignmentId!, {
 				name: assignment.title,
-				description: markdownToSimpleHtml(assignment.description),
+				description: markdownToHtml(assignment.description),
 				points_possible: assignment.pointsPossible,
 				due_at: assignment.dueAt,
 				grading_type: assignment.gradingType
 				// Note: Cannot update submission_types (Canvas limitation)
 			});
 			stats.itemsUpdated++;
+			this.recordSnapshot(stats, `assignment_${assignment.canvasAssignmentId}`, updated);
+
+			if (assignment.rubric && comparison.changedFields.includes('rubric')) {
+				await this.uploadRubric(
+					assignment.rubric,
+					assignment.canvasAssignmentId!,
+					canvasAssignment?.use_rubric_for_grading ?? false,
+					stats
+				);
+			}
 
 			// Register URL for link resolution
 			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/assignments/${assignment.canvasAssignmentId}`;
@@ -610,6 +1245,10 @@ export class CourseUploader {
 		} else {
 			stats.itemsSkipped++;
 
+			if (canvasAssignment) {
+				this.recordSnapshot(stats, `assignment_${assignment.canvasAssignmentId}`, canvasAssignment);
+			}
+
 			// Still register URL for link resolution
 			if (assignment.canvasAssignmentId) {
 				const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/assignments/${assignment.canvasAssignmentId}`;
@@ -618,12 +1257,27 @@ export class CourseUploader {
 		}
 	}
 
+	/**
+	 * Attach a rubric to an assignment
+	 * A new rubric is always created: editing the existing one in place would change every
+	 * assignment that shares it. The new association replaces the assignment's old rubric.
+	 */
+	private async uploadRubric(
+		rubric: ParsedRubric,
+		assignmentId: number,
+		useForGrading: boolean,
+		stats: UploadStats
+	): Promise<void> {
+		const created = await this.apiClientWrite.createRubric(rubricToParams(rubric, assignmentId, useForGrading));
+		this.recordIds(stats, rubric, { canvas_rubric_id: created.rubric.id });
+	}
+
 	/**
 	 * Upload a discussion
 	 */
 	private async uploadDiscussion(
 		discussion: ParsedDiscussion,
-		moduleId: number,
+		moduleId: number | undefined,
 		canvasData: Map<string, any>,
 		stats: UploadStats,
 		itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }>
@@ -632,12 +1286,17 @@ export class CourseUploader {
 			? canvasData.get(`discussion_${discussion.canvasDiscussionId}`) as CanvasDiscussion | undefined
 			: undefined;
 
-		const comparison = compareDiscussion(discussion, canvasDiscussion);
+		const comparison = this.applySyncState(
+			discussion,
+			compareDiscussion(discussion, canvasDiscussion),
+			canvasData,
+			stats
+		);
 
 		if (comparison.action === 'create') {
 			const params: any = {
 				title: discussion.title,
-				message: markdownToSimpleHtml(discussion.message),
+				message: markdownToHtml(discussion.message),
 				discussion_type: discussion.threaded ? 'threaded' : 'side_comment',
 				require_initial_post: discussion.requireInitialPost,
 				published: true
@@ -652,6 +1311,7 @@ export class CourseUploader {
 
 			const created = await this.apiClientWrite.createDiscussion(params);
 			stats.itemsCreated++;
+			await this.recordDiscussionSnapshot(stats, created.id);
 
 			// Register URL for link resolution
 			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/discussion_topics/${created.id}`;
@@ -663,17 +1323,21 @@ export class CourseUploader {
 			}
 
 			// Add to module
-			if (!discussion.canvasModuleItemId) {
-				await this.apiClientWrite.createModuleItem(moduleId, {
+			const ids: Record<string, string | number> = { canvas_discussion_id: created.id };
+			if (moduleId && !discussion.canvasModuleItemId) {
+				const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
 					title: discussion.title,
 					type: 'Discussion',
 					content_id: created.id
 				});
+				ids.canvas_module_item_id = moduleItem.id;
+				this.uploadedModuleItemIds.set(discussion, moduleItem.id);
 			}
+			this.recordIds(stats, discussion, ids);
 		} else if (comparison.action === 'update') {
 			const params: any = {
 				title: discussion.title,
-				message: markdownToSimpleHtml(discussion.message),
+				message: markdownToHtml(discussion.message),
 				discussion_type: discussion.threaded ? 'threaded' : 'side_comment',
 				require_initial_post: discussion.requireInitialPost
 			};
@@ -687,6 +1351,7 @@ export class CourseUploader {
 
 			await this.apiClientWrite.updateDiscussion(discussion.canvasDiscussionId!, params);
 			stats.itemsUpdated++;
+			await this.recordDiscussionSnapshot(stats, discussion.canvasDiscussionId!);
 
 			// Register URL for link resolution
 			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/discussion_topics/${discussion.canvasDiscussionId}`;
@@ -699,6 +1364,10 @@ export class CourseUploader {
 		} else {
 			stats.itemsSkipped++;
 
+			if (canvasDiscussion) {
+				this.recordSnapshot(stats, `discussion_${discussion.canvasDiscussionId}`, canvasDiscussion);
+			}
+
 			// Still register URL for link resolution
 			if (discussion.canvasDiscussionId) {
 				const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/discussion_topics/${discussion.canvasDiscussionId}`;
@@ -707,16 +1376,177 @@ export class CourseUploader {
 		}
 	}
 
+	/**
+	 * Upload a quiz (Classic Quizzes) and its questions
+	 */
+	private async uploadQuiz(
+		quiz: ParsedQuiz,
+		moduleId: number | undefined,
+		canvasData: Map<string, any>,
+		stats: UploadStats,
+		itemsNeedingLinks: Array<{ type: string; id: number | string; content: string }>
+	): Promise<void> {
+		const canvasQuiz = quiz.canvasQuizId
+			? canvasData.get(`quiz_${quiz.canvasQuizId}`) as CanvasQuiz | undefined
+			: undefined;
+		const canvasQuestions = quiz.canvasQuizId
+			? canvasData.get(`quiz_questions_${quiz.canvasQuizId}`) as CanvasQuizQuestion[] | undefined
+			: undefined;
+
+		const comparison = this.applySyncState(
+			quiz,
+			compareQuiz(quiz, canvasQuiz, canvasQuestions),
+			canvasData,
+			stats
+		);
+
+		if (comparison.action === 'create') {
+			// Create unpublished, add the questions, then publish so students get them all at once
+			const created = await this.apiClientWrite.createQuiz({ ...this.quizParams(quiz), published: false });
+			await this.syncQuizQuestions(quiz, created.id, [], stats);
+			const published = await this.apiClientWrite.updateQuiz(created.id, { published: true });
+			stats.itemsCreated++;
+			this.recordSnapshot(stats, `quiz_${created.id}`, published);
+
+			// Register URL for link resolution
+			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/quizzes/${created.id}`;
+			this.linkResolver.register('quiz', quiz.title, url);
+
+			// Check if content needs link resolution
+			if (this.linkResolver.hasInternalLinks(quiz.description)) {
+				itemsNeedingLinks.push({ type: 'quiz', id: created.id, content: quiz.description });
+			}
+
+			// Add to module
+			const ids: Record<string, string | number> = { canvas_quiz_id: created.id };
+			if (moduleId && !quiz.canvasModuleItemId) {
+				const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
+					title: quiz.title,
+					type: 'Quiz',
+					content_id: created.id
+				});
+				ids.canvas_module_item_id = moduleItem.id;
+				this.uploadedModuleItemIds.set(quiz, moduleItem.id);
+			}
+			this.recordIds(stats, quiz, ids);
+		} else if (comparison.action === 'update') {
+			let updated = await this.apiClientWrite.updateQuiz(quiz.canvasQuizId!, this.quizParams(quiz));
+
+			if (comparison.changedFields.includes('questions')) {
+				await this.syncQuizQuestions(quiz, quiz.canvasQuizId!, canvasQuestions || [], stats);
+
+				// A published quiz has to be saved again before students see question changes
+				if (canvasQuiz?.published) {
+					updated = await this.apiClientWrite.updateQuiz(quiz.canvasQuizId!, { published: true });
+				}
+			}
+			stats.itemsUpdated++;
+			this.recordSnapshot(stats, `quiz_${quiz.canvasQuizId}`, updated);
+
+			// Register URL for link resolution
+			const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/quizzes/${quiz.canvasQuizId}`;
+			this.linkResolver.register('quiz', quiz.title, url);
+
+			// Check if content needs link resolution
+			if (this.linkResolver.hasInternalLinks(quiz.description)) {
+				itemsNeedingLinks.push({ type: 'quiz', id: quiz.canvasQuizId!, content: quiz.description });
+			}
+		} else {
+			stats.itemsSkipped++;
+
+			if (canvasQuiz) {
+				this.recordSnapshot(stats, `quiz_${quiz.canvasQuizId}`, canvasQuiz);
+			}
+
+			// Still register URL for link resolution
+			if (quiz.canvasQuizId) {
+				const url = `${this.apiClientWrite['_baseUrl']}/courses/${this.courseId}/quizzes/${quiz.canvasQuizId}`;
+				this.linkResolver.register('quiz', quiz.title, url);
+			}
+		}
+	}
+
+	/**
+	 * Quiz settings and description as API parameters
+	 */
+	private quizParams(quiz: ParsedQuiz) {
+		return {
+			title: quiz.title,
+			description: markdownToHtml(quiz.description),
+			quiz_type: quiz.quizType,
+			time_limit: quiz.timeLimit === null ? '' as const : quiz.timeLimit,
+			allowed_attempts: quiz.allowedAttempts,
+			shuffle_answers: quiz.shuffleAnswers,
+			due_at: quiz.dueAt,
+			unlock_at: quiz.unlockAt,
+			lock_at: quiz.lockAt
+		};
+	}
+
+	/**
+	 * Create, update and delete quiz questions so Canvas matches the markdown
+	 * Question order follows the markdown; errors are recorded per question.
+	 */
+	private async syncQuizQuestions(
+		quiz: ParsedQuiz,
+		quizId: number,
+		canvasQuestions: CanvasQuizQuestion[],
+		stats: UploadStats
+	): Promise<void> {
+		const changes = planQuestionChanges(quiz.questions, canvasQuestions);
+		const position = (question: ParsedQuizQuestion) => quiz.questions.indexOf(question) + 1;
+
+		const run = async (title: string, action: () => Promise<void>) => {
+			try {
+				await action();
+			} catch (error: any) {
+				stats.errors.push({
+					itemType: 'quiz question',
+					itemTitle: `${quiz.title}: ${title}`,
+					error: error.message || String(error)
+				});
+			}
+		};
+
+		for (const question of changes.remove) {
+			await run(question.question_name, async () => {
+				this.log(`Deleting question "${question.question_name}" from quiz ${quizId}`);
+				await this.apiClientWrite.deleteQuizQuestion(quizId, question.id);
+			});
+		}
+
+		for (const question of changes.update) {
+			await run(question.title, async () => {
+				this.log(`Updating question "${question.title}" in quiz ${quizId}`);
+				await this.apiClientWrite.updateQuizQuestion(
+					quizId,
+					question.canvasQuestionId!,
+					questionToParams(question, position(question))
+				);
+			});
+		}
+
+		for (const question of changes.create) {
+			await run(question.title, async () => {
+				this.log(`Creating question "${question.title}" in quiz ${quizId}`);
+				const created = await this.apiClientWrite.createQuizQuestion(quizId, questionToParams(question, position(question)));
+				this.recordIds(stats, question, { canvas_question_id: created.id });
+			});
+		}
+	}
+
 	/**
 	 * Upload a header (SubHeader)
 	 */
 	private async uploadHeader(header: ParsedHeader, moduleId: number, stats: UploadStats): Promise<void> {
 		if (!header.canvasModuleItemId) {
-			await this.apiClientWrite.createModuleItem(moduleId, {
+			const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
 				title: header.title,
 				type: 'SubHeader'
 			});
 			stats.itemsCreated++;
+			this.recordIds(stats, header, { canvas_module_item_id: moduleItem.id });
+			this.uploadedModuleItemIds.set(header, moduleItem.id);
 		} else {
 			stats.itemsSkipped++;
 		}
@@ -727,30 +1557,47 @@ export class CourseUploader {
 	 */
 	private async uploadLink(link: ParsedLink, moduleId: number, stats: UploadStats): Promise<void> {
 		if (!link.canvasModuleItemId) {
-			await this.apiClientWrite.createModuleItem(moduleId, {
+			const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
 				title: link.title,
 				type: 'ExternalUrl',
 				external_url: link.url
 			});
 			stats.itemsCreated++;
+			this.recordIds(stats, link, { canvas_module_item_id: moduleItem.id });
+			this.uploadedModuleItemIds.set(link, moduleItem.id);
 		} else {
 			stats.itemsSkipped++;
 		}
 	}
 
 	/**
-	 * Register a file for link resolution (files cannot be uploaded via API)
+	 * Register a file for link resolution, and add it to its module if it isn't there yet
+	 * The file itself is uploaded from the vault before Phase 1 (see uploadAttachments).
 	 */
 	private async uploadFile(
 		file: ParsedFile,
+		moduleId: number | undefined,
 		canvasData: Map<string, any>,
 		stats: UploadStats
 	): Promise<void> {
-		// Files cannot be uploaded via API, always skip
-		stats.itemsSkipped++;
+		const fileId = this.uploadedFileIds.get(file) ??
+			(canvasData.has(`file_${file.canvasFileId}`) ? file.canvasFileId : undefined);
+
+		if (moduleId && fileId && !file.canvasModuleItemId) {
+			const moduleItem = await this.apiClientWrite.createModuleItem(moduleId, {
+				title: file.title,
+				type: 'File',
+				content_id: fileId
+			});
+			stats.itemsCreated++;
+			this.recordIds(stats, file, { canvas_module_item_id: moduleItem.id });
+			this.uploadedModuleItemIds.set(file, moduleItem.id);
+		} else {
+			stats.itemsSkipped++;
+		}
 
-		// Register file in LinkResolver if it exists in Canvas
-		if (file.canvasFileId) {
+		// Register file in LinkResolver if it exists in Canvas (uploaded files already are)
+		if (file.canvasFileId && !this.uploadedFileIds.has(file)) {
 			const canvasFile = canvasData.get(`file_${file.canvasFileId}`) as CanvasFile | undefined;
 
 			if (canvasFile) {
@@ -793,6 +1640,127 @@ export class CourseUploader {
 		}
 	}
 
+	/**
+	 * Compare an item against the base snapshot, or null when there is nothing to compare with
+	 */
+	private getSyncState(item: ParsedModuleItem, canvasData: Map<string, any>): SyncState | null {
+		const key = snapshotKey(item);
+		const base = key ? this.baseSnapshot?.items[key] : undefined;
+		const canvasItem = key ? canvasData.get(key) : undefined;
+		if (!key || !base || !canvasItem) return null;
+
+		const remote = snapshotCanvasItem(key, canvasItem);
+		const local = localHash(item);
+		if (!remote || !local) return null;
+
+		return detectSyncState(base, local, remote);
+	}
+
+	/**
+	 * Hold back updates that would overwrite edits made in Canvas since the last sync
+	 * Conflicts follow the resolution picked in the preview (skip by default)
+	 */
+	private applySyncState(
+		item: ParsedModuleItem,
+		comparison: ChangeDetection,
+		canvasData: Map<string, any>,
+		stats: UploadStats
+	): ChangeDetection {
+		if (comparison.action !== 'update') return comparison;
+
+		const syncState = this.getSyncState(item, canvasData);
+		const key = snapshotKey(item)!;
+		const skip: ChangeDetection = { hasChanges: false, changedFields: [], action: 'skip' };
+
+		if (syncState === 'remote') {
+			this.log(`Skipping "${item.title}": only changed in Canvas since the last sync`);
+			this.outOfSync.add(key);
+			return skip;
+		}
+
+		if (syncState !== 'conflict') return comparison;
+
+		const resolution = this.resolutions[key] || 'skip';
+		this.log(`Conflict on "${item.title}" resolved as: ${resolution}`);
+
+		if (resolution === 'local') return comparison;
+
+		if (resolution === 'remote') {
+			this.recordRemoteBlock(item, canvasData, stats);
+		} else {
+			this.outOfSync.add(key);
+		}
+		return skip;
+	}
+
+	/**
+	 * Queue the Canvas version of an item to replace its block in the markdown
+	 */
+	private recordRemoteBlock(item: ParsedModuleItem, canvasData: Map<string, any>, stats: UploadStats): void {
+		const canvasItem = item.canvasModuleItemId
+			? canvasData.get(`module_item_${item.canvasModuleItemId}`) as CanvasModuleItem | undefined
+			: undefined;
+
+		if (!canvasItem || item.line === undefined || item.endLine === undefined) {
+			this.outOfSync.add(snapshotKey(item)!);
+			stats.errors.push({
+				itemType: item.type,
+				itemTitle: item.title,
+				error: 'Could not replace with the Canvas version: module item not found'
+			});
+			return;
+		}
+
+		stats.remoteBlocks.push(remoteBlock(item, canvasItem, canvasData));
+	}
+
+	/**
+	 * Record a fresh base snapshot entry for an item that is now in sync with Canvas
+	 */
+	private recordSnapshot(stats: UploadStats, key: string, canvasObject: any): void {
+		if (this.outOfSync.has(key)) return;
+
+		const entry = snapshotCanvasItem(key, canvasObject);
+		if (entry) {
+			stats.snapshotEntries[key] = entry;
+		}
+	}
+
+	/**
+	 * Discussion write responses don't match the GET shape, so snapshot a fresh copy
+	 */
+	private async recordDiscussionSnapshot(stats: UploadStats, topicId: number): Promise<void> {
+		try {
+			const discussion = await this.apiClient.getDiscussion(this.courseId, String(topicId));
+			this.recordSnapshot(stats, `discussion_${topicId}`, discussion);
+		} catch (error) {
+			// Drop the stale entry so the next upload falls back to two-way comparison
+			console.warn(`Failed to snapshot discussion ${topicId}`, error);
+			stats.snapshotEntries[`discussion_${topicId}`] = null;
+		}
+	}
+
+	/**
+	 * Record Canvas IDs assigned to a module, item or quiz question so they can be written back into the markdown
+	 */
+	private recordIds(
+		stats: UploadStats,
+		source: ParsedModule | ParsedModuleItem | ParsedQuizQuestion | ParsedRubric,
+		ids: Record<string, string | number>
+	): void {
+		if (source.line === undefined) return;
+
+		const notePath = 'items' in source ? undefined : source.notePath;
+		const heading = 'items' in source
+			? `# ${source.title}`
+			: 'criteria' in source
+				? `### [rubric] ${source.title}`
+				: 'answers' in source
+					? `### [${source.type}] ${source.title}`
+					: `## [${source.type}] ${source.title}`;
+		stats.createdIds.push({ line: source.line, heading, ids, notePath });
+	}
+
 	/**
 	 * Phase 2: Resolve internal links
 	 */
@@ -806,15 +1774,21 @@ export class CourseUploader {
 
 			if (hasLinks) {
 				// Convert resolved markdown to HTML (resolved content has <a> tags mixed with markdown)
-				const resolvedHtml = markdownToSimpleHtml(resolved);
+				const resolvedHtml = markdownToHtml(resolved);
 
 				// Update content with resolved links
 				if (item.type === 'page') {
-					await this.apiClientWrite.updatePage(item.id as string, { body: resolvedHtml });
+					const updated = await this.apiClientWrite.updatePage(item.id as string, { body: resolvedHtml });
+					this.recordSnapshot(stats, `page_${item.id}`, updated);
 				} else if (item.type === 'assignment') {
-					await this.apiClientWrite.updateAssignment(item.id as number, { description: resolvedHtml });
+					const updated = await this.apiClientWrite.updateAssignment(item.id as number, { description: resolvedHtml });
+					this.recordSnapshot(stats, `assignment_${item.id}`, updated);
 				} else if (item.type === 'discussion') {
 					await this.apiClientWrite.updateDiscussion(item.id as number, { message: resolvedHtml });
+					await this.recordDiscussionSnapshot(stats, item.id as number);
+				} else if (item.type === 'quiz') {
+					const updated = await this.apiClientWrite.updateQuiz(item.id as number, { description: resolvedHtml });
+					this.recordSnapshot(stats, `quiz_${item.id}`, updated);
 				}
 			}
 			} catch (error: any) {
@@ -828,11 +1802,139 @@ export class CourseUploader {
 	}
 
 	/**
-	 * Phase 3: Update module positions (placeholder)
+	 * Delete the Canvas objects selected in the preview
+	 * Modules and module items go first, content after, so module items never point at deleted content
+	 */
+	private async deleteOrphans(deletions: PendingDeletion[], stats: UploadStats): Promise<void> {
+		const order: PendingDeletion['kind'][] = ['module', 'module_item', 'page', 'assignment', 'discussion', 'quiz'];
+		const sorted = deletions
+			.filter(deletion => !deletion.blockedReason)
+			.sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+
+		for (const deletion of sorted) {
+			try {
+				this.log(`Deleting ${deletion.kind} "${deletion.title}" (${deletion.id})`);
+				switch (deletion.kind) {
+					case 'module':
+						await this.apiClientWrite.deleteModule(deletion.id as number);
+						break;
+					case 'module_item':
+						await this.apiClientWrite.deleteModuleItem(deletion.moduleId!, deletion.id as number);
+						break;
+					case 'page':
+						await this.apiClientWrite.deletePage(deletion.id as string);
+						break;
+					case 'assignment': {
+						// Check again right before deleting - a student may have submitted since the preview
+						const blockedReason = await this.getSubmissionBlock(deletion.id as number);
+						if (blockedReason) {
+							throw new Error(`Not deleted: ${blockedReason}`);
+						}
+						await this.apiClientWrite.deleteAssignment(deletion.id as number);
+						break;
+					}
+					case 'discussion': {
+						const discussion = await this.apiClient.getDiscussion(this.courseId, String(deletion.id));
+						const blockedReason = discussion.assignment_id
+							? await this.getSubmissionBlock(discussion.assignment_id)
+							: undefined;
+						if (blockedReason) {
+							throw new Error(`Not deleted: ${blockedReason}`);
+						}
+						await this.apiClientWrite.deleteDiscussion(deletion.id as number);
+						break;
+					}
+					case 'quiz': {
+						const blockedReason = await this.getQuizSubmissionBlock(deletion.id as number);
+						if (blockedReason) {
+							throw new Error(`Not deleted: ${blockedReason}`);
+						}
+						await this.apiClientWrite.deleteQuiz(deletion.id as number);
+						break;
+					}
+				}
+				stats.itemsDeleted++;
+			} catch (error: any) {
+				stats.errors.push({
+					itemType: deletion.kind,
+					itemTitle: deletion.title,
+					error: `Failed to delete: ${error.message || String(error)}`
+				});
+			}
+		}
+	}
+
+	/**
+	 * Phase 3: Make module and module item order in Canvas match the markdown
 	 */
 	private async updateModulePositions(modules: ParsedModule[], stats: UploadStats): Promise<void> {
-		// This would update module item positions if needed
-		// For now, items are added in order, so positions should be correct
-		// Future enhancement: reorder items if positions change
+		const realModules = modules.filter(module => this.uploadedModuleIds.has(module));
+
+		// Re-fetch so positions include anything created in Phase 1
+		let canvasModules: CanvasModule[];
+		try {
+			canvasModules = await this.apiClient.getModulesWithItems(this.courseId);
+		} catch (error: any) {
+			stats.errors.push({
+				itemType: 'module',
+				itemTitle: 'Module positions',
+				error: error.message || String(error)
+			});
+			return;
+		}
+
+		// Modules
+		const moduleMoves = planPositionMoves(
+			idsByPosition(canvasModules),
+			realModules.map(module => this.uploadedModuleIds.get(module)!)
+		);
+		for (const move of moduleMoves) {
+			const module = realModules.find(m => this.uploadedModuleIds.get(m) === move.id)!;
+			try {
+				this.log(`Moving module "${module.title}" from position ${move.from} to ${move.to}`);
+				await this.apiClientWrite.updateModule(move.id, { position: move.to });
+				stats.itemsReordered++;
+			} catch (error: any) {
+				stats.errors.push({
+					itemType: 'module',
+					itemTitle: module.title,
+					error: `Failed to reorder: ${error.message || String(error)}`
+				});
+			}
+		}
+
+		// Items within each module
+		for (const module of realModules) {
+			const moduleId = this.uploadedModuleIds.get(module)!;
+			try {
+				// Very large modules come without their items
+				const canvasItems = canvasModules.find(m => m.id === moduleId)?.items ||
+					await this.apiClient.getModuleItems(this.courseId, moduleId.toString());
+				const desired = module.items
+					.map(item => this.uploadedModuleItemIds.get(item))
+					.filter((id): id is number => id !== undefined);
+
+				for (const move of planPositionMoves(idsByPosition(canvasItems), desired)) {
+					const item = module.items.find(i => this.uploadedModuleItemIds.get(i) === move.id);
+					try {
+						this.log(`Moving item "${item?.title}" from position ${move.from} to ${move.to}`);
+						await this.apiClientWrite.updateModuleItem(moduleId, move.id, { position: move.to });
+						stats.itemsReordered++;
+					} catch (error: any) {
+						stats.errors.push({
+							itemType: item?.type || 'module item',
+							itemTitle: item?.title || String(move.id),
+							error: `Failed to reorder: ${error.message || String(error)}`
+						});
+					}
+				}
+			} catch (error: any) {
+				stats.errors.push({
+					itemType: 'module',
+					itemTitle: module.title,
+					error: `Failed to fetch items for reordering: ${error.message || String(error)}`
+				});
+			}
+		}
 	}
 }
@@ -0,0 +1,32 @@
+import { mapConcurrent } from './concurrency';
+
+describe('mapConcurrent', () => {
+	it('keeps at most `limit` calls in flight and returns results in input order', async () => {
+		let running = 0;
+		let peak = 0;
+
+		const results = await mapConcurrent([30, 10, 20, 0, 5], 2, async (delay, index) => {
+			running++;
+			peak = Math.max(peak, running);
+			await new Promise(resolve => setTimeout(resolve, delay));
+			running--;
+			return index;
+		});
+
+		expect(results).toEqual([0, 1, 2, 3, 4]);
+		expect(peak).toBe(2);
+	});
+
+	it('stops starting calls after a failure and rejects with it', async () => {
+		const started: number[] = [];
+
+		const run = mapConcurrent([1, 2, 3, 4], 1, async (item) => {
+			started.push(item);
+			if (item === 2) throw new Error('boom');
+			return item;
+		});
+
+		await expect(run).rejects.toThrow('boom');
+		expect(started).toEqual([1, 2]);
+	});
+});
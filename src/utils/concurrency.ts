@@ -0,0 +1,34 @@
+/**
+ * Run an async function over a list with at most `limit` calls in flight
+ * Results keep the order of the input. After a rejection no new calls are started, and
+ * the run rejects with it once the calls already in flight have settled.
+ */
+export async function mapConcurrent<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	let failed = false;
+
+	const worker = async () => {
+		while (!failed && next < items.length) {
+			const index = next++;
+			try {
+				results[index] = await fn(items[index], index);
+			} catch (error) {
+				failed = true;
+				throw error;
+			}
+		}
+	};
+
+	const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+	const settled = await Promise.allSettled(workers);
+	const rejected = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+	if (rejected) {
+		throw rejected.reason;
+	}
+	return results;
+}
@@ -0,0 +1,17 @@
+/**
+ * Format ISO date to "2026-01-20 02:00pm" format (local time), as used in course markdown
+ */
+export function formatCanvasDate(isoDate: string): string {
+	const date = new Date(isoDate);
+
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+
+	let hours = date.getHours();
+	const minutes = String(date.getMinutes()).padStart(2, '0');
+	const ampm = hours >= 12 ? 'pm' : 'am';
+	hours = hours % 12 || 12;
+
+	return `${year}-${month}-${day} ${String(hours).padStart(2, '0')}:${minutes}${ampm}`;
+}
@@ -0,0 +1,6 @@
+/**
+ * Replace characters that are not allowed in vault file names or break links
+ */
+export function safeFileName(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim();
+}
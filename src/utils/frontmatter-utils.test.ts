@@ -0,0 +1,39 @@
+import { readFrontmatter, setFrontmatterFields } from './frontmatter-utils';
+
+describe('setFrontmatterFields', () => {
+	it('replaces a property with its list items, indented or not', () => {
+		const note = [
+			'---',
+			'canvas_type: page',
+			'tags:',
+			'- lab',
+			'- safety',
+			'aliases:',
+			'  - Goggles',
+			'title: Lab Safety',
+			'---',
+			'Wear goggles.'
+		].join('\n');
+
+		const updated = setFrontmatterFields(note, { tags: ['week-1'], aliases: [], canvas_page_id: 'lab-safety' });
+
+		expect(updated).toBe([
+			'---',
+			'canvas_type: page',
+			'tags:',
+			'  - week-1',
+			'aliases: []',
+			'title: Lab Safety',
+			'canvas_page_id: lab-safety',
+			'---',
+			'Wear goggles.'
+		].join('\n'));
+		expect(readFrontmatter(updated)!.fields).toEqual({
+			canvas_type: 'page', tags: ['week-1'], aliases: [], title: 'Lab Safety', canvas_page_id: 'lab-safety'
+		});
+	});
+
+	it('adds frontmatter to a note without any', () => {
+		expect(setFrontmatterFields('Wear goggles.', { canvas_type: 'page' })).toBe('---\ncanvas_type: page\n---\nWear goggles.');
+	});
+});
@@ -1,3 +1,5 @@
+import { parseYaml, parseYamlValue, YamlError } from './yaml';
+
 /**
  * Extract Canvas course ID from markdown frontmatter
  * Returns course ID if found, null otherwise
@@ -26,3 +28,95 @@ export function extractCanvasCourseId(content: string): string | null {
 
 	return null;
 }
+
+/**
+ * Read the YAML frontmatter at the top of a note
+ *
+ * Returns null when the note has no frontmatter; bodyStart is the line after the closing ---.
+ * Throws a YamlError, at its line in the note, for frontmatter that isn't valid YAML properties.
+ */
+export function readFrontmatter(content: string): { fields: Record<string, any>; bodyStart: number } | null {
+	const lines = content.split('\n');
+	if (lines[0]?.trim() !== '---') return null;
+
+	// No closing ---: not frontmatter
+	const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+	if (end === -1) return null;
+
+	let fields: any;
+	try {
+		fields = parseYaml(lines.slice(1, end).join('\n'));
+	} catch (error) {
+		if (error instanceof YamlError) {
+			throw new YamlError(error.message, error.line + 1);
+		}
+		throw error;
+	}
+	if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+		throw new YamlError('Frontmatter must hold "key: value" properties', 1);
+	}
+
+	return { fields, bodyStart: end + 1 };
+}
+
+/**
+ * Set frontmatter properties, adding the frontmatter if the note has none
+ * Existing properties are rewritten in place, new ones added at the end; other lines are kept.
+ */
+export function setFrontmatterFields(content: string, fields: Record<string, any>): string {
+	const entries = Object.entries(fields);
+	if (entries.length === 0) return content;
+
+	const lines = content.split('\n');
+	const existing = readFrontmatter(content);
+	if (!existing) {
+		return ['---', ...entries.flatMap(([key, value]) => formatFrontmatterField(key, value)), '---', content].join('\n');
+	}
+
+	let end = existing.bodyStart - 1;
+	for (const [key, value] of entries) {
+		const formatted = formatFrontmatterField(key, value);
+		const start = lines.slice(1, end).findIndex(line => line.startsWith(`${key}:`)) + 1;
+		if (start === 0) {
+			lines.splice(end, 0, ...formatted);
+			end += formatted.length;
+			continue;
+		}
+
+		// Replace the property along with its nested lines and list items, which may start at its indentation
+		let stop = start + 1;
+		while (stop < end && (/^\s+\S/.test(lines[stop]) || /^-(\s|$)/.test(lines[stop]))) {
+			stop++;
+		}
+		lines.splice(start, stop - start, ...formatted);
+		end += formatted.length - (stop - start);
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Frontmatter lines for one property; lists get one "- item" line per entry
+ */
+export function formatFrontmatterField(key: string, value: any): string[] {
+	if (Array.isArray(value)) {
+		return value.length > 0
+			? [`${key}:`, ...value.map(item => `  - ${formatYamlScalar(item)}`)]
+			: [`${key}: []`];
+	}
+	return [`${key}: ${formatYamlScalar(value)}`];
+}
+
+/**
+ * Write a value so that it reads back as the same value, quoting strings only when needed
+ */
+function formatYamlScalar(value: any): string {
+	if (value === null || value === undefined) return 'null';
+	if (typeof value !== 'string') return String(value);
+
+	const plain = value === value.trim() &&
+		!/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+		!/: |\s#/.test(value) &&
+		parseYamlValue(value) === value;
+	return plain ? value : JSON.stringify(value);
+}
@@ -1,4 +1,5 @@
 import TurndownService from 'turndown';
+import { updateFence } from './markdown-fences';
 
 // Configure Turndown service with Obsidian-friendly settings
 const turndownService = new TurndownService({
@@ -19,6 +20,75 @@ turndownService.addRule('removeCanvasWrappers', {
 	replacement: (content: string) => content
 });
 
+/**
+ * Canvas content with no markdown equivalent is kept as raw HTML. Blocks go into a
+ * fenced ```canvas-html block that the upload renderer passes through unchanged.
+ */
+export const CANVAS_HTML_LANG = 'canvas-html';
+
+const EMBED_TAGS = ['IFRAME', 'VIDEO', 'AUDIO', 'OBJECT', 'EMBED'];
+
+turndownService.addRule('canvasHtmlBlock', {
+	filter: (node: HTMLElement) => isHtmlBlock(node),
+	replacement: (_content: string, node: Node) => {
+		return '\n\n' + fenceCanvasHtml((node as HTMLElement).outerHTML) + '\n\n';
+	}
+});
+
+turndownService.addRule('canvasHtmlInline', {
+	filter: (node: HTMLElement) => isHtmlInline(node),
+	replacement: (content: string, node: Node) => {
+		const element = node as HTMLElement;
+		if (element.nodeName === 'IMG') {
+			return element.outerHTML;
+		}
+		// Keep the tag itself; its text stays editable markdown
+		const openTag = (element.cloneNode(false) as HTMLElement).outerHTML.replace(/<\/\w+>$/, '');
+		return `${openTag}${content}</${element.nodeName.toLowerCase()}>`;
+	}
+});
+
+/**
+ * Tables (merged cells, styling) and embedded media, along with a paragraph or figure around them
+ */
+function isHtmlBlock(node: HTMLElement): boolean {
+	if (node.nodeName === 'TABLE' || EMBED_TAGS.includes(node.nodeName)) {
+		return true;
+	}
+	if (node.nodeName === 'P' || node.nodeName === 'FIGURE') {
+		return EMBED_TAGS.some(tag => node.getElementsByTagName(tag).length > 0);
+	}
+	return false;
+}
+
+/**
+ * Colored spans, sub/superscript, underline and equation images
+ */
+function isHtmlInline(node: HTMLElement): boolean {
+	switch (node.nodeName) {
+		case 'SPAN':
+			return /(^|;)\s*(color|background(-color)?)\s*:/i.test(node.getAttribute('style') || '');
+		case 'FONT':
+		case 'SUP':
+		case 'SUB':
+		case 'U':
+			return true;
+		case 'IMG':
+			return node.classList.contains('equation_image');
+		default:
+			return false;
+	}
+}
+
+/**
+ * Wrap raw HTML in a canvas-html fence, longer than any backtick run inside it
+ */
+function fenceCanvasHtml(html: string): string {
+	const longestRun = Math.max(0, ...(html.match(/`+/g) || []).map(run => run.length));
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${fence}${CANVAS_HTML_LANG}\n${html}\n${fence}`;
+}
+
 /**
  * Convert HTML to Markdown
  * @param html HTML string from Canvas API
@@ -43,8 +113,17 @@ export function htmlToMarkdown(html: string): string {
  */
 function shiftHeadingLevels(markdown: string, shift: number): string {
 	const prefix = '#'.repeat(shift);
-	// Match markdown headings at start of line
-	return markdown.replace(/^(#{1,6})\s/gm, `${prefix}$1 `);
+	let fence: string | null = null;
+
+	return markdown.split('\n').map(line => {
+		// Leave code blocks and canvas-html blocks alone
+		const inFence = fence !== null;
+		fence = updateFence(line, fence);
+		if (inFence || fence !== null) return line;
+
+		// Match markdown headings at start of line
+		return line.replace(/^(#{1,6})\s/, `${prefix}$1 `);
+	}).join('\n');
 }
 
 /**
@@ -0,0 +1,89 @@
+/**
+ * Line-level diff utilities for the upload preview
+ */
+
+export interface DiffLine {
+	type: 'same' | 'removed' | 'added';
+	text: string;
+}
+
+export interface DiffRow {
+	type: 'same' | 'changed' | 'removed' | 'added';
+	left?: string;  // Old (Canvas) side
+	right?: string; // New (local) side
+}
+
+/**
+ * Diff two texts line by line using the longest common subsequence
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = oldText.split('\n');
+	const b = newText.split('\n');
+
+	// lcs[i][j] = length of the LCS of a[i..] and b[j..]
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i] === b[j]
+				? lcs[i + 1][j + 1] + 1
+				: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ type: 'same', text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			result.push({ type: 'removed', text: a[i++] });
+		} else {
+			result.push({ type: 'added', text: b[j++] });
+		}
+	}
+	while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+	while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+	return result;
+}
+
+/**
+ * Arrange a diff in two columns, pairing removed lines with the added lines that replace them
+ */
+export function toSideBySide(diff: DiffLine[]): DiffRow[] {
+	const rows: DiffRow[] = [];
+	let removed: string[] = [];
+	let added: string[] = [];
+
+	const flush = () => {
+		const count = Math.max(removed.length, added.length);
+		for (let k = 0; k < count; k++) {
+			const left = removed[k];
+			const right = added[k];
+			rows.push({
+				type: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added',
+				left,
+				right
+			});
+		}
+		removed = [];
+		added = [];
+	};
+
+	for (const line of diff) {
+		if (line.type === 'removed') {
+			removed.push(line.text);
+		} else if (line.type === 'added') {
+			added.push(line.text);
+		} else {
+			flush();
+			rows.push({ type: 'same', left: line.text, right: line.text });
+		}
+	}
+	flush();
+
+	return rows;
+}
@@ -0,0 +1,20 @@
+/**
+ * Track fenced code blocks while walking markdown line by line
+ */
+
+/**
+ * Return the open fence after this line: the fence marker when the line opens a block,
+ * null when it closes one, or the current state otherwise
+ */
+export function updateFence(line: string, open: string | null): string | null {
+	const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+	if (!marker) return open;
+
+	if (open === null) return marker;
+
+	// A closing fence uses the same character, is at least as long, and has nothing after it
+	if (marker[0] === open[0] && marker.length >= open.length && line.trim() === marker) {
+		return null;
+	}
+	return open;
+}
@@ -0,0 +1,33 @@
+/**
+ * Content types for files uploaded to Canvas
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	svg: 'image/svg+xml',
+	webp: 'image/webp',
+	pdf: 'application/pdf',
+	doc: 'application/msword',
+	docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	ppt: 'application/vnd.ms-powerpoint',
+	pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+	xls: 'application/vnd.ms-excel',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	csv: 'text/csv',
+	txt: 'text/plain',
+	zip: 'application/zip',
+	mp3: 'audio/mpeg',
+	mp4: 'video/mp4',
+	webm: 'video/webm'
+};
+
+/**
+ * Guess a content type from a file name (application/octet-stream when unknown)
+ */
+export function contentTypeFor(name: string): string {
+	const extension = name.split('.').pop()?.toLowerCase() ?? '';
+	return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
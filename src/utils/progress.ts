@@ -0,0 +1,28 @@
+/**
+ * Count finished steps out of a total that grows as more work is discovered
+ */
+export class ProgressCounter {
+	private done = 0;
+	private total = 0;
+	private onChange: (done: number, total: number) => void;
+
+	constructor(onChange: (done: number, total: number) => void) {
+		this.onChange = onChange;
+	}
+
+	/**
+	 * Add steps still to do
+	 */
+	add(count: number): void {
+		this.total += count;
+		this.onChange(this.done, this.total);
+	}
+
+	/**
+	 * Mark one step as done
+	 */
+	tick(): void {
+		this.done++;
+		this.onChange(this.done, this.total);
+	}
+}
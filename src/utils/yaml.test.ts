@@ -0,0 +1,71 @@
+import { parseYaml, YamlError } from './yaml';
+
+describe('parseYaml', () => {
+	it('types plain scalars and keeps dates as text', () => {
+		expect(parseYaml([
+			'points: 10',
+			'ratio: 0.5',
+			'graded: true',
+			'time_limit: null',
+			'due: 2026-01-20 11:59pm   # a comment',
+			'title: "Week #1: intro"',
+			"note: 'it''s here'"
+		].join('\n'))).toEqual({
+			points: 10,
+			ratio: 0.5,
+			graded: true,
+			time_limit: null,
+			due: '2026-01-20 11:59pm',
+			title: 'Week #1: intro',
+			note: "it's here"
+		});
+	});
+
+	it('reads nested mappings, lists of mappings and flow collections', () => {
+		expect(parseYaml([
+			'submission_types: [online_text_entry, online_upload]',
+			'overrides:',
+			'  - section: Section A',
+			'    due: 2026-01-22',
+			'  - students: [12, 13]',
+			'rubric:',
+			'  title: Essay Rubric',
+			'  options: {free_form: false, points: 4}',
+			'tags:',
+			'- lab',
+			'- safety'
+		].join('\n'))).toEqual({
+			submission_types: ['online_text_entry', 'online_upload'],
+			overrides: [
+				{ section: 'Section A', due: '2026-01-22' },
+				{ students: [12, 13] }
+			],
+			rubric: { title: 'Essay Rubric', options: { free_form: false, points: 4 } },
+			tags: ['lab', 'safety']
+		});
+	});
+
+	it('reads an empty document as an empty mapping', () => {
+		expect(parseYaml('\n# nothing here\n')).toEqual({});
+	});
+
+	it('reports malformed YAML with its line', () => {
+		const errorAt = (text: string) => {
+			try {
+				parseYaml(text);
+			} catch (error) {
+				expect(error).toBeInstanceOf(YamlError);
+				return `${error.line}: ${error.message}`;
+			}
+			return 'no error';
+		};
+
+		expect(errorAt('points: 10\njust text')).toBe('1: Expected "key: value", found "just text"');
+		expect(errorAt('points: 10\npoints: 12')).toBe('1: Duplicate key "points"');
+		expect(errorAt('a: 1\n    b: 2')).toBe('1: Unexpected indentation');
+		expect(errorAt('types: [a, b')).toBe('0: Missing "]"');
+		expect(errorAt('title: "open')).toBe('0: Unclosed quoted string');
+		expect(errorAt('text: |\n  more')).toBe('0: Multi-line strings (| and >) are not supported; use a quoted string');
+		expect(errorAt('a: 1\n\tb: 2')).toBe('1: Tabs are not allowed for indentation');
+	});
+});
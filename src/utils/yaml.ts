@@ -0,0 +1,362 @@
+/**
+ * A small YAML reader for the metadata blocks of course items and the frontmatter of notes
+ *
+ * Covers what metadata needs: mappings and lists nested by indentation, flow lists and
+ * maps ([a, b], {a: 1}), plain and quoted scalars, and comments. Plain scalars are typed
+ * as null, booleans and numbers; dates stay strings. Anchors, tags, multi-line strings and
+ * multiple documents are reported as errors rather than misread.
+ */
+
+/**
+ * Malformed YAML, at a line of the parsed text (0-based)
+ */
+export class YamlError extends Error {
+	line: number;
+
+	constructor(message: string, line: number) {
+		super(message);
+		this.name = 'YamlError';
+		this.line = line;
+	}
+}
+
+interface YamlLine {
+	indent: number;
+	text: string;   // Without indentation and comment
+	line: number;
+}
+
+/**
+ * Parse a YAML document into plain values; an empty document is an empty mapping
+ */
+export function parseYaml(text: string): any {
+	const lines: YamlLine[] = [];
+	text.split('\n').forEach((raw, line) => {
+		const indentation = raw.match(/^[ \t]*/)![0];
+		const content = stripComment(raw.slice(indentation.length)).replace(/\s+$/, '');
+		if (!content) return;
+
+		if (indentation.includes('\t')) {
+			throw new YamlError('Tabs are not allowed for indentation', line);
+		}
+		if (content === '---' || content === '...') {
+			throw new YamlError('Only one document is allowed', line);
+		}
+		lines.push({ indent: indentation.length, text: content, line });
+	});
+
+	if (lines.length === 0) return {};
+
+	const reader = new BlockReader(lines);
+	const value = reader.block(lines[0].indent);
+	reader.expectEnd();
+	return value;
+}
+
+/**
+ * Parse a value written on one line: a flow list or map, a quoted string, or a plain scalar
+ */
+export function parseYamlValue(text: string): any {
+	return parseInline(text.trim(), 0);
+}
+
+/**
+ * Reads indentation-nested mappings and lists, one line at a time
+ */
+class BlockReader {
+	private lines: YamlLine[];
+	private index = 0;
+
+	constructor(lines: YamlLine[]) {
+		this.lines = lines;
+	}
+
+	/**
+	 * A mapping or list whose lines start at the given indentation
+	 */
+	block(indent: number): any {
+		return isListEntry(this.lines[this.index].text) ? this.list(indent) : this.mapping(indent);
+	}
+
+	expectEnd(): void {
+		const next = this.lines[this.index];
+		if (next) {
+			throw new YamlError('Unexpected indentation', next.line);
+		}
+	}
+
+	private mapping(indent: number): Record<string, any> {
+		const mapping: Record<string, any> = {};
+
+		while (this.index < this.lines.length && this.lines[this.index].indent === indent) {
+			const { text, line } = this.lines[this.index];
+			if (isListEntry(text)) {
+				throw new YamlError('Expected "key: value", found a list entry', line);
+			}
+
+			const entry = splitKey(text, line);
+			if (!entry) {
+				throw new YamlError(`Expected "key: value", found "${text}"`, line);
+			}
+			if (Object.prototype.hasOwnProperty.call(mapping, entry.key)) {
+				throw new YamlError(`Duplicate key "${entry.key}"`, line);
+			}
+
+			this.index++;
+			mapping[entry.key] = entry.value
+				? parseInline(entry.value, line)
+				: this.nested(indent, true);
+		}
+
+		return mapping;
+	}
+
+	private list(indent: number): any[] {
+		const list: any[] = [];
+
+		while (this.index < this.lines.length && this.lines[this.index].indent === indent && isListEntry(this.lines[this.index].text)) {
+			const current = this.lines[this.index];
+			const rest = current.text.replace(/^-\s*/, '');
+
+			if (!rest) {
+				this.index++;
+				list.push(this.nested(indent, false));
+			} else if (splitKey(rest, current.line)) {
+				// "- key: value" starts a mapping indented to where the key is
+				const keyIndent = indent + current.text.length - rest.length;
+				this.lines[this.index] = { indent: keyIndent, text: rest, line: current.line };
+				list.push(this.mapping(keyIndent));
+			} else {
+				this.index++;
+				list.push(parseInline(rest, current.line));
+			}
+		}
+
+		return list;
+	}
+
+	/**
+	 * The value of a key or list entry left empty on its own line: a more indented block,
+	 * a list at the key's indentation (allowed for mapping values), or else null
+	 */
+	private nested(indent: number, allowSameIndentList: boolean): any {
+		const next = this.lines[this.index];
+		if (next && next.indent > indent) {
+			return this.block(next.indent);
+		}
+		if (next && allowSameIndentList && next.indent === indent && isListEntry(next.text)) {
+			return this.list(indent);
+		}
+		return null;
+	}
+}
+
+function isListEntry(text: string): boolean {
+	return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Split "key: value" (value may be empty), or return null when the text is not a key
+ */
+function splitKey(text: string, line: number): { key: string; value: string } | null {
+	if (/^["']/.test(text)) {
+		const end = quotedEnd(text, 0);
+		if (end < 0) return null;
+		const rest = text.slice(end).match(/^\s*:(?:\s+(.*)|$)/);
+		return rest ? { key: parseQuoted(text.slice(0, end), line), value: (rest[1] || '').trim() } : null;
+	}
+
+	if (/^[[{]/.test(text)) return null;
+	const match = text.match(/^([^:]+?)\s*:(?:\s+(.*)|$)/);
+	return match ? { key: match[1], value: (match[2] || '').trim() } : null;
+}
+
+/**
+ * A value written on one line: a flow list or map, a quoted string, or a plain scalar
+ */
+function parseInline(text: string, line: number): any {
+	if (/^[|>]/.test(text)) {
+		throw new YamlError('Multi-line strings (| and >) are not supported; use a quoted string', line);
+	}
+	if (/^[&*!]/.test(text)) {
+		throw new YamlError('Anchors, aliases and tags are not supported', line);
+	}
+
+	if (/^[[{"']/.test(text)) {
+		const reader = new FlowReader(text, line);
+		const value = reader.value();
+		reader.expectEnd();
+		return value;
+	}
+
+	return plainScalar(text);
+}
+
+/**
+ * Reads flow collections and quoted strings character by character
+ */
+class FlowReader {
+	private text: string;
+	private line: number;
+	private position = 0;
+
+	constructor(text: string, line: number) {
+		this.text = text;
+		this.line = line;
+	}
+
+	value(): any {
+		this.skipSpaces();
+		const char = this.text[this.position];
+
+		if (char === '[') return this.list();
+		if (char === '{') return this.mapping();
+		if (char === '"' || char === "'") return this.quoted();
+		return plainScalar(this.plain());
+	}
+
+	expectEnd(): void {
+		this.skipSpaces();
+		if (this.position < this.text.length) {
+			throw new YamlError(`Unexpected "${this.text.slice(this.position)}" after the value`, this.line);
+		}
+	}
+
+	private list(): any[] {
+		const list: any[] = [];
+		this.position++;
+
+		this.skipSpaces();
+		if (this.text[this.position] === ']') {
+			this.position++;
+			return list;
+		}
+
+		for (;;) {
+			list.push(this.value());
+			if (this.separator(']')) return list;
+		}
+	}
+
+	private mapping(): Record<string, any> {
+		const mapping: Record<string, any> = {};
+		this.position++;
+
+		this.skipSpaces();
+		if (this.text[this.position] === '}') {
+			this.position++;
+			return mapping;
+		}
+
+		for (;;) {
+			this.skipSpaces();
+			const quote = this.text[this.position];
+			const key = quote === '"' || quote === "'" ? this.quoted() : this.plain(':');
+			this.skipSpaces();
+			if (this.text[this.position] !== ':') {
+				throw new YamlError(`Expected ":" after "${key}"`, this.line);
+			}
+			this.position++;
+			mapping[key] = this.value();
+			if (this.separator('}')) return mapping;
+		}
+	}
+
+	/**
+	 * Step over "," (returning false) or the closing bracket (returning true)
+	 */
+	private separator(close: string): boolean {
+		this.skipSpaces();
+		const char = this.text[this.position++];
+		if (char === ',') return false;
+		if (char === close) return true;
+		throw new YamlError(char === undefined ? `Missing "${close}"` : `Expected "," or "${close}"`, this.line);
+	}
+
+	private quoted(): string {
+		const end = quotedEnd(this.text, this.position);
+		if (end < 0) {
+			throw new YamlError('Unclosed quoted string', this.line);
+		}
+		const value = parseQuoted(this.text.slice(this.position, end), this.line);
+		this.position = end;
+		return value;
+	}
+
+	/**
+	 * A plain scalar, up to the next flow delimiter
+	 */
+	private plain(extraStop = ''): string {
+		const start = this.position;
+		while (this.position < this.text.length && !(',]}' + extraStop).includes(this.text[this.position])) {
+			this.position++;
+		}
+		return this.text.slice(start, this.position).trim();
+	}
+
+	private skipSpaces(): void {
+		while (this.text[this.position] === ' ') this.position++;
+	}
+}
+
+/**
+ * Where the quoted string starting at the given position ends (just past the closing
+ * quote), or -1 when it isn't closed
+ */
+function quotedEnd(text: string, start: number): number {
+	const quote = text[start];
+	for (let i = start + 1; i < text.length; i++) {
+		if (quote === '"' && text[i] === '\\') {
+			i++;
+		} else if (text[i] === quote) {
+			if (quote === "'" && text[i + 1] === "'") {
+				i++;
+			} else {
+				return i + 1;
+			}
+		}
+	}
+	return -1;
+}
+
+function parseQuoted(quoted: string, line: number): string {
+	if (quoted.startsWith("'")) {
+		return quoted.slice(1, -1).replace(/''/g, "'");
+	}
+
+	try {
+		return JSON.parse(quoted);
+	} catch {
+		throw new YamlError(`Invalid escape in ${quoted}`, line);
+	}
+}
+
+/**
+ * Type a plain scalar: null, booleans and numbers; anything else is a string
+ */
+function plainScalar(text: string): any {
+	if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) return null;
+	if (/^(true|True|TRUE)$/.test(text)) return true;
+	if (/^(false|False|FALSE)$/.test(text)) return false;
+	if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+	return text;
+}
+
+/**
+ * Drop a trailing "# comment", which needs a space before it and can't be inside quotes
+ */
+function stripComment(text: string): string {
+	let quote: string | null = null;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === '\\' && quote === '"') i++;
+			else if (char === quote) quote = null;
+		} else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+			quote = char;
+		} else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+			return text.slice(0, i);
+		}
+	}
+	return text;
+}